@@ -0,0 +1,214 @@
+/**
+ * One-off migration to the shared email normalization (src/lib/email.ts)
+ *
+ * Usage: npx ts-node -r tsconfig-paths/register -O '{"module":"commonjs"}' scripts/normalize-emails.ts [--dry-run]
+ *
+ * 1. Identities whose primary emails only differ by case or whitespace are
+ *    merged into the oldest one (splittable from Admin > Duplicates).
+ * 2. Product email links that collide are merged the same way when they
+ *    belong to different identities, then collapsed to one row, keeping a
+ *    verified row over an unverified one and the oldest otherwise.
+ * 3. Every stored email is rewritten in normalized form and the folded
+ *    alias keys are backfilled.
+ *
+ * Safe to run more than once; a second run finds nothing to do.
+ * With --dry-run nothing is written and the planned changes are printed.
+ */
+
+import { config } from 'dotenv'
+config()
+
+import prisma from '../src/lib/db'
+import { foldEmailAliases, normalizeEmail } from '../src/lib/email'
+import { mergeIdentities } from '../src/lib/services/identity-merge.service'
+
+const DRY_RUN = process.argv.includes('--dry-run')
+
+// Recorded as the admin on merges and audit entries made by this script
+const ACTOR = 'script:normalize-emails'
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    groups.set(key(item), [...(groups.get(key(item)) || []), item])
+  }
+  return groups
+}
+
+async function merge(survivorId: string, mergedId: string, email: string) {
+  console.log(`Merge ${mergedId} into ${survivorId} (${email})`)
+
+  if (DRY_RUN) {
+    return
+  }
+
+  const result = await mergeIdentities(survivorId, mergedId, ACTOR)
+
+  await prisma.auditLog.create({
+    data: {
+      action: 'identity_merged',
+      identityId: survivorId,
+      productIds: [],
+      adminEmail: ACTOR,
+      details: { mergeId: result.id, mergedId, reason: `Email normalization: ${email}` }
+    }
+  })
+}
+
+/**
+ * Merge identities whose primary emails collide once normalized
+ */
+async function mergeCollidingIdentities(): Promise<number> {
+  const identities = await prisma.identity.findMany({
+    where: { mergedIntoId: null },
+    select: { id: true, primaryEmail: true },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  let merged = 0
+  for (const [email, group] of groupBy(identities, (i) => normalizeEmail(i.primaryEmail))) {
+    const [survivor, ...duplicates] = group
+    for (const duplicate of duplicates) {
+      await merge(survivor.id, duplicate.id, email)
+      merged++
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Resolve an identity to the one it was merged into, if any
+ */
+async function survivorOf(identityId: string): Promise<{ id: string; createdAt: Date }> {
+  const identity = await prisma.identity.findUniqueOrThrow({
+    where: { id: identityId },
+    select: { id: true, createdAt: true, mergedIntoId: true }
+  })
+
+  return identity.mergedIntoId ? survivorOf(identity.mergedIntoId) : identity
+}
+
+/**
+ * Collapse product email links that collide once normalized
+ */
+async function collapseCollidingLinks(): Promise<{ merged: number; deleted: number }> {
+  const links = await prisma.identityEmail.findMany({ orderBy: { addedAt: 'asc' } })
+  const groups = groupBy(links, (l) => `${normalizeEmail(l.email)}:${l.productId}`)
+
+  let merged = 0
+  let deleted = 0
+
+  for (const [key, group] of groups) {
+    if (group.length < 2) {
+      continue
+    }
+
+    // Verified links from different customers are the same person under one address
+    const owners = await Promise.all(
+      [...new Set(group.filter((l) => l.verified).map((l) => l.identityId))].map(survivorOf)
+    )
+    const distinctOwners = [...new Map(owners.map((o) => [o.id, o])).values()]
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+
+    for (const owner of distinctOwners.slice(1)) {
+      await merge(distinctOwners[0].id, owner.id, key)
+      merged++
+    }
+
+    const [keep, ...duplicates] = [...group].sort((a, b) => Number(b.verified) - Number(a.verified))
+    console.log(`Keep link ${keep.id} for ${key}, delete ${duplicates.map((d) => d.id).join(', ')}`)
+    deleted += duplicates.length
+
+    if (!DRY_RUN) {
+      await prisma.identityEmail.deleteMany({ where: { id: { in: duplicates.map((d) => d.id) } } })
+    }
+  }
+
+  return { merged, deleted }
+}
+
+/**
+ * Rewrite stored emails in normalized form and backfill the folded keys
+ */
+async function rewriteEmails(): Promise<number> {
+  let updated = 0
+
+  const identities = await prisma.identity.findMany({
+    select: { id: true, primaryEmail: true, primaryEmailKey: true }
+  })
+  for (const identity of identities) {
+    const primaryEmail = normalizeEmail(identity.primaryEmail)
+    const primaryEmailKey = foldEmailAliases(primaryEmail)
+
+    if (identity.primaryEmail !== primaryEmail || identity.primaryEmailKey !== primaryEmailKey) {
+      updated++
+      if (!DRY_RUN) {
+        await prisma.identity.update({ where: { id: identity.id }, data: { primaryEmail, primaryEmailKey } })
+      }
+    }
+  }
+
+  const links = await prisma.identityEmail.findMany({
+    select: { id: true, email: true, emailKey: true }
+  })
+  for (const link of links) {
+    const email = normalizeEmail(link.email)
+    const emailKey = foldEmailAliases(email)
+
+    if (link.email !== email || link.emailKey !== emailKey) {
+      updated++
+      if (!DRY_RUN) {
+        await prisma.identityEmail.update({ where: { id: link.id }, data: { email, emailKey } })
+      }
+    }
+  }
+
+  const claimTokens = await prisma.claimToken.findMany({ select: { token: true, purchaseEmail: true } })
+  for (const claimToken of claimTokens) {
+    const purchaseEmail = normalizeEmail(claimToken.purchaseEmail)
+
+    if (claimToken.purchaseEmail !== purchaseEmail) {
+      updated++
+      if (!DRY_RUN) {
+        await prisma.claimToken.update({ where: { token: claimToken.token }, data: { purchaseEmail } })
+      }
+    }
+  }
+
+  const verifications = await prisma.emailVerification.findMany({ select: { id: true, email: true } })
+  for (const verification of verifications) {
+    const email = normalizeEmail(verification.email)
+
+    if (verification.email !== email) {
+      updated++
+      if (!DRY_RUN) {
+        await prisma.emailVerification.update({ where: { id: verification.id }, data: { email } })
+      }
+    }
+  }
+
+  return updated
+}
+
+async function main() {
+  if (DRY_RUN) {
+    console.log('Dry run: nothing will be written')
+  }
+
+  const mergedIdentities = await mergeCollidingIdentities()
+  const links = await collapseCollidingLinks()
+  const rewritten = await rewriteEmails()
+
+  console.log(
+    `Merged ${mergedIdentities + links.merged} identities, deleted ${links.deleted} duplicate links, ` +
+    `rewrote ${rewritten} emails`
+  )
+}
+
+main()
+  .catch((error) => {
+    console.error('Error normalizing emails:', error)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
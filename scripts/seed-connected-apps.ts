@@ -0,0 +1,66 @@
+/**
+ * Standalone script to register the apps that used to be hardcoded
+ * in app-sync.service.ts
+ *
+ * Usage: npx ts-node scripts/seed-connected-apps.ts
+ *
+ * Existing apps are left untouched, so this is safe to run more than once.
+ * REZUME_API_URL, AICOACH_API_URL, JOBS123_RESUME_API_URL and
+ * JOBS123_INTERVIEW_API_URL override the default base URLs.
+ */
+
+import { config } from 'dotenv'
+config()
+
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+const APPS = [
+  {
+    id: 'rezume',
+    name: 'Rezume',
+    baseUrl: process.env.REZUME_API_URL || 'https://resume-builder-canada-9ee6ef699d83.herokuapp.com',
+    productIds: ['rezume']
+  },
+  {
+    id: 'aicoach',
+    name: 'AI Interview Coach',
+    baseUrl: process.env.AICOACH_API_URL || 'https://your-ai-interview-coach-7f11f441a641.herokuapp.com',
+    productIds: ['aicoach']
+  },
+  // 123jobs.ca Products (separate from rezume/aicoach)
+  {
+    id: '123jobs-resume',
+    name: '123 Jobs AI Resume',
+    baseUrl: process.env.JOBS123_RESUME_API_URL || 'https://ai-resume-123jobs-413c2de82766.herokuapp.com',
+    productIds: ['123jobs-resume']
+  },
+  {
+    id: '123jobs-interview',
+    name: '123 Jobs Interview Coach',
+    baseUrl: process.env.JOBS123_INTERVIEW_API_URL || 'https://interview-123jobs-api-83a5741b270e.herokuapp.com',
+    productIds: ['123jobs-interview']
+  }
+]
+
+async function main() {
+  for (const app of APPS) {
+    const existing = await prisma.connectedApp.findUnique({ where: { id: app.id } })
+
+    if (existing) {
+      console.log(`Skipping ${app.id} (already registered)`)
+      continue
+    }
+
+    await prisma.connectedApp.create({ data: app })
+    console.log(`Registered ${app.id} -> ${app.baseUrl}`)
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Error seeding connected apps:', error)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,72 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+export default function AccountLoginPage() {
+  const params = useParams()
+  const router = useRouter()
+  const token = params.token as string
+
+  const [error, setError] = useState<string | null>(null)
+  // Sign-in links work once, so don't send the token twice
+  const submitted = useRef(false)
+
+  useEffect(() => {
+    async function login() {
+      try {
+        const res = await fetch('/api/v1/account/login/verify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token })
+        })
+        const data = await res.json()
+
+        if (data.success) {
+          localStorage.setItem('account_token', data.token)
+          router.replace('/account')
+        } else {
+          setError(data.error || 'Failed to sign in')
+        }
+      } catch (err) {
+        console.error('Error signing in:', err)
+        setError('Failed to sign in')
+      }
+    }
+
+    if (!submitted.current) {
+      submitted.current = true
+      login()
+    }
+  }, [token, router])
+
+  if (!error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Signing you in...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="max-w-md w-full">
+        <CardHeader>
+          <CardTitle className="text-red-600">Sign-in Failed</CardTitle>
+          <CardDescription>{error}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-600">
+            Sign-in links expire after a few minutes and work once.{' '}
+            <Link href="/account" className="underline">Request a new link</Link>.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,378 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+
+interface AccountProduct {
+  id: string
+  name: string
+  hasAccess: boolean
+  source?: string
+  expires?: string | null
+  graceEndsAt?: string
+  appUrl: string | null
+  emails: { email: string; verified: boolean }[]
+}
+
+interface Account {
+  email: string
+  name: string | null
+  signedInAs: string
+  products: AccountProduct[]
+  hasBillingPortal: boolean
+  hasReceipts: boolean
+}
+
+interface Receipt {
+  id: string
+  amount: number
+  amountRefunded: number
+  currency: string
+  description: string | null
+  createdAt: string
+  receiptUrl: string
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  bundle: 'Bundle',
+  direct: 'Direct purchase',
+  promo: 'Promotion',
+  manual: 'Granted by support'
+}
+
+function formatAmount(amount: number, currency: string) {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() }).format(amount / 100)
+}
+
+export default function AccountPage() {
+  const [loading, setLoading] = useState(true)
+  const [token, setToken] = useState<string | null>(null)
+  const [account, setAccount] = useState<Account | null>(null)
+  const [receipts, setReceipts] = useState<Receipt[]>([])
+  const [reloadKey, setReloadKey] = useState(0)
+
+  const [loginEmail, setLoginEmail] = useState('')
+  const [sendingLink, setSendingLink] = useState(false)
+  const [linkSent, setLinkSent] = useState(false)
+
+  const [editingProduct, setEditingProduct] = useState<string | null>(null)
+  const [productEmail, setProductEmail] = useState('')
+  const [savingEmail, setSavingEmail] = useState(false)
+  const [openingPortal, setOpeningPortal] = useState(false)
+
+  useEffect(() => {
+    async function loadAccount() {
+      const storedToken = localStorage.getItem('account_token')
+      setToken(storedToken)
+
+      if (!storedToken) {
+        setLoading(false)
+        return
+      }
+
+      try {
+        const headers = { Authorization: `Bearer ${storedToken}` }
+        const res = await fetch('/api/v1/account', { headers })
+
+        if (res.status === 401) {
+          localStorage.removeItem('account_token')
+          setToken(null)
+          return
+        }
+
+        const data = await res.json()
+        setAccount(data)
+
+        if (data.hasReceipts) {
+          const receiptsRes = await fetch('/api/v1/account/receipts', { headers })
+          if (receiptsRes.ok) {
+            setReceipts((await receiptsRes.json()).receipts)
+          }
+        }
+      } catch (error) {
+        console.error('Error loading account:', error)
+        toast.error('Failed to load your account')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadAccount()
+  }, [reloadKey])
+
+  async function handleRequestLink(e: React.FormEvent) {
+    e.preventDefault()
+    setSendingLink(true)
+
+    try {
+      const res = await fetch('/api/v1/account/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: loginEmail })
+      })
+      const data = await res.json()
+
+      if (data.success) {
+        setLinkSent(true)
+      } else {
+        toast.error(data.error || 'Failed to send sign-in link')
+      }
+    } catch (error) {
+      console.error('Error requesting sign-in link:', error)
+      toast.error('Failed to send sign-in link')
+    } finally {
+      setSendingLink(false)
+    }
+  }
+
+  function handleLogout() {
+    localStorage.removeItem('account_token')
+    setToken(null)
+    setAccount(null)
+    setReceipts([])
+  }
+
+  function startEditing(product: AccountProduct) {
+    setEditingProduct(product.id)
+    setProductEmail(product.emails[0]?.email || account?.email || '')
+  }
+
+  async function handleSaveEmail(productId: string) {
+    setSavingEmail(true)
+
+    try {
+      const res = await fetch('/api/v1/account/emails', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ productId, email: productEmail })
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to change email')
+        return
+      }
+
+      if (data.verified) {
+        toast.success(`${data.email} now has access`)
+      } else if (data.verificationSent) {
+        toast.success(`Check ${data.email} for a link to confirm the address`)
+      } else {
+        toast.warning(`${data.email} needs to be confirmed, but the email could not be sent. Please contact support.`)
+      }
+
+      setEditingProduct(null)
+      setReloadKey((key) => key + 1)
+    } catch (error) {
+      console.error('Error changing email:', error)
+      toast.error('Failed to change email')
+    } finally {
+      setSavingEmail(false)
+    }
+  }
+
+  async function handleOpenBillingPortal() {
+    setOpeningPortal(true)
+
+    try {
+      const res = await fetch('/api/v1/account/billing-portal', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` }
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to open billing')
+        return
+      }
+
+      window.location.href = data.url
+    } catch (error) {
+      console.error('Error opening billing portal:', error)
+      toast.error('Failed to open billing')
+    } finally {
+      setOpeningPortal(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!token || !account) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle>Your Account</CardTitle>
+            <CardDescription>
+              {linkSent
+                ? `If ${loginEmail} belongs to a customer, a sign-in link is on its way. It expires in 15 minutes.`
+                : 'Enter the email you bought with, or any email you use for one of our products.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {linkSent ? (
+              <Button variant="outline" className="w-full" onClick={() => setLinkSent(false)}>
+                Use a different email
+              </Button>
+            ) : (
+              <form onSubmit={handleRequestLink} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={loginEmail}
+                    onChange={(e) => setLoginEmail(e.target.value)}
+                    placeholder="you@example.com"
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={sendingLink}>
+                  {sendingLink ? 'Sending...' : 'Email me a sign-in link'}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const ownedProducts = account.products.filter((p) => p.hasAccess)
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Your Account</h1>
+            <p className="mt-2 text-gray-600">Signed in as {account.signedInAs}</p>
+          </div>
+          <Button variant="outline" onClick={handleLogout}>
+            Sign out
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Products</CardTitle>
+            <CardDescription>
+              Products you have access to and the email each one uses.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {ownedProducts.length === 0 && (
+              <p className="text-sm text-gray-600">You don&apos;t have access to any products right now.</p>
+            )}
+            {ownedProducts.map((product) => (
+              <div key={product.id} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{product.name}</p>
+                    <p className="text-sm text-gray-600">
+                      {product.expires
+                        ? `Access until ${new Date(product.expires).toLocaleDateString()}`
+                        : 'Lifetime access'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {product.source && (
+                      <Badge variant="outline">{SOURCE_LABELS[product.source] || product.source}</Badge>
+                    )}
+                    {product.graceEndsAt && <Badge variant="destructive">Payment failed</Badge>}
+                    {product.appUrl && (
+                      <Button size="sm" asChild>
+                        <a href={product.appUrl} target="_blank" rel="noopener noreferrer">Open</a>
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {editingProduct === product.id ? (
+                  <div className="flex gap-2">
+                    <Input
+                      type="email"
+                      value={productEmail}
+                      onChange={(e) => setProductEmail(e.target.value)}
+                      aria-label={`Email for ${product.name}`}
+                    />
+                    <Button onClick={() => handleSaveEmail(product.id)} disabled={savingEmail || !productEmail}>
+                      {savingEmail ? 'Saving...' : 'Save'}
+                    </Button>
+                    <Button variant="outline" onClick={() => setEditingProduct(null)} disabled={savingEmail}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="space-y-1">
+                      {product.emails.length === 0 ? (
+                        <p className="text-gray-600">{account.email}</p>
+                      ) : (
+                        product.emails.map((link) => (
+                          <p key={link.email} className="text-gray-600">
+                            {link.email}
+                            {!link.verified && (
+                              <Badge variant="secondary" className="ml-2">Awaiting confirmation</Badge>
+                            )}
+                          </p>
+                        ))
+                      )}
+                    </div>
+                    <Button size="sm" variant="ghost" onClick={() => startEditing(product)}>
+                      Change email
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {(account.hasBillingPortal || receipts.length > 0) && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Billing</CardTitle>
+              <CardDescription>Manage subscriptions and download receipts.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {account.hasBillingPortal && (
+                <Button variant="outline" onClick={handleOpenBillingPortal} disabled={openingPortal}>
+                  {openingPortal ? 'Opening...' : 'Manage subscriptions'}
+                </Button>
+              )}
+              {receipts.map((receipt) => (
+                <div key={receipt.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <p className="font-medium">{receipt.description || 'Payment'}</p>
+                    <p className="text-sm text-gray-600">
+                      {new Date(receipt.createdAt).toLocaleDateString()} · {formatAmount(receipt.amount, receipt.currency)}
+                      {receipt.amountRefunded > 0 && ` (${formatAmount(receipt.amountRefunded, receipt.currency)} refunded)`}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="ghost" asChild>
+                    <a href={receipt.receiptUrl} target="_blank" rel="noopener noreferrer">Receipt</a>
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,366 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
+import { toast } from 'sonner'
+import { Plus, RefreshCw, Trash2, Loader2, Copy } from 'lucide-react'
+import { useAdmin } from '@/hooks/use-admin'
+import { adminFetch } from '@/lib/admin-fetch'
+
+interface ApiClient {
+  id: number
+  name: string
+  appKey: string | null
+  keyPrefix: string
+  scopes: string[]
+  lastUsedAt: string | null
+  lastUsedIp: string | null
+  revokedAt: string | null
+  createdBy: string | null
+  createdAt: string
+}
+
+export default function ApiKeysPage() {
+  const { can } = useAdmin()
+  const canEdit = can('apps:write')
+  const [clients, setClients] = useState<ApiClient[]>([])
+  const [availableScopes, setAvailableScopes] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<number | 'new' | null>(null)
+  const [createDialogOpen, setCreateDialogOpen] = useState(false)
+  const [issuedKey, setIssuedKey] = useState<{ name: string; apiKey: string } | null>(null)
+  const [formData, setFormData] = useState({
+    name: '',
+    appKey: '',
+    scopes: [] as string[]
+  })
+
+  useEffect(() => {
+    fetchClients()
+  }, [])
+
+  async function fetchClients() {
+    try {
+      const res = await adminFetch('/api/v1/admin/api-clients')
+      const data = await res.json()
+      setClients(data.clients || [])
+      setAvailableScopes(data.availableScopes || [])
+    } catch (error) {
+      console.error('Error fetching API clients:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function resetForm() {
+    setFormData({ name: '', appKey: '', scopes: [] })
+  }
+
+  function toggleScope(scope: string) {
+    setFormData(prev => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter(s => s !== scope)
+        : [...prev.scopes, scope]
+    }))
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault()
+
+    if (formData.scopes.length === 0) {
+      toast.error('Please select at least one scope')
+      return
+    }
+
+    setSaving('new')
+    try {
+      const res = await adminFetch('/api/v1/admin/api-clients', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          appKey: formData.appKey || null,
+          scopes: formData.scopes
+        })
+      })
+
+      const data = await res.json()
+
+      if (data.apiKey) {
+        setCreateDialogOpen(false)
+        setIssuedKey({ name: data.client.name, apiKey: data.apiKey })
+        resetForm()
+        fetchClients()
+      } else {
+        toast.error(data.error || 'Failed to create API key')
+      }
+    } catch (error) {
+      console.error('Error creating API key:', error)
+      toast.error('Failed to create API key')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleRotate(client: ApiClient) {
+    setSaving(client.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/api-clients/${client.id}/rotate`, { method: 'POST' })
+
+      const data = await res.json()
+
+      if (data.apiKey) {
+        setIssuedKey({ name: data.client.name, apiKey: data.apiKey })
+        fetchClients()
+      } else {
+        toast.error(data.error || 'Failed to rotate API key')
+      }
+    } catch (error) {
+      console.error('Error rotating API key:', error)
+      toast.error('Failed to rotate API key')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleRevoke(client: ApiClient) {
+    setSaving(client.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/api-clients/${client.id}`, { method: 'DELETE' })
+
+      const data = await res.json()
+
+      if (data.client) {
+        toast.success('API key revoked!')
+        fetchClients()
+      } else {
+        toast.error(data.error || 'Failed to revoke API key')
+      }
+    } catch (error) {
+      console.error('Error revoking API key:', error)
+      toast.error('Failed to revoke API key')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function copyIssuedKey() {
+    if (!issuedKey) return
+    await navigator.clipboard.writeText(issuedKey.apiKey)
+    toast.success('API key copied to clipboard')
+  }
+
+  if (loading) {
+    return <div className="animate-pulse">Loading...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">API Keys</h2>
+          <p className="text-gray-600">Per-app keys for the check, entitlements and report endpoints</p>
+        </div>
+
+        {canEdit && (
+          <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="mr-2 h-4 w-4" />
+                Issue Key
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Issue New API Key</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name *</Label>
+                  <Input
+                    id="name"
+                    placeholder="e.g., Rezume production"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="appKey">App (optional)</Label>
+                  <Input
+                    id="appKey"
+                    placeholder="e.g., rezume"
+                    value={formData.appKey}
+                    onChange={(e) => setFormData({ ...formData, appKey: e.target.value })}
+                  />
+                  <p className="text-xs text-gray-500">When set, this key can only report subscriptions for this app</p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Scopes *</Label>
+                  <div className="border rounded-md p-3 space-y-2">
+                    {availableScopes.map((scope) => (
+                      <div key={scope} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`scope-${scope}`}
+                          checked={formData.scopes.includes(scope)}
+                          onCheckedChange={() => toggleScope(scope)}
+                        />
+                        <Label htmlFor={`scope-${scope}`} className="font-mono text-sm">{scope}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <DialogFooter>
+                  <Button type="submit" disabled={saving !== null}>
+                    {saving === 'new' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Issue Key
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      <div className="grid gap-4">
+        {clients.map((client) => (
+          <Card key={client.id} className={client.revokedAt ? 'opacity-60' : ''}>
+            <CardHeader className="pb-2">
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle className="text-lg">{client.name}</CardTitle>
+                  <p className="text-sm text-gray-500 font-mono">{client.keyPrefix}…</p>
+                </div>
+                <div className="flex gap-2 items-center">
+                  {client.revokedAt ? (
+                    <Badge variant="destructive">Revoked</Badge>
+                  ) : (
+                    <Badge variant="default">Active</Badge>
+                  )}
+                  {client.appKey && <Badge variant="outline">{client.appKey}</Badge>}
+
+                  {!client.revokedAt && canEdit && (
+                    <>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" title="Rotate key">
+                            {saving === client.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <RefreshCw className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Rotate API Key?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The current key for &quot;{client.name}&quot; will stop working immediately.
+                              Update the app with the new key right away.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleRotate(client)}>
+                              Rotate Key
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="text-red-600 hover:text-red-700" title="Revoke key">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Revoke API Key?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              &quot;{client.name}&quot; will immediately lose access. This cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleRevoke(client)}
+                              className="bg-red-600 hover:bg-red-700"
+                            >
+                              Revoke Key
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-1 mb-2">
+                {client.scopes.map((scope) => (
+                  <Badge key={scope} variant="secondary" className="font-mono text-xs">{scope}</Badge>
+                ))}
+              </div>
+              <div className="text-sm text-gray-600 space-y-1">
+                <p>
+                  Last used:{' '}
+                  {client.lastUsedAt
+                    ? `${new Date(client.lastUsedAt).toLocaleString()}${client.lastUsedIp ? ` from ${client.lastUsedIp}` : ''}`
+                    : 'Never'}
+                </p>
+                <p className="text-gray-400">
+                  Created {new Date(client.createdAt).toLocaleDateString()}
+                  {client.createdBy ? ` by ${client.createdBy}` : ''}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        {clients.length === 0 && (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-500">
+              No API keys yet. Issue a key for each connected app.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Issued Key Dialog */}
+      <Dialog open={issuedKey !== null} onOpenChange={(open) => !open && setIssuedKey(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>API Key for {issuedKey?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+              Copy this key now. It will not be shown again.
+            </div>
+            <div className="flex gap-2">
+              <Input readOnly value={issuedKey?.apiKey || ''} className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="icon" onClick={copyIssuedKey}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
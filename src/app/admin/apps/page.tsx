@@ -0,0 +1,505 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
+import { toast } from 'sonner'
+import { Pencil, Trash2, Plus, Loader2, KeyRound, Copy } from 'lucide-react'
+import { useAdmin } from '@/hooks/use-admin'
+import { adminFetch } from '@/lib/admin-fetch'
+
+interface ConnectedApp {
+  id: string
+  name: string
+  baseUrl: string
+  syncPath: string
+  cacheClearPath: string
+  deleteUserPath: string
+  productIds: string[]
+  hasSigningSecret: boolean
+  isActive: boolean
+  pendingSyncs: number
+}
+
+interface Product {
+  id: string
+  name: string
+}
+
+const DEFAULT_SYNC_PATH = '/api/admin/sync-subscription'
+const DEFAULT_CACHE_CLEAR_PATH = '/api/admin/clear-cache'
+const DEFAULT_DELETE_USER_PATH = '/api/admin/delete-user'
+
+const emptyForm = {
+  id: '',
+  name: '',
+  baseUrl: '',
+  syncPath: DEFAULT_SYNC_PATH,
+  cacheClearPath: DEFAULT_CACHE_CLEAR_PATH,
+  deleteUserPath: DEFAULT_DELETE_USER_PATH,
+  productIds: [] as string[],
+  isActive: true
+}
+
+export default function ConnectedAppsPage() {
+  const { can } = useAdmin()
+  const canEdit = can('apps:write')
+  const [apps, setApps] = useState<ConnectedApp[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<string | null>(null)
+  const [createDialogOpen, setCreateDialogOpen] = useState(false)
+  const [editingApp, setEditingApp] = useState<ConnectedApp | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [issuedSecret, setIssuedSecret] = useState<{ name: string; signingSecret: string } | null>(null)
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  async function fetchData() {
+    try {
+      const [appsRes, productsRes] = await Promise.all([
+        adminFetch('/api/v1/admin/apps'),
+        adminFetch('/api/v1/admin/products')
+      ])
+      const appsData = await appsRes.json()
+      const productsData = await productsRes.json()
+      setApps(appsData.apps || [])
+      setProducts(productsData.products || [])
+    } catch (error) {
+      console.error('Error fetching connected apps:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function resetForm() {
+    setFormData(emptyForm)
+  }
+
+  function openEditDialog(app: ConnectedApp) {
+    setEditingApp(app)
+    setFormData({
+      id: app.id,
+      name: app.name,
+      baseUrl: app.baseUrl,
+      syncPath: app.syncPath,
+      cacheClearPath: app.cacheClearPath,
+      deleteUserPath: app.deleteUserPath,
+      productIds: app.productIds,
+      isActive: app.isActive
+    })
+  }
+
+  function toggleProduct(productId: string) {
+    setFormData(prev => ({
+      ...prev,
+      productIds: prev.productIds.includes(productId)
+        ? prev.productIds.filter(id => id !== productId)
+        : [...prev.productIds, productId]
+    }))
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault()
+
+    setSaving('new')
+    try {
+      const res = await adminFetch('/api/v1/admin/apps', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData)
+      })
+
+      const data = await res.json()
+
+      if (data.app) {
+        setCreateDialogOpen(false)
+        setIssuedSecret({ name: data.app.name, signingSecret: data.signingSecret })
+        resetForm()
+        fetchData()
+      } else {
+        toast.error(data.error || 'Failed to register app')
+      }
+    } catch (error) {
+      console.error('Error registering app:', error)
+      toast.error('Failed to register app')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleUpdate(e: React.FormEvent) {
+    e.preventDefault()
+
+    if (!editingApp) return
+
+    setSaving(editingApp.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/apps/${editingApp.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          baseUrl: formData.baseUrl,
+          syncPath: formData.syncPath,
+          cacheClearPath: formData.cacheClearPath,
+          deleteUserPath: formData.deleteUserPath,
+          productIds: formData.productIds,
+          isActive: formData.isActive
+        })
+      })
+
+      const data = await res.json()
+
+      if (data.app) {
+        toast.success('App updated!')
+        setEditingApp(null)
+        resetForm()
+        fetchData()
+      } else {
+        toast.error(data.error || 'Failed to update app')
+      }
+    } catch (error) {
+      console.error('Error updating app:', error)
+      toast.error('Failed to update app')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleDisable(appId: string) {
+    setSaving(appId)
+    try {
+      const res = await adminFetch(`/api/v1/admin/apps/${appId}`, { method: 'DELETE' })
+
+      const data = await res.json()
+
+      if (data.app) {
+        toast.success('App disabled!')
+        fetchData()
+      } else {
+        toast.error(data.error || 'Failed to disable app')
+      }
+    } catch (error) {
+      console.error('Error disabling app:', error)
+      toast.error('Failed to disable app')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleRotateSecret(app: ConnectedApp) {
+    setSaving(app.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/apps/${app.id}/rotate-secret`, { method: 'POST' })
+
+      const data = await res.json()
+
+      if (data.signingSecret) {
+        setIssuedSecret({ name: data.app.name, signingSecret: data.signingSecret })
+        fetchData()
+      } else {
+        toast.error(data.error || 'Failed to rotate signing secret')
+      }
+    } catch (error) {
+      console.error('Error rotating signing secret:', error)
+      toast.error('Failed to rotate signing secret')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function copyIssuedSecret() {
+    if (!issuedSecret) return
+    await navigator.clipboard.writeText(issuedSecret.signingSecret)
+    toast.success('Signing secret copied to clipboard')
+  }
+
+  function renderForm(onSubmit: (e: React.FormEvent) => void, submitLabel: string, showIdField = false) {
+    return (
+      <form onSubmit={onSubmit} className="space-y-4">
+        {showIdField && (
+          <div className="space-y-2">
+            <Label htmlFor="id">App Key *</Label>
+            <Input
+              id="id"
+              placeholder="e.g., 123jobs-resume"
+              value={formData.id}
+              onChange={(e) => setFormData({ ...formData, id: e.target.value })}
+              required
+            />
+            <p className="text-xs text-gray-500">Used as sourceApp when the app reports subscriptions. Lowercase, no spaces.</p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="name">Display Name *</Label>
+          <Input
+            id="name"
+            placeholder="e.g., 123 Jobs AI Resume"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="baseUrl">Base URL *</Label>
+          <Input
+            id="baseUrl"
+            type="url"
+            placeholder="https://yourapp.herokuapp.com"
+            value={formData.baseUrl}
+            onChange={(e) => setFormData({ ...formData, baseUrl: e.target.value })}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="syncPath">Sync Path</Label>
+          <Input
+            id="syncPath"
+            value={formData.syncPath}
+            onChange={(e) => setFormData({ ...formData, syncPath: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="cacheClearPath">Cache Clear Path</Label>
+          <Input
+            id="cacheClearPath"
+            value={formData.cacheClearPath}
+            onChange={(e) => setFormData({ ...formData, cacheClearPath: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="deleteUserPath">Delete User Path</Label>
+          <Input
+            id="deleteUserPath"
+            value={formData.deleteUserPath}
+            onChange={(e) => setFormData({ ...formData, deleteUserPath: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Products Served</Label>
+          <div className="border rounded-md p-3 space-y-2 max-h-48 overflow-y-auto">
+            {products.map((product) => (
+              <div key={product.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`product-${product.id}`}
+                  checked={formData.productIds.includes(product.id)}
+                  onCheckedChange={() => toggleProduct(product.id)}
+                />
+                <Label htmlFor={`product-${product.id}`} className="text-sm">
+                  {product.name} <span className="text-gray-400">({product.id})</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">Access changes to these products are synced to this app</p>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="isActive"
+            checked={formData.isActive}
+            onCheckedChange={(checked) =>
+              setFormData({ ...formData, isActive: !!checked })
+            }
+          />
+          <Label htmlFor="isActive">Enabled</Label>
+        </div>
+
+        <DialogFooter>
+          <Button type="submit" disabled={saving !== null}>
+            {saving !== null && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {submitLabel}
+          </Button>
+        </DialogFooter>
+      </form>
+    )
+  }
+
+  if (loading) {
+    return <div className="animate-pulse">Loading...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Connected Apps</h2>
+          <p className="text-gray-600">Apps that receive access syncs and report subscriptions</p>
+        </div>
+
+        {canEdit && (
+          <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add App
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Register Connected App</DialogTitle>
+              </DialogHeader>
+              {renderForm(handleCreate, 'Register App', true)}
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      <div className="grid gap-4">
+        {apps.map((app) => (
+          <Card key={app.id} className={!app.isActive ? 'opacity-60' : ''}>
+            <CardHeader className="pb-2">
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle className="text-lg">{app.name}</CardTitle>
+                  <p className="text-sm text-gray-500">{app.id}</p>
+                </div>
+                <div className="flex gap-2 items-center">
+                  <Badge variant={app.isActive ? 'default' : 'secondary'}>
+                    {app.isActive ? 'Enabled' : 'Disabled'}
+                  </Badge>
+                  <Badge variant="outline">{app.hasSigningSecret ? 'Signed' : 'Legacy key'}</Badge>
+                  {app.pendingSyncs > 0 && (
+                    <Badge variant="outline">{app.pendingSyncs} pending syncs</Badge>
+                  )}
+
+                  {canEdit && (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => openEditDialog(app)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" title={app.hasSigningSecret ? 'Rotate signing secret' : 'Generate signing secret'}>
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>
+                              {app.hasSigningSecret ? 'Rotate Signing Secret?' : 'Generate Signing Secret?'}
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Syncs to &quot;{app.name}&quot; will be signed with the new secret immediately
+                              {app.hasSigningSecret ? ' and the old secret will stop working' : ' instead of sending the shared API key'}.
+                              Update the app with the new secret right away.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleRotateSecret(app)}>
+                              {app.hasSigningSecret ? 'Rotate Secret' : 'Generate Secret'}
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+
+                      {app.isActive && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="text-red-600 hover:text-red-700">
+                              {saving === app.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Disable App?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                &quot;{app.name}&quot; will stop receiving access syncs and can no longer report subscriptions. You can re-enable it later.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleDisable(app.id)}>
+                                Disable
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-1 mb-2">
+                {app.productIds.map((productId) => (
+                  <Badge key={productId} variant="secondary">{productId}</Badge>
+                ))}
+              </div>
+              <div className="text-sm text-gray-600 space-y-1">
+                <p>URL: <a href={app.baseUrl} className="text-blue-600 hover:underline" target="_blank">{app.baseUrl}</a></p>
+                <p className="text-gray-400 font-mono text-xs">
+                  sync {app.syncPath} · cache {app.cacheClearPath} · delete {app.deleteUserPath}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        {apps.length === 0 && (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-500">
+              No connected apps yet. Register an app so it receives access syncs.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Edit Dialog */}
+      <Dialog open={editingApp !== null} onOpenChange={(open) => !open && setEditingApp(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit App: {editingApp?.id}</DialogTitle>
+          </DialogHeader>
+          {renderForm(handleUpdate, 'Save Changes')}
+        </DialogContent>
+      </Dialog>
+
+      {/* Issued Secret Dialog */}
+      <Dialog open={issuedSecret !== null} onOpenChange={(open) => !open && setIssuedSecret(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Signing Secret for {issuedSecret?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+              Copy this secret now. It will not be shown again. The app uses it to verify
+              the X-Central-Signature header on sync and cache-clear requests.
+            </div>
+            <div className="flex gap-2">
+              <Input readOnly value={issuedSecret?.signingSecret || ''} className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="icon" onClick={copyIssuedSecret}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
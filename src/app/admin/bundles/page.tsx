@@ -13,6 +13,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, Dialog
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
 import { toast } from 'sonner'
 import { Pencil, Trash2, Plus, Loader2 } from 'lucide-react'
+import { useAdmin } from '@/hooks/use-admin'
+import { adminFetch } from '@/lib/admin-fetch'
 
 interface Bundle {
   id: number
@@ -35,6 +37,8 @@ interface Product {
 }
 
 export default function BundlesPage() {
+  const { can } = useAdmin()
+  const canEdit = can('bundles:write')
   const [bundles, setBundles] = useState<Bundle[]>([])
   const [products, setProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
@@ -59,10 +63,9 @@ export default function BundlesPage() {
 
   async function fetchData() {
     try {
-      const token = localStorage.getItem('admin_token')
       const [bundlesRes, productsRes] = await Promise.all([
-        fetch('/api/v1/admin/bundles', { headers: { Authorization: `Bearer ${token}` } }),
-        fetch('/api/v1/admin/products', { headers: { Authorization: `Bearer ${token}` } })
+        adminFetch('/api/v1/admin/bundles'),
+        adminFetch('/api/v1/admin/products')
       ])
 
       const bundlesData = await bundlesRes.json()
@@ -124,13 +127,9 @@ export default function BundlesPage() {
 
     setSaving(-1)
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch('/api/v1/admin/bundles', {
+      const res = await adminFetch('/api/v1/admin/bundles', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...formData,
           durationValue: formData.durationValue ? parseInt(formData.durationValue) : null
@@ -166,13 +165,9 @@ export default function BundlesPage() {
 
     setSaving(editingBundle.id)
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch(`/api/v1/admin/bundles/${editingBundle.id}`, {
+      const res = await adminFetch(`/api/v1/admin/bundles/${editingBundle.id}`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...formData,
           durationValue: formData.durationValue ? parseInt(formData.durationValue) : null
@@ -201,11 +196,7 @@ export default function BundlesPage() {
   async function handleDelete(bundleId: number) {
     setSaving(bundleId)
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch(`/api/v1/admin/bundles/${bundleId}`, {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${token}` }
-      })
+      const res = await adminFetch(`/api/v1/admin/bundles/${bundleId}`, { method: 'DELETE' })
 
       const data = await res.json()
 
@@ -226,13 +217,9 @@ export default function BundlesPage() {
   async function toggleBundleActive(bundle: Bundle) {
     setSaving(bundle.id)
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch(`/api/v1/admin/bundles/${bundle.id}`, {
+      const res = await adminFetch(`/api/v1/admin/bundles/${bundle.id}`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ isActive: !bundle.isActive })
       })
 
@@ -391,20 +378,22 @@ export default function BundlesPage() {
           <p className="text-gray-600">Create and manage product bundles</p>
         </div>
 
-        <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={resetForm}>
-              <Plus className="mr-2 h-4 w-4" />
-              Create Bundle
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Create New Bundle</DialogTitle>
-            </DialogHeader>
-            <BundleForm onSubmit={handleCreate} submitLabel="Create Bundle" />
-          </DialogContent>
-        </Dialog>
+        {canEdit && (
+          <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="mr-2 h-4 w-4" />
+                Create Bundle
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Create New Bundle</DialogTitle>
+              </DialogHeader>
+              <BundleForm onSubmit={handleCreate} submitLabel="Create Bundle" />
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
 
       <div className="grid gap-4">
@@ -419,8 +408,8 @@ export default function BundlesPage() {
                 <div className="flex gap-2 items-center">
                   <Badge
                     variant={bundle.isActive ? 'default' : 'secondary'}
-                    className="cursor-pointer"
-                    onClick={() => toggleBundleActive(bundle)}
+                    className={canEdit ? 'cursor-pointer' : undefined}
+                    onClick={canEdit ? () => toggleBundleActive(bundle) : undefined}
                   >
                     {saving === bundle.id ? (
                       <Loader2 className="h-3 w-3 animate-spin" />
@@ -430,31 +419,35 @@ export default function BundlesPage() {
                   </Badge>
                   <Badge variant="outline">{bundle._count.claimTokens} claims</Badge>
 
-                  <Button variant="ghost" size="icon" onClick={() => openEditDialog(bundle)}>
-                    <Pencil className="h-4 w-4" />
-                  </Button>
-
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button variant="ghost" size="icon" className="text-red-600 hover:text-red-700">
-                        <Trash2 className="h-4 w-4" />
+                  {canEdit && (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => openEditDialog(bundle)}>
+                        <Pencil className="h-4 w-4" />
                       </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Deactivate Bundle?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          This will deactivate the bundle &quot;{bundle.name}&quot;. Users who already have this bundle will keep their access. You can reactivate it later.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction onClick={() => handleDelete(bundle.id)}>
-                          Deactivate
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
+
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="text-red-600 hover:text-red-700">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Deactivate Bundle?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This will deactivate the bundle &quot;{bundle.name}&quot;. Users who already have this bundle will keep their access. You can reactivate it later.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(bundle.id)}>
+                              Deactivate
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </>
+                  )}
                 </div>
               </div>
             </CardHeader>
@@ -0,0 +1,284 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { toast } from 'sonner'
+import { GitMerge, Loader2, Split } from 'lucide-react'
+import { useAdmin } from '@/hooks/use-admin'
+import { adminFetch } from '@/lib/admin-fetch'
+
+interface CandidateIdentity {
+  id: string
+  primaryEmail: string
+  name: string | null
+  stripeCustomerId: string | null
+  createdAt: string
+  _count: { entitlements: number }
+}
+
+interface Candidate {
+  identities: [CandidateIdentity, CandidateIdentity]
+  reasons: ('stripe' | 'email' | 'name')[]
+}
+
+interface Merge {
+  id: number
+  survivorId: string
+  mergedId: string
+  survivorEmail: string | null
+  mergedEmail: string | null
+  adminEmail: string
+  createdAt: string
+  splitAt: string | null
+  splitBy: string | null
+}
+
+const REASON_LABELS = {
+  stripe: 'Same Stripe subscription',
+  email: 'Similar email',
+  name: 'Same name'
+}
+
+export default function DuplicatesPage() {
+  const { can } = useAdmin()
+  const canEdit = can('customers:write')
+  const [candidates, setCandidates] = useState<Candidate[]>([])
+  const [merges, setMerges] = useState<Merge[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  async function fetchData() {
+    try {
+      const [candidatesRes, mergesRes] = await Promise.all([
+        adminFetch('/api/v1/admin/users/duplicates'),
+        adminFetch('/api/v1/admin/users/merges')
+      ])
+
+      const candidatesData = await candidatesRes.json()
+      const mergesData = await mergesRes.json()
+
+      setCandidates(candidatesData.candidates || [])
+      setMerges(mergesData.merges || [])
+    } catch (error) {
+      console.error('Error fetching duplicates:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleMerge(survivor: CandidateIdentity, merged: CandidateIdentity) {
+    setSaving(`${survivor.id}:${merged.id}`)
+    try {
+      const res = await adminFetch('/api/v1/admin/users/merges', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ survivorId: survivor.id, mergedId: merged.id })
+      })
+
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(`Merged ${merged.primaryEmail} into ${survivor.primaryEmail}`)
+        fetchData()
+      } else {
+        toast.error(data.error || 'Failed to merge users')
+      }
+    } catch (error) {
+      console.error('Error merging users:', error)
+      toast.error('Failed to merge users')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleSplit(merge: Merge) {
+    setSaving(`merge:${merge.id}`)
+    try {
+      const res = await adminFetch(`/api/v1/admin/users/merges/${merge.id}/split`, { method: 'POST' })
+
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(`Split ${merge.mergedEmail} from ${merge.survivorEmail}`)
+        fetchData()
+      } else {
+        toast.error(data.error || 'Failed to split users')
+      }
+    } catch (error) {
+      console.error('Error splitting users:', error)
+      toast.error('Failed to split users')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  function renderIdentity(identity: CandidateIdentity) {
+    return (
+      <div className="flex-1 p-3 bg-gray-50 rounded-lg">
+        <p className="font-medium text-sm">{identity.primaryEmail}</p>
+        {identity.name && <p className="text-sm text-gray-600">{identity.name}</p>}
+        <p className="text-xs text-gray-500 mt-1">
+          Joined {new Date(identity.createdAt).toLocaleDateString()} · {identity._count.entitlements} entitlements
+        </p>
+        {identity.stripeCustomerId && (
+          <p className="text-xs text-gray-500">Stripe: {identity.stripeCustomerId}</p>
+        )}
+      </div>
+    )
+  }
+
+  function renderMergeButton(survivor: CandidateIdentity, merged: CandidateIdentity) {
+    return (
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button size="sm" variant="outline" disabled={saving !== null}>
+            {saving === `${survivor.id}:${merged.id}` ? (
+              <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+            ) : (
+              <GitMerge className="mr-1 h-3 w-3" />
+            )}
+            Keep {survivor.primaryEmail}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge Users?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Emails, entitlements, claim links and submissions of {merged.primaryEmail} will move
+              to {survivor.primaryEmail}. Where both have the same entitlement, the better one is
+              kept. You can split them again from the Merges tab.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleMerge(survivor, merged)}>Merge Users</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    )
+  }
+
+  if (loading) {
+    return <div className="animate-pulse">Loading...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Duplicate Users</h2>
+        <p className="text-gray-600">Merge customers who ended up with more than one identity</p>
+      </div>
+
+      <Tabs defaultValue="candidates">
+        <TabsList>
+          <TabsTrigger value="candidates">Candidates ({candidates.length})</TabsTrigger>
+          <TabsTrigger value="merges">Merges</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="candidates" className="mt-4">
+          <div className="space-y-3">
+            {candidates.map(({ identities: [a, b], reasons }) => (
+              <Card key={`${a.id}:${b.id}`}>
+                <CardContent className="py-4 space-y-3">
+                  <div className="flex flex-wrap gap-1">
+                    {reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary">{REASON_LABELS[reason]}</Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-3">
+                    {renderIdentity(a)}
+                    {renderIdentity(b)}
+                  </div>
+                  {canEdit && (
+                    <div className="flex justify-end gap-2">
+                      {renderMergeButton(a, b)}
+                      {renderMergeButton(b, a)}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+            {candidates.length === 0 && (
+              <Card>
+                <CardContent className="py-8 text-center text-gray-500">
+                  No duplicate candidates found
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="merges" className="mt-4">
+          <div className="space-y-3">
+            {merges.map((merge) => (
+              <Card key={merge.id}>
+                <CardContent className="py-4">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium">
+                          {merge.mergedEmail} → {merge.survivorEmail}
+                        </p>
+                        {merge.splitAt && <Badge variant="outline">Split</Badge>}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Merged by {merge.adminEmail} on {new Date(merge.createdAt).toLocaleString()}
+                      </p>
+                      {merge.splitAt && (
+                        <p className="text-xs text-gray-500">
+                          Split by {merge.splitBy} on {new Date(merge.splitAt).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+                    {!merge.splitAt && canEdit && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button size="sm" variant="outline" disabled={saving !== null}>
+                            {saving === `merge:${merge.id}` ? (
+                              <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                            ) : (
+                              <Split className="mr-1 h-3 w-3" />
+                            )}
+                            Split
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Split Users?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {merge.mergedEmail} becomes a separate user again and takes back the
+                              emails, entitlements, claim links and submissions it had when merged.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleSplit(merge)}>Split Users</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            {merges.length === 0 && (
+              <Card>
+                <CardContent className="py-8 text-center text-gray-500">
+                  No merges yet
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
@@ -9,6 +9,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { toast } from 'sonner'
+import { adminFetch } from '@/lib/admin-fetch'
 
 interface Product {
   id: string
@@ -35,10 +36,7 @@ export default function GrantPage() {
 
   async function fetchProducts() {
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch('/api/v1/admin/products', {
-        headers: { Authorization: `Bearer ${token}` }
-      })
+      const res = await adminFetch('/api/v1/admin/products')
       const data = await res.json()
       setProducts(data.products?.filter((p: Product) => p.isActive) || [])
     } catch (error) {
@@ -68,13 +66,9 @@ export default function GrantPage() {
     setSubmitting(true)
 
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch('/api/v1/admin/users', {
+      const res = await adminFetch('/api/v1/admin/users', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...formData,
           durationValue: formData.durationValue ? parseInt(formData.durationValue) : null
@@ -0,0 +1,165 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { ADMIN_ROLE_LABELS, AdminRole } from '@/lib/permissions'
+
+interface Invite {
+  email: string
+  name: string | null
+  role: AdminRole
+  invitedBy: string
+}
+
+export default function AcceptInvitePage() {
+  const params = useParams()
+  const router = useRouter()
+  const token = params.token as string
+
+  const [invite, setInvite] = useState<Invite | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    async function fetchInvite() {
+      try {
+        const res = await fetch(`/api/v1/admin/auth/invite/${token}`)
+        const data = await res.json()
+
+        if (data.success) {
+          setInvite(data)
+          setName(data.name || '')
+        } else {
+          setError(data.error || 'Invalid invitation')
+        }
+      } catch (err) {
+        console.error('Error fetching invitation:', err)
+        setError('Failed to load invitation')
+      }
+    }
+
+    fetchInvite()
+  }, [token])
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+
+    if (password !== confirmPassword) {
+      toast.error('Passwords do not match')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const res = await fetch(`/api/v1/admin/auth/invite/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, password })
+      })
+      const data = await res.json()
+
+      if (!data.success) {
+        toast.error(data.error || 'Failed to accept invitation')
+        return
+      }
+
+      toast.success('Welcome to the team!')
+      router.push('/admin')
+    } catch (err) {
+      console.error('Error accepting invitation:', err)
+      toast.error('Failed to accept invitation')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle className="text-red-600">Invitation Unavailable</CardTitle>
+            <CardDescription>{error}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-600">
+              Ask an owner to send you a new invitation, or{' '}
+              <Link href="/admin/login" className="underline">sign in</Link> if you already have an account.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!invite) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="max-w-md w-full">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Join the Admin Team</CardTitle>
+          <CardDescription>
+            {invite.invitedBy} invited {invite.email} as {ADMIN_ROLE_LABELS[invite.role]}. Choose a password to finish.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Your name"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={8}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm Password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? 'Creating account...' : 'Create Account'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
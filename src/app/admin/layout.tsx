@@ -4,17 +4,34 @@ import { useEffect, useState } from 'react'
 import { useRouter, usePathname } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
+import { AdminUser } from '@/lib/types'
+import { ADMIN_ROLE_LABELS, hasPermission, Permission } from '@/lib/permissions'
+import { AdminProvider } from '@/hooks/use-admin'
+import { adminFetch } from '@/lib/admin-fetch'
 
-const navItems = [
-  { href: '/admin', label: 'Dashboard', icon: '📊' },
-  { href: '/admin/products', label: 'Products', icon: '📦' },
-  { href: '/admin/bundles', label: 'Bundles', icon: '🎁' },
-  { href: '/admin/users', label: 'Users', icon: '👥' },
-  { href: '/admin/grant', label: 'Grant Access', icon: '➕' },
-  { href: '/admin/logs', label: 'Logs', icon: '📜' },
+const navItems: { href: string; label: string; icon: string; permission: Permission }[] = [
+  { href: '/admin', label: 'Dashboard', icon: '📊', permission: 'analytics:read' },
+  { href: '/admin/products', label: 'Products', icon: '📦', permission: 'products:read' },
+  { href: '/admin/bundles', label: 'Bundles', icon: '🎁', permission: 'bundles:read' },
+  { href: '/admin/users', label: 'Users', icon: '👥', permission: 'customers:read' },
+  { href: '/admin/duplicates', label: 'Duplicates', icon: '🧬', permission: 'customers:read' },
+  { href: '/admin/grant', label: 'Grant Access', icon: '➕', permission: 'customers:write' },
+  { href: '/admin/apps', label: 'Connected Apps', icon: '🔌', permission: 'apps:read' },
+  { href: '/admin/api-keys', label: 'API Keys', icon: '🔑', permission: 'apps:read' },
+  { href: '/admin/sync', label: 'App Sync', icon: '🔄', permission: 'sync:read' },
+  { href: '/admin/logs', label: 'Logs', icon: '📜', permission: 'logs:read' },
+  { href: '/admin/team', label: 'Team', icon: '🛡️', permission: 'admins:manage' },
 ]
 
+// Pages that render without a signed-in admin
+const PUBLIC_PATHS = ['/admin/login', '/admin/setup', '/admin/invite/', '/admin/reset-password/']
+
+function isPublicPath(pathname: string) {
+  return PUBLIC_PATHS.some((path) => pathname === path || (path.endsWith('/') && pathname.startsWith(path)))
+}
+
 export default function AdminLayout({
   children,
 }: {
@@ -22,34 +39,38 @@ export default function AdminLayout({
 }) {
   const router = useRouter()
   const pathname = usePathname()
-  const [admin, setAdmin] = useState<{ email: string; name: string | null } | null>(null)
+  const [admin, setAdmin] = useState<AdminUser | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
-    checkAuth()
-  }, [])
+    async function checkAuth() {
+      // The session cookie is httpOnly, so ask the API who is signed in; this
+      // also picks up role changes and sessions that were revoked or timed out
+      const res = await adminFetch('/api/v1/admin/auth/me').catch(() => null)
 
-  async function checkAuth() {
-    const token = localStorage.getItem('admin_token')
-    const storedAdmin = localStorage.getItem('admin_user')
+      if (!res?.ok) {
+        router.push('/admin/login')
+        return
+      }
 
-    if (!token || !storedAdmin) {
-      router.push('/admin/login')
-      return
+      const data = await res.json()
+      setAdmin(data.user)
+      setLoading(false)
     }
 
-    setAdmin(JSON.parse(storedAdmin))
-    setLoading(false)
-  }
+    // Public pages render without auth; check again after leaving them
+    if (!isPublicPath(pathname)) {
+      checkAuth()
+    }
+  }, [router, pathname])
 
-  function handleLogout() {
-    localStorage.removeItem('admin_token')
-    localStorage.removeItem('admin_user')
+  async function handleLogout() {
+    await adminFetch('/api/v1/admin/auth/logout', { method: 'POST' }).catch(() => null)
     router.push('/admin/login')
   }
 
-  // Allow login and setup pages to render without auth
-  if (pathname === '/admin/login' || pathname === '/admin/setup') {
+  // Allow login, setup, invite and password reset pages to render without auth
+  if (isPublicPath(pathname)) {
     return <>{children}</>
   }
 
@@ -61,6 +82,10 @@ export default function AdminLayout({
     )
   }
 
+  const visibleNavItems = navItems.filter((item) => admin && hasPermission(admin.role, item.permission))
+  const currentItem = navItems.find((item) => item.href === pathname)
+  const forbidden = !!currentItem && !visibleNavItems.includes(currentItem)
+
   return (
     <div className="min-h-screen bg-gray-100">
       {/* Header */}
@@ -73,7 +98,10 @@ export default function AdminLayout({
               </h1>
             </div>
             <div className="flex items-center gap-4">
-              <span className="text-sm text-gray-600">{admin?.email}</span>
+              <Link href="/admin/profile" className="text-sm text-gray-600 hover:text-gray-900 hover:underline">
+                {admin?.email}
+              </Link>
+              {admin && <Badge variant="outline">{ADMIN_ROLE_LABELS[admin.role]}</Badge>}
               <Button variant="outline" size="sm" onClick={handleLogout}>
                 Logout
               </Button>
@@ -86,7 +114,7 @@ export default function AdminLayout({
         {/* Sidebar */}
         <aside className="w-64 bg-white shadow-sm min-h-[calc(100vh-4rem)] border-r">
           <nav className="p-4 space-y-1">
-            {navItems.map((item) => (
+            {visibleNavItems.map((item) => (
               <Link
                 key={item.href}
                 href={item.href}
@@ -106,7 +134,11 @@ export default function AdminLayout({
 
         {/* Main content */}
         <main className="flex-1 p-8">
-          {children}
+          {forbidden ? (
+            <p className="text-gray-600">Your role does not have access to this page.</p>
+          ) : (
+            <AdminProvider value={admin}>{children}</AdminProvider>
+          )}
         </main>
       </div>
     </div>
@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { toast } from 'sonner'
+import { RecoveryCodes, TwoFactorEnabled, TwoFactorEnrolment } from '@/components/two-factor-enrolment'
 
 export default function LoginPage() {
   const router = useRouter()
@@ -14,6 +15,10 @@ export default function LoginPage() {
   const [checkingSetup, setCheckingSetup] = useState(true)
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
+  // Set after the password step when 2FA is enabled or required
+  const [preAuth, setPreAuth] = useState<{ token: string; step: 'verify' | 'enrol' } | null>(null)
+  const [code, setCode] = useState('')
+  const [enrolled, setEnrolled] = useState<TwoFactorEnabled | null>(null)
 
   useEffect(() => {
     checkSetup()
@@ -48,13 +53,12 @@ export default function LoginPage() {
 
       const data = await res.json()
 
-      if (data.success) {
-        localStorage.setItem('admin_token', data.token)
-        localStorage.setItem('admin_user', JSON.stringify(data.user))
-        toast.success('Login successful!')
-        router.push('/admin')
-      } else {
+      if (!data.success) {
         toast.error(data.error || 'Login failed')
+      } else if (data.preAuthToken) {
+        setPreAuth({ token: data.preAuthToken, step: data.twoFactor })
+      } else {
+        completeLogin()
       }
     } catch (error) {
       console.error('Login error:', error)
@@ -64,6 +68,50 @@ export default function LoginPage() {
     }
   }
 
+  // The response to the last step set the session cookies
+  function completeLogin() {
+    toast.success('Login successful!')
+    router.push('/admin')
+  }
+
+  function startOver() {
+    setPreAuth(null)
+    setCode('')
+    setPassword('')
+  }
+
+  async function handleVerifyCode(e: React.FormEvent) {
+    e.preventDefault()
+    setLoading(true)
+
+    try {
+      const res = await fetch('/api/v1/admin/auth/login/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ preAuthToken: preAuth?.token, code })
+      })
+
+      const data = await res.json()
+
+      if (res.status === 401) {
+        toast.error(data.error || 'Sign-in expired')
+        startOver()
+      } else if (!data.success) {
+        toast.error(data.error || 'Invalid code')
+      } else {
+        if (data.recoveryCodesRemaining <= 3) {
+          toast.warning(`${data.recoveryCodesRemaining} recovery codes left. Generate new ones from your profile.`)
+        }
+        completeLogin()
+      }
+    } catch (error) {
+      console.error('Two-factor login error:', error)
+      toast.error('Failed to verify code')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   if (checkingSetup) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -72,6 +120,78 @@ export default function LoginPage() {
     )
   }
 
+  if (enrolled) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle>Two-Factor Authentication Is On</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RecoveryCodes codes={enrolled.recoveryCodes} onDone={completeLogin} />
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (preAuth?.step === 'enrol') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle>Set Up Two-Factor Authentication</CardTitle>
+            <CardDescription>An owner requires two-factor authentication for your account.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <TwoFactorEnrolment preAuthToken={preAuth.token} onEnabled={setEnrolled} />
+            <Button variant="ghost" className="w-full" onClick={startOver}>
+              Cancel
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (preAuth?.step === 'verify') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl">Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              Enter the code from your authenticator app, or one of your recovery codes
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleVerifyCode} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">Code</Label>
+                <Input
+                  id="code"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456"
+                  autoFocus
+                  required
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Verifying...' : 'Verify'}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={startOver}>
+                Back
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
       <Card className="max-w-md w-full">
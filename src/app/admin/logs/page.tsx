@@ -2,8 +2,17 @@
 
 import { useEffect, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { toast } from 'sonner'
+import { Loader2, RotateCcw } from 'lucide-react'
+import { useAdmin } from '@/hooks/use-admin'
+import { adminFetch } from '@/lib/admin-fetch'
 
 interface AuditLog {
   id: number
@@ -22,30 +31,63 @@ interface WebhookLog {
   status: string
   errorMessage: string | null
   processedAt: string
+  replayCount: number
+  lastReplayedBy: string | null
+}
+
+interface SecurityEvent {
+  id: number
+  type: string
+  email: string | null
+  adminUserId: number | null
+  ipAddress: string | null
+  userAgent: string | null
+  details: Record<string, unknown> | null
+  createdAt: string
+}
+
+const REPLAYABLE_STATUSES = ['failed', 'ignored']
+
+const SECURITY_EVENT_LABELS: Record<string, string> = {
+  login_failed: 'Failed login',
+  login_locked_out: 'Login locked out',
+  setup_key_invalid: 'Invalid setup key',
+  setup_locked_out: 'Setup locked out',
+  two_factor_failed: 'Failed 2FA code',
+  two_factor_locked_out: '2FA locked out'
 }
 
 export default function LogsPage() {
+  const { can } = useAdmin()
+  const canReplay = can('sync:write')
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([])
   const [webhookLogs, setWebhookLogs] = useState<WebhookLog[]>([])
+  const [webhookStatus, setWebhookStatus] = useState('all')
+  const [securityEvents, setSecurityEvents] = useState<SecurityEvent[]>([])
+  const [securityEventType, setSecurityEventType] = useState('all')
+  const [refetch, setRefetch] = useState(false)
   const [loading, setLoading] = useState(true)
+  const [replaying, setReplaying] = useState<string | null>(null)
 
   useEffect(() => {
     fetchLogs()
   }, [])
 
+  useEffect(() => {
+    fetchWebhookLogs(webhookStatus)
+  }, [webhookStatus])
+
+  useEffect(() => {
+    fetchSecurityEvents(securityEventType)
+  }, [securityEventType])
+
   async function fetchLogs() {
     try {
-      const token = localStorage.getItem('admin_token')
-      const [auditRes, webhookRes] = await Promise.all([
-        fetch('/api/v1/admin/logs?type=audit', { headers: { Authorization: `Bearer ${token}` } }),
-        fetch('/api/v1/admin/logs?type=webhook', { headers: { Authorization: `Bearer ${token}` } })
-      ])
+      const auditRes = await adminFetch('/api/v1/admin/logs?type=audit')
 
       const auditData = await auditRes.json()
-      const webhookData = await webhookRes.json()
 
       setAuditLogs(auditData.logs || [])
-      setWebhookLogs(webhookData.logs || [])
     } catch (error) {
       console.error('Error fetching logs:', error)
     } finally {
@@ -53,6 +95,89 @@ export default function LogsPage() {
     }
   }
 
+  async function fetchWebhookLogs(status: string) {
+    try {
+      const query = status === 'all' ? '' : `&status=${status}`
+      const res = await adminFetch(`/api/v1/admin/logs?type=webhook${query}`)
+
+      const data = await res.json()
+      setWebhookLogs(data.logs || [])
+    } catch (error) {
+      console.error('Error fetching webhook logs:', error)
+    }
+  }
+
+  async function fetchSecurityEvents(eventType: string) {
+    try {
+      const query = eventType === 'all' ? '' : `&event=${eventType}`
+      const res = await adminFetch(`/api/v1/admin/logs?type=security${query}`)
+
+      const data = await res.json()
+      setSecurityEvents(data.logs || [])
+    } catch (error) {
+      console.error('Error fetching security events:', error)
+    }
+  }
+
+  async function handleReplay(log: WebhookLog) {
+    setReplaying(log.eventId)
+    try {
+      const res = await adminFetch(`/api/v1/admin/webhooks/${log.eventId}/replay`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refetch })
+      })
+
+      const data = await res.json()
+
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to replay event')
+      } else if (data.status === 'success') {
+        toast.success(`Replayed ${log.eventType}`)
+      } else if (data.status === 'ignored') {
+        toast.info(data.stale ? 'Event is stale and was ignored' : 'Event was not handled')
+      } else {
+        toast.error(`Replay failed: ${data.error}`)
+      }
+
+      fetchLogs()
+      fetchWebhookLogs(webhookStatus)
+    } catch (error) {
+      console.error('Error replaying event:', error)
+      toast.error('Failed to replay event')
+    } finally {
+      setReplaying(null)
+    }
+  }
+
+  async function handleReplayAll() {
+    setReplaying('bulk')
+    try {
+      const res = await adminFetch('/api/v1/admin/webhooks/replay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: webhookStatus, refetch })
+      })
+
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(
+          `Replayed ${data.replayed}: ${data.succeeded} succeeded, ${data.ignored} ignored, ${data.failed} failed`
+        )
+        fetchLogs()
+        fetchWebhookLogs(webhookStatus)
+      } else {
+        toast.error(data.error || 'Failed to replay events')
+      }
+    } catch (error) {
+      console.error('Error replaying events:', error)
+      toast.error('Failed to replay events')
+    } finally {
+      setReplaying(null)
+    }
+  }
+
   if (loading) {
     return <div className="animate-pulse">Loading...</div>
   }
@@ -61,13 +186,14 @@ export default function LogsPage() {
     <div className="space-y-6">
       <div>
         <h2 className="text-2xl font-bold text-gray-900">Logs</h2>
-        <p className="text-gray-600">View audit and webhook logs</p>
+        <p className="text-gray-600">View audit logs, webhook logs and security events</p>
       </div>
 
       <Tabs defaultValue="audit">
         <TabsList>
           <TabsTrigger value="audit">Audit Logs</TabsTrigger>
           <TabsTrigger value="webhook">Webhook Logs</TabsTrigger>
+          <TabsTrigger value="security">Security</TabsTrigger>
         </TabsList>
 
         <TabsContent value="audit" className="mt-4">
@@ -112,6 +238,58 @@ export default function LogsPage() {
         </TabsContent>
 
         <TabsContent value="webhook" className="mt-4">
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <div className="flex items-center gap-4">
+              <Select value={webhookStatus} onValueChange={setWebhookStatus}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="ignored">Ignored</SelectItem>
+                  <SelectItem value="success">Success</SelectItem>
+                  <SelectItem value="processing">Processing</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="refetch"
+                  checked={refetch}
+                  onCheckedChange={(checked) => setRefetch(!!checked)}
+                />
+                <Label htmlFor="refetch">Re-fetch from Stripe</Label>
+              </div>
+            </div>
+            {canReplay && REPLAYABLE_STATUSES.includes(webhookStatus) && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" disabled={replaying !== null || webhookLogs.length === 0}>
+                    {replaying === 'bulk' ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                    )}
+                    Replay All {webhookStatus === 'failed' ? 'Failed' : 'Ignored'}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Replay {webhookStatus} events?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Up to 100 {webhookStatus} events will be re-run oldest first
+                      {refetch ? ', re-fetched from Stripe' : ' from their stored payloads'}.
+                      Events that now succeed may grant or revoke access.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleReplayAll}>Replay Events</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
           <div className="space-y-3">
             {webhookLogs.map((log) => (
               <Card key={log.id}>
@@ -138,10 +316,32 @@ export default function LogsPage() {
                       {log.errorMessage && (
                         <p className="text-sm text-red-600 mt-1">{log.errorMessage}</p>
                       )}
+                      {log.replayCount > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Replayed {log.replayCount}x, last by {log.lastReplayedBy}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end gap-2">
+                      <span className="text-xs text-gray-500">
+                        {new Date(log.processedAt).toLocaleString()}
+                      </span>
+                      {canReplay && REPLAYABLE_STATUSES.includes(log.status) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleReplay(log)}
+                          disabled={replaying !== null}
+                        >
+                          {replaying === log.eventId ? (
+                            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                          ) : (
+                            <RotateCcw className="mr-1 h-3 w-3" />
+                          )}
+                          Replay
+                        </Button>
+                      )}
                     </div>
-                    <span className="text-xs text-gray-500">
-                      {new Date(log.processedAt).toLocaleString()}
-                    </span>
                   </div>
                 </CardContent>
               </Card>
@@ -155,6 +355,62 @@ export default function LogsPage() {
             )}
           </div>
         </TabsContent>
+
+        <TabsContent value="security" className="mt-4">
+          <div className="mb-4">
+            <Select value={securityEventType} onValueChange={setSecurityEventType}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All events</SelectItem>
+                {Object.entries(SECURITY_EVENT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-3">
+            {securityEvents.map((event) => (
+              <Card key={event.id}>
+                <CardContent className="py-4">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={event.type.endsWith('_locked_out') ? 'destructive' : 'outline'}>
+                          {SECURITY_EVENT_LABELS[event.type] || event.type}
+                        </Badge>
+                        {event.email && (
+                          <span className="text-sm text-gray-500">{event.email}</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        IP: {event.ipAddress || 'unknown'}
+                        {event.userAgent && ` · ${event.userAgent}`}
+                      </p>
+                      {typeof event.details?.lockedUntil === 'string' && (
+                        <p className="text-sm text-red-600 mt-1">
+                          {event.details.target === 'ip' ? 'IP' : 'Account'} locked until{' '}
+                          {new Date(event.details.lockedUntil).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-500">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            {securityEvents.length === 0 && (
+              <Card>
+                <CardContent className="py-8 text-center text-gray-500">
+                  No security events yet
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { adminFetch } from '@/lib/admin-fetch'
 
 interface Analytics {
   overview: {
@@ -27,6 +28,7 @@ interface Analytics {
     bundleId: number
     bundleName: string
     claimed: number
+    partiallyClaimed: number
   }[]
 }
 
@@ -40,10 +42,7 @@ export default function DashboardPage() {
 
   async function fetchAnalytics() {
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch('/api/v1/admin/analytics', {
-        headers: { Authorization: `Bearer ${token}` }
-      })
+      const res = await adminFetch('/api/v1/admin/analytics')
       const data = await res.json()
       setAnalytics(data)
     } catch (error) {
@@ -90,6 +89,9 @@ export default function DashboardPage() {
             <CardTitle className="text-3xl">
               {analytics?.bundleClaims.reduce((acc, b) => acc + b.claimed, 0) || 0}
             </CardTitle>
+            <p className="text-xs text-gray-500">
+              {analytics?.bundleClaims.reduce((acc, b) => acc + b.partiallyClaimed, 0) || 0} partially claimed
+            </p>
           </CardHeader>
         </Card>
       </div>
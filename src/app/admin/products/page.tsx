@@ -12,6 +12,8 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Checkbox } from '@/components/ui/checkbox'
 import { toast } from 'sonner'
 import { Pencil, Trash2, Plus, Loader2 } from 'lucide-react'
+import { useAdmin } from '@/hooks/use-admin'
+import { adminFetch } from '@/lib/admin-fetch'
 
 interface Product {
   id: string
@@ -20,6 +22,8 @@ interface Product {
   appUrl: string | null
   requiresOngoingAccess: boolean
   zapierWebhookUrl: string | null
+  dunningGraceDays: number
+  foldEmailAliases: boolean
   formSchema: unknown
   isActive: boolean
   displayOrder: number
@@ -27,6 +31,8 @@ interface Product {
 }
 
 export default function ProductsPage() {
+  const { can } = useAdmin()
+  const canEdit = can('products:write')
   const [products, setProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState<string | null>(null)
@@ -40,6 +46,8 @@ export default function ProductsPage() {
     appUrl: '',
     requiresOngoingAccess: true,
     zapierWebhookUrl: '',
+    dunningGraceDays: 7,
+    foldEmailAliases: false,
     displayOrder: 0,
     isActive: true
   })
@@ -50,10 +58,7 @@ export default function ProductsPage() {
 
   async function fetchProducts() {
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch('/api/v1/admin/products', {
-        headers: { Authorization: `Bearer ${token}` }
-      })
+      const res = await adminFetch('/api/v1/admin/products')
       const data = await res.json()
       setProducts(data.products || [])
     } catch (error) {
@@ -71,6 +76,8 @@ export default function ProductsPage() {
       appUrl: '',
       requiresOngoingAccess: true,
       zapierWebhookUrl: '',
+      dunningGraceDays: 7,
+      foldEmailAliases: false,
       displayOrder: 0,
       isActive: true
     })
@@ -85,6 +92,8 @@ export default function ProductsPage() {
       appUrl: product.appUrl || '',
       requiresOngoingAccess: product.requiresOngoingAccess,
       zapierWebhookUrl: product.zapierWebhookUrl || '',
+      dunningGraceDays: product.dunningGraceDays,
+      foldEmailAliases: product.foldEmailAliases,
       displayOrder: product.displayOrder,
       isActive: product.isActive
     })
@@ -96,13 +105,9 @@ export default function ProductsPage() {
 
     setSaving('new')
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch('/api/v1/admin/products', {
+      const res = await adminFetch('/api/v1/admin/products', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(formData)
       })
 
@@ -131,19 +136,17 @@ export default function ProductsPage() {
 
     setSaving(editingProduct.id)
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch(`/api/v1/admin/products/${editingProduct.id}`, {
+      const res = await adminFetch(`/api/v1/admin/products/${editingProduct.id}`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           name: formData.name,
           description: formData.description || null,
           appUrl: formData.appUrl || null,
           requiresOngoingAccess: formData.requiresOngoingAccess,
           zapierWebhookUrl: formData.zapierWebhookUrl || null,
+          dunningGraceDays: formData.dunningGraceDays,
+          foldEmailAliases: formData.foldEmailAliases,
           displayOrder: formData.displayOrder,
           isActive: formData.isActive
         })
@@ -171,11 +174,7 @@ export default function ProductsPage() {
   async function handleDelete(productId: string) {
     setSaving(productId)
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch(`/api/v1/admin/products/${productId}`, {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${token}` }
-      })
+      const res = await adminFetch(`/api/v1/admin/products/${productId}`, { method: 'DELETE' })
 
       const data = await res.json()
 
@@ -196,13 +195,9 @@ export default function ProductsPage() {
   async function toggleProductActive(product: Product) {
     setSaving(product.id)
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch(`/api/v1/admin/products/${product.id}`, {
+      const res = await adminFetch(`/api/v1/admin/products/${product.id}`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ isActive: !product.isActive })
       })
 
@@ -282,6 +277,18 @@ export default function ProductsPage() {
         <p className="text-xs text-gray-500">For products like Career Pathways</p>
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="dunningGraceDays">Payment Grace Period (days)</Label>
+        <Input
+          id="dunningGraceDays"
+          type="number"
+          min="0"
+          value={formData.dunningGraceDays}
+          onChange={(e) => setFormData({ ...formData, dunningGraceDays: parseInt(e.target.value) || 0 })}
+        />
+        <p className="text-xs text-gray-500">How long subscribers keep access after a failed renewal payment</p>
+      </div>
+
       <div className="space-y-2">
         <Label htmlFor="displayOrder">Display Order</Label>
         <Input
@@ -305,6 +312,17 @@ export default function ProductsPage() {
         <Label htmlFor="requiresOngoingAccess">Requires ongoing access</Label>
       </div>
 
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="foldEmailAliases"
+          checked={formData.foldEmailAliases}
+          onCheckedChange={(checked) =>
+            setFormData({ ...formData, foldEmailAliases: !!checked })
+          }
+        />
+        <Label htmlFor="foldEmailAliases">Match email aliases (+tags, Gmail dots)</Label>
+      </div>
+
       <div className="flex items-center space-x-2">
         <Checkbox
           id="isActive"
@@ -341,20 +359,22 @@ export default function ProductsPage() {
           <p className="text-gray-600">Manage your product ecosystem</p>
         </div>
 
-        <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={resetForm}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Product
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Add New Product</DialogTitle>
-            </DialogHeader>
-            <ProductForm onSubmit={handleCreate} submitLabel="Create Product" showIdField />
-          </DialogContent>
-        </Dialog>
+        {canEdit && (
+          <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Product
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Add New Product</DialogTitle>
+              </DialogHeader>
+              <ProductForm onSubmit={handleCreate} submitLabel="Create Product" showIdField />
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
 
       <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
@@ -373,8 +393,8 @@ export default function ProductsPage() {
                 <div className="flex gap-2 items-center">
                   <Badge
                     variant={product.isActive ? 'default' : 'secondary'}
-                    className="cursor-pointer"
-                    onClick={() => toggleProductActive(product)}
+                    className={canEdit ? 'cursor-pointer' : undefined}
+                    onClick={canEdit ? () => toggleProductActive(product) : undefined}
                   >
                     {saving === product.id ? (
                       <Loader2 className="h-3 w-3 animate-spin" />
@@ -384,31 +404,35 @@ export default function ProductsPage() {
                   </Badge>
                   <Badge variant="outline">{product._count.entitlements} users</Badge>
 
-                  <Button variant="ghost" size="icon" onClick={() => openEditDialog(product)}>
-                    <Pencil className="h-4 w-4" />
-                  </Button>
-
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button variant="ghost" size="icon" className="text-red-600 hover:text-red-700">
-                        <Trash2 className="h-4 w-4" />
+                  {canEdit && (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => openEditDialog(product)}>
+                        <Pencil className="h-4 w-4" />
                       </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Deactivate Product?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          This will deactivate the product &quot;{product.name}&quot;. Users who already have this product will keep their access. You can reactivate it later.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction onClick={() => handleDelete(product.id)}>
-                          Deactivate
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
+
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="text-red-600 hover:text-red-700">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Deactivate Product?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This will deactivate the product &quot;{product.name}&quot;. Users who already have this product will keep their access. You can reactivate it later.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(product.id)}>
+                              Deactivate
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </>
+                  )}
                 </div>
               </div>
             </CardHeader>
@@ -421,7 +445,10 @@ export default function ProductsPage() {
                 {product.zapierWebhookUrl && (
                   <p className="text-green-600">Zapier webhook configured</p>
                 )}
-                <p className="text-gray-400">Display order: {product.displayOrder}</p>
+                <p className="text-gray-400">
+                  Display order: {product.displayOrder} · Payment grace: {product.dunningGraceDays} days
+                  {product.foldEmailAliases && ' · Matches email aliases'}
+                </p>
               </div>
             </CardContent>
           </Card>
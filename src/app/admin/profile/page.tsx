@@ -0,0 +1,344 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { useAdmin } from '@/hooks/use-admin'
+import { ADMIN_ROLE_LABELS } from '@/lib/permissions'
+import { RecoveryCodes, TwoFactorEnrolment } from '@/components/two-factor-enrolment'
+import { adminFetch } from '@/lib/admin-fetch'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+interface AdminSession {
+  id: number
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastActiveAt: string
+  current: boolean
+}
+
+export default function ProfilePage() {
+  const { admin } = useAdmin()
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [enrolling, setEnrolling] = useState(false)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [twoFactorForm, setTwoFactorForm] = useState<'disable' | 'regenerate' | null>(null)
+  const [twoFactorInput, setTwoFactorInput] = useState('')
+  const [updatingTwoFactor, setUpdatingTwoFactor] = useState(false)
+
+  const [sessions, setSessions] = useState<AdminSession[]>([])
+  const [revoking, setRevoking] = useState<number | 'others' | null>(null)
+
+  useEffect(() => {
+    async function fetchSecurity() {
+      try {
+        const [twoFactorRes, sessionsRes] = await Promise.all([
+          adminFetch('/api/v1/admin/auth/2fa'),
+          adminFetch('/api/v1/admin/auth/sessions')
+        ])
+        if (twoFactorRes.ok) {
+          setTwoFactor(await twoFactorRes.json())
+        }
+        if (sessionsRes.ok) {
+          setSessions((await sessionsRes.json()).sessions)
+        }
+      } catch (error) {
+        console.error('Error fetching account security:', error)
+      }
+    }
+
+    fetchSecurity()
+  }, [reloadKey])
+
+  async function handleChangePassword(e: React.FormEvent) {
+    e.preventDefault()
+
+    if (newPassword !== confirmPassword) {
+      toast.error('Passwords do not match')
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const res = await adminFetch('/api/v1/admin/auth/password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentPassword, newPassword })
+      })
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success('Password changed. Your other sessions were signed out.')
+        setCurrentPassword('')
+        setNewPassword('')
+        setConfirmPassword('')
+        setReloadKey((key) => key + 1)
+      } else {
+        toast.error(data.error || 'Failed to change password')
+      }
+    } catch (error) {
+      console.error('Error changing password:', error)
+      toast.error('Failed to change password')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleTwoFactorForm(e: React.FormEvent) {
+    e.preventDefault()
+    setUpdatingTwoFactor(true)
+
+    try {
+      const res = await adminFetch(
+        twoFactorForm === 'disable' ? '/api/v1/admin/auth/2fa' : '/api/v1/admin/auth/2fa/recovery-codes',
+        {
+          method: twoFactorForm === 'disable' ? 'DELETE' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(twoFactorForm === 'disable' ? { password: twoFactorInput } : { code: twoFactorInput })
+        }
+      )
+      const data = await res.json()
+
+      if (!data.success) {
+        toast.error(data.error || 'Failed to update two-factor authentication')
+        return
+      }
+
+      if (twoFactorForm === 'disable') {
+        toast.success('Two-factor authentication turned off')
+      } else {
+        setRecoveryCodes(data.recoveryCodes)
+      }
+
+      setTwoFactorForm(null)
+      setTwoFactorInput('')
+      setReloadKey((key) => key + 1)
+    } catch (error) {
+      console.error('Error updating two-factor authentication:', error)
+      toast.error('Failed to update two-factor authentication')
+    } finally {
+      setUpdatingTwoFactor(false)
+    }
+  }
+
+  async function handleRevokeSession(session: AdminSession | null) {
+    setRevoking(session ? session.id : 'others')
+
+    try {
+      const res = await adminFetch(
+        session ? `/api/v1/admin/auth/sessions/${session.id}` : '/api/v1/admin/auth/sessions',
+        { method: 'DELETE' }
+      )
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(session ? 'Session signed out' : `Signed out ${data.revoked} other sessions`)
+        setReloadKey((key) => key + 1)
+      } else {
+        toast.error(data.error || 'Failed to sign out session')
+      }
+    } catch (error) {
+      console.error('Error revoking session:', error)
+      toast.error('Failed to sign out session')
+    } finally {
+      setRevoking(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6 max-w-xl">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Profile</h2>
+        <p className="text-gray-600">
+          {admin?.name || admin?.email}
+          {admin && ` · ${ADMIN_ROLE_LABELS[admin.role]}`}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Change Password</CardTitle>
+          <CardDescription>Use at least 8 characters.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangePassword} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="currentPassword">Current Password</Label>
+              <Input
+                id="currentPassword"
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="newPassword">New Password</Label>
+              <Input
+                id="newPassword"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                minLength={8}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm New Password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Change Password'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {twoFactor && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle className="text-lg">Two-Factor Authentication</CardTitle>
+              <div className="flex gap-2">
+                {twoFactor.required && <Badge variant="outline">Required</Badge>}
+                {twoFactor.enabled ? <Badge>On</Badge> : <Badge variant="secondary">Off</Badge>}
+              </div>
+            </div>
+            <CardDescription>
+              {twoFactor.enabled
+                ? `On since ${new Date(twoFactor.enabledAt as string).toLocaleDateString()} · ${twoFactor.recoveryCodesRemaining} recovery codes left`
+                : 'Ask for a code from an authenticator app after your password.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recoveryCodes ? (
+              <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+            ) : enrolling ? (
+              <div className="space-y-4">
+                <TwoFactorEnrolment
+                  onEnabled={(result) => {
+                    toast.success('Two-factor authentication turned on')
+                    setEnrolling(false)
+                    setRecoveryCodes(result.recoveryCodes)
+                    setReloadKey((key) => key + 1)
+                  }}
+                />
+                <Button variant="ghost" className="w-full" onClick={() => setEnrolling(false)}>
+                  Cancel
+                </Button>
+              </div>
+            ) : twoFactorForm ? (
+              <form onSubmit={handleTwoFactorForm} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="twoFactorInput">
+                    {twoFactorForm === 'disable' ? 'Password' : 'Code from your authenticator app'}
+                  </Label>
+                  <Input
+                    id="twoFactorInput"
+                    type={twoFactorForm === 'disable' ? 'password' : 'text'}
+                    autoComplete={twoFactorForm === 'disable' ? 'current-password' : 'one-time-code'}
+                    value={twoFactorInput}
+                    onChange={(e) => setTwoFactorInput(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={updatingTwoFactor}>
+                    {twoFactorForm === 'disable' ? 'Turn Off' : 'Generate New Codes'}
+                  </Button>
+                  <Button type="button" variant="ghost" onClick={() => setTwoFactorForm(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            ) : twoFactor.enabled ? (
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setTwoFactorForm('regenerate')}>
+                  New Recovery Codes
+                </Button>
+                {!twoFactor.required && (
+                  <Button
+                    variant="outline"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => setTwoFactorForm('disable')}
+                  >
+                    Turn Off
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <Button onClick={() => setEnrolling(true)}>Set Up Two-Factor</Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="text-lg">Sessions</CardTitle>
+            {sessions.length > 1 && (
+              <Button variant="outline" size="sm" onClick={() => handleRevokeSession(null)} disabled={revoking !== null}>
+                Sign Out Other Sessions
+              </Button>
+            )}
+          </div>
+          <CardDescription>Browsers signed in to your account</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {sessions.map((session) => (
+            <div key={session.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-md">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{session.userAgent || 'Unknown browser'}</p>
+                <p className="text-xs text-gray-500">
+                  {session.ipAddress || 'Unknown IP'} · Signed in {new Date(session.createdAt).toLocaleString()} ·
+                  Last active {new Date(session.lastActiveAt).toLocaleString()}
+                </p>
+              </div>
+              {session.current ? (
+                <Badge variant="outline">This browser</Badge>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => handleRevokeSession(session)}
+                  disabled={revoking !== null}
+                >
+                  Sign Out
+                </Button>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
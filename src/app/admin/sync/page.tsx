@@ -0,0 +1,242 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { toast } from 'sonner'
+import { Loader2, RefreshCw, Send } from 'lucide-react'
+import { useAdmin } from '@/hooks/use-admin'
+import { adminFetch } from '@/lib/admin-fetch'
+
+interface OutboxItem {
+  id: number
+  appKey: string
+  kind: string
+  email: string
+  payload: Record<string, unknown>
+  status: string
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: string
+  lastError: string | null
+  deliveredAt: string | null
+  createdAt: string
+}
+
+interface OutboxCounts {
+  stuck: number
+  failed: number
+  retried: number
+  pending: number
+}
+
+const VIEWS = [
+  { value: 'stuck', label: 'Stuck' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'retried', label: 'Retried' },
+  { value: 'all', label: 'All' },
+]
+
+export default function SyncPage() {
+  const { can } = useAdmin()
+  const canEdit = can('sync:write')
+  const [items, setItems] = useState<OutboxItem[]>([])
+  const [counts, setCounts] = useState<OutboxCounts | null>(null)
+  const [view, setView] = useState('stuck')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<number | 'worker' | null>(null)
+
+  useEffect(() => {
+    fetchItems(view)
+  }, [view])
+
+  async function fetchItems(selectedView: string) {
+    setLoading(true)
+    try {
+      const res = await adminFetch(`/api/v1/admin/sync-outbox?view=${selectedView}`)
+      const data = await res.json()
+      setItems(data.items || [])
+      setCounts(data.counts || null)
+    } catch (error) {
+      console.error('Error fetching sync outbox:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleRedeliver(item: OutboxItem) {
+    setSaving(item.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/sync-outbox/${item.id}/redeliver`, { method: 'POST' })
+
+      const data = await res.json()
+
+      if (!data.success) {
+        toast.error(data.error || 'Failed to redeliver')
+      } else if (data.delivered) {
+        toast.success(`Delivered to ${item.appKey}`)
+      } else if (!data.attempted) {
+        toast.info(`Queued behind older deliveries to ${item.appKey}`)
+      } else {
+        toast.error(`Delivery failed: ${data.item?.lastError || 'Unknown error'}`)
+      }
+
+      fetchItems(view)
+    } catch (error) {
+      console.error('Error redelivering:', error)
+      toast.error('Failed to redeliver')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleRunWorker() {
+    setSaving('worker')
+    try {
+      const res = await adminFetch('/api/v1/admin/sync-outbox', { method: 'POST' })
+
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(`Processed ${data.processed}: ${data.delivered} delivered, ${data.failed} failed`)
+        fetchItems(view)
+      } else {
+        toast.error(data.error || 'Failed to run sync worker')
+      }
+    } catch (error) {
+      console.error('Error running sync worker:', error)
+      toast.error('Failed to run sync worker')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  function statusVariant(status: string) {
+    if (status === 'delivered') return 'default'
+    if (status === 'dead') return 'destructive'
+    return 'secondary'
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">App Sync</h2>
+          <p className="text-gray-600">Deliveries of access changes to connected apps</p>
+        </div>
+        {canEdit && (
+          <Button onClick={handleRunWorker} disabled={saving !== null}>
+            {saving === 'worker' ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Run Worker Now
+          </Button>
+        )}
+      </div>
+
+      {counts && (
+        <div className="grid grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="py-4">
+              <p className="text-sm text-gray-500">Pending</p>
+              <p className="text-2xl font-bold">{counts.pending}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="py-4">
+              <p className="text-sm text-gray-500">Stuck</p>
+              <p className="text-2xl font-bold text-yellow-600">{counts.stuck}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="py-4">
+              <p className="text-sm text-gray-500">Failed</p>
+              <p className="text-2xl font-bold text-red-600">{counts.failed}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="py-4">
+              <p className="text-sm text-gray-500">Retried</p>
+              <p className="text-2xl font-bold">{counts.retried}</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Tabs value={view} onValueChange={setView}>
+        <TabsList>
+          {VIEWS.map((v) => (
+            <TabsTrigger key={v.value} value={v.value}>{v.label}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {loading ? (
+        <div className="animate-pulse">Loading...</div>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item) => (
+            <Card key={item.id}>
+              <CardContent className="py-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={statusVariant(item.status)}>{item.status}</Badge>
+                      <span className="text-sm font-medium">{item.appKey}</span>
+                      <span className="text-sm text-gray-500">
+                        {item.email} → {String(item.payload.tier || item.kind)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      #{item.id} · Attempt {item.attempts}/{item.maxAttempts}
+                      {item.status === 'pending' && item.attempts > 0 && (
+                        <> · Next retry {new Date(item.nextAttemptAt).toLocaleString()}</>
+                      )}
+                      {item.deliveredAt && (
+                        <> · Delivered {new Date(item.deliveredAt).toLocaleString()}</>
+                      )}
+                    </p>
+                    {item.lastError && (
+                      <p className="text-sm text-red-600 mt-1">{item.lastError}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-xs text-gray-500">
+                      {new Date(item.createdAt).toLocaleString()}
+                    </span>
+                    {canEdit && (item.status === 'pending' || (item.status === 'dead' && item.kind !== 'delete')) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRedeliver(item)}
+                        disabled={saving !== null}
+                      >
+                        {saving === item.id ? (
+                          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Send className="mr-1 h-4 w-4" />
+                        )}
+                        Redeliver
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {items.length === 0 && (
+            <Card>
+              <CardContent className="py-8 text-center text-gray-500">
+                No deliveries in this view
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
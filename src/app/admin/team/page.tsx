@@ -0,0 +1,486 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
+import { toast } from 'sonner'
+import { KeyRound, Loader2, ShieldOff, Trash2, UserPlus } from 'lucide-react'
+import { useAdmin } from '@/hooks/use-admin'
+import { ADMIN_ROLE_LABELS, ADMIN_ROLES, AdminRole } from '@/lib/permissions'
+import { adminFetch } from '@/lib/admin-fetch'
+
+interface TeamMember {
+  id: number
+  email: string
+  name: string | null
+  role: AdminRole
+  createdAt: string
+  deactivatedAt: string | null
+  twoFactorEnabled: boolean
+  twoFactorRequired: boolean
+}
+
+interface PendingInvite {
+  id: number
+  email: string
+  name: string | null
+  role: AdminRole
+  invitedBy: string
+  expiresAt: string
+}
+
+type MemberAction = 'deactivate' | 'reactivate' | 'reset-password'
+
+const ACTION_MESSAGES: Record<MemberAction, string> = {
+  deactivate: 'deactivated',
+  reactivate: 'reactivated',
+  'reset-password': 'must choose a new password'
+}
+
+const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  owner: 'Everything, including managing the team',
+  admin: 'Everything except managing the team',
+  support: 'View everything; manage customers and retry syncs',
+  analyst: 'View only'
+}
+
+export default function TeamPage() {
+  const { admin } = useAdmin()
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [invites, setInvites] = useState<PendingInvite[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<number | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false)
+  const [inviteForm, setInviteForm] = useState({ email: '', name: '', role: 'support' as AdminRole })
+  const [inviting, setInviting] = useState(false)
+
+  useEffect(() => {
+    async function fetchMembers() {
+      try {
+        const res = await adminFetch('/api/v1/admin/team')
+        const data = await res.json()
+        setMembers(data.users || [])
+        setInvites(data.invites || [])
+      } catch (error) {
+        console.error('Error fetching team:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchMembers()
+  }, [reloadKey])
+
+  async function handleRoleChange(member: TeamMember, role: string) {
+    setSaving(member.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/team/${member.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role })
+      })
+
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(`${member.email} is now ${ADMIN_ROLE_LABELS[data.user.role as AdminRole]}`)
+        setMembers(prev => prev.map(m => (m.id === member.id ? { ...m, role: data.user.role } : m)))
+      } else {
+        toast.error(data.error || 'Failed to change role')
+      }
+    } catch (error) {
+      console.error('Error changing role:', error)
+      toast.error('Failed to change role')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleInvite(e: React.FormEvent) {
+    e.preventDefault()
+    setInviting(true)
+
+    try {
+      const res = await adminFetch('/api/v1/admin/team/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(inviteForm)
+      })
+      const data = await res.json()
+
+      if (!data.success) {
+        toast.error(data.error || 'Failed to send invitation')
+        return
+      }
+
+      if (data.emailSent) {
+        toast.success(`Invitation sent to ${data.invite.email}`)
+      } else {
+        toast.warning(`Invitation created, but the email to ${data.invite.email} could not be sent`)
+      }
+
+      setInviteDialogOpen(false)
+      setInviteForm({ email: '', name: '', role: 'support' })
+      setReloadKey((key) => key + 1)
+    } catch (error) {
+      console.error('Error inviting admin:', error)
+      toast.error('Failed to send invitation')
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  async function handleRevokeInvite(invite: PendingInvite) {
+    try {
+      const res = await adminFetch(`/api/v1/admin/team/invites/${invite.id}`, { method: 'DELETE' })
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(`Invitation for ${invite.email} withdrawn`)
+        setInvites(prev => prev.filter(i => i.id !== invite.id))
+      } else {
+        toast.error(data.error || 'Failed to withdraw invitation')
+      }
+    } catch (error) {
+      console.error('Error revoking invite:', error)
+      toast.error('Failed to withdraw invitation')
+    }
+  }
+
+  async function handleMemberAction(member: TeamMember, action: MemberAction) {
+    setSaving(member.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/team/${member.id}/${action}`, { method: 'POST' })
+      const data = await res.json()
+
+      if (!data.success) {
+        toast.error(data.error || 'Failed to update admin')
+        return
+      }
+
+      if (action === 'reset-password' && !data.emailSent) {
+        toast.warning(`${member.email} must choose a new password, but the reset email could not be sent`)
+      } else {
+        toast.success(`${member.email} ${ACTION_MESSAGES[action]}`)
+      }
+
+      setReloadKey((key) => key + 1)
+    } catch (error) {
+      console.error('Error updating admin:', error)
+      toast.error('Failed to update admin')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleTwoFactorRequired(member: TeamMember, required: boolean) {
+    setSaving(member.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/team/${member.id}/two-factor`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ required })
+      })
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(
+          required
+            ? `${member.email} must use two-factor authentication`
+            : `Two-factor authentication is optional for ${member.email}`
+        )
+        setMembers(prev => prev.map(m => (m.id === member.id ? { ...m, twoFactorRequired: required } : m)))
+      } else {
+        toast.error(data.error || 'Failed to update two-factor requirement')
+      }
+    } catch (error) {
+      console.error('Error updating two-factor requirement:', error)
+      toast.error('Failed to update two-factor requirement')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleResetTwoFactor(member: TeamMember) {
+    setSaving(member.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/team/${member.id}/two-factor`, { method: 'DELETE' })
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(`Two-factor authentication reset for ${member.email}`)
+        setMembers(prev => prev.map(m => (m.id === member.id ? { ...m, twoFactorEnabled: false } : m)))
+      } else {
+        toast.error(data.error || 'Failed to reset two-factor authentication')
+      }
+    } catch (error) {
+      console.error('Error resetting two-factor authentication:', error)
+      toast.error('Failed to reset two-factor authentication')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  if (loading) {
+    return <div className="animate-pulse">Loading...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Team</h2>
+          <p className="text-gray-600">Admin users and what their role allows</p>
+        </div>
+
+        <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Invite Admin
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Invite Admin</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleInvite} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="inviteEmail">Email *</Label>
+                <Input
+                  id="inviteEmail"
+                  type="email"
+                  value={inviteForm.email}
+                  onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="inviteName">Name</Label>
+                <Input
+                  id="inviteName"
+                  value={inviteForm.name}
+                  onChange={(e) => setInviteForm({ ...inviteForm, name: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Role *</Label>
+                <Select
+                  value={inviteForm.role}
+                  onValueChange={(role) => setInviteForm({ ...inviteForm, role: role as AdminRole })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ADMIN_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">The invitation link expires after 7 days</p>
+              </div>
+
+              <DialogFooter>
+                <Button type="submit" disabled={inviting}>
+                  {inviting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send Invitation
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="bg-gray-50 border rounded-md p-3 text-sm text-gray-700 space-y-1">
+        {ADMIN_ROLES.map((role) => (
+          <p key={role}>
+            <span className="font-medium">{ADMIN_ROLE_LABELS[role]}:</span> {ROLE_DESCRIPTIONS[role]}
+          </p>
+        ))}
+      </div>
+
+      {invites.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Pending Invitations</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {invites.map((invite) => (
+              <div key={invite.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-md">
+                <div>
+                  <p className="font-medium">{invite.name || invite.email}</p>
+                  <p className="text-sm text-gray-500">
+                    {invite.email} · Invited by {invite.invitedBy} · Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex gap-2 items-center">
+                  <Badge variant="outline">{ADMIN_ROLE_LABELS[invite.role]}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-red-600 hover:text-red-700"
+                    title="Withdraw invitation"
+                    onClick={() => handleRevokeInvite(invite)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4">
+        {members.map((member) => (
+          <Card key={member.id} className={member.deactivatedAt ? 'opacity-60' : ''}>
+            <CardHeader className="py-4">
+              <div className="flex justify-between items-center">
+                <div>
+                  <CardTitle className="text-lg">{member.name || member.email}</CardTitle>
+                  <p className="text-sm text-gray-500">
+                    {member.email} · Joined {new Date(member.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex gap-2 items-center">
+                  {member.id === admin?.id && <Badge variant="outline">You</Badge>}
+                  {member.deactivatedAt && <Badge variant="destructive">Deactivated</Badge>}
+                  {member.twoFactorEnabled ? (
+                    <Badge variant="secondary">2FA</Badge>
+                  ) : (
+                    member.twoFactorRequired && <Badge variant="outline">2FA pending</Badge>
+                  )}
+                  {!member.deactivatedAt && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleTwoFactorRequired(member, !member.twoFactorRequired)}
+                      disabled={saving !== null}
+                    >
+                      {member.twoFactorRequired ? 'Make 2FA Optional' : 'Require 2FA'}
+                    </Button>
+                  )}
+                  {saving === member.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) => handleRoleChange(member, role)}
+                    disabled={saving !== null || !!member.deactivatedAt}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ADMIN_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  {member.id !== admin?.id && !member.deactivatedAt && (
+                    <>
+                      {member.twoFactorEnabled && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" title="Reset two-factor" disabled={saving !== null}>
+                              <ShieldOff className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Reset Two-Factor Authentication?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                {member.email} will be signed out everywhere and their authenticator app and
+                                recovery codes will stop working. Only do this if you&apos;ve confirmed who is asking.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleResetTwoFactor(member)}>
+                                Reset Two-Factor
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" title="Force password reset" disabled={saving !== null}>
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Reset Password?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {member.email} will be signed out everywhere and their current password will stop
+                              working. They&apos;ll be emailed a link to choose a new one.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleMemberAction(member, 'reset-password')}>
+                              Reset Password
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700" disabled={saving !== null}>
+                            Deactivate
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Deactivate Admin?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {member.email} will be signed out everywhere and won&apos;t be able to sign in until
+                              reactivated. Their audit history is kept.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleMemberAction(member, 'deactivate')}
+                              className="bg-red-600 hover:bg-red-700"
+                            >
+                              Deactivate
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </>
+                  )}
+
+                  {member.id !== admin?.id && member.deactivatedAt && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleMemberAction(member, 'reactivate')}
+                      disabled={saving !== null}
+                    >
+                      Reactivate
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
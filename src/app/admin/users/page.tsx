@@ -11,7 +11,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
 import { toast } from 'sonner'
-import { Plus, Trash2, Clock, Loader2 } from 'lucide-react'
+import { Plus, Trash2, Clock, Loader2, Link2, Mail, RefreshCw, Ban, CheckCircle, Pencil, Download, UserX } from 'lucide-react'
+import { useAdmin } from '@/hooks/use-admin'
+import { adminFetch } from '@/lib/admin-fetch'
 
 interface Entitlement {
   id: number
@@ -31,15 +33,37 @@ interface Product {
   isActive: boolean
 }
 
+interface ClaimToken {
+  token: string
+  purchaseEmail: string
+  claimed: boolean
+  claimedAt: string | null
+  claimedProductIds: string[]
+  expiresAt: string
+  voidedAt: string | null
+  voidReason: string | null
+  emailSentCount: number
+  lastEmailSentAt: string | null
+  createdAt: string
+  bundle: { name: string; productIds: string[] }
+}
+
 interface User {
   id: string
   primaryEmail: string
+  name: string | null
+  stripeCustomerId: string | null
+  erasedAt: string | null
   createdAt: string
-  emails: { email: string; productId: string }[]
+  mergedIdentities: { id: string; primaryEmail: string }[]
+  emails: { id: number; email: string; productId: string; verified: boolean }[]
   entitlements: Entitlement[]
 }
 
 export default function UsersPage() {
+  const { can } = useAdmin()
+  const canEdit = can('customers:write')
+  const canManagePrivacy = can('customers:privacy')
   const [users, setUsers] = useState<User[]>([])
   const [products, setProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
@@ -61,6 +85,20 @@ export default function UsersPage() {
   const [editingEntitlement, setEditingEntitlement] = useState<{ user: User; entitlement: Entitlement } | null>(null)
   const [newExpiryDate, setNewExpiryDate] = useState('')
 
+  // Change Email Dialog
+  const [emailDialogOpen, setEmailDialogOpen] = useState(false)
+  const [emailUser, setEmailUser] = useState<User | null>(null)
+  const [newEmail, setNewEmail] = useState('')
+  const [repointProductEmails, setRepointProductEmails] = useState(true)
+
+  // Claim Links Dialog
+  const [claimDialogOpen, setClaimDialogOpen] = useState(false)
+  const [claimUser, setClaimUser] = useState<User | null>(null)
+  const [claimTokens, setClaimTokens] = useState<ClaimToken[]>([])
+  const [claimAction, setClaimAction] = useState<{ token: string; mode: 'extend' | 'claim' } | null>(null)
+  const [claimExpiryDate, setClaimExpiryDate] = useState('')
+  const [claimEmails, setClaimEmails] = useState<Record<string, string>>({})
+
   useEffect(() => {
     fetchData()
   }, [])
@@ -68,10 +106,9 @@ export default function UsersPage() {
   async function fetchData() {
     setLoading(true)
     try {
-      const token = localStorage.getItem('admin_token')
       const [usersRes, productsRes] = await Promise.all([
-        fetch('/api/v1/admin/users', { headers: { Authorization: `Bearer ${token}` } }),
-        fetch('/api/v1/admin/products', { headers: { Authorization: `Bearer ${token}` } })
+        adminFetch('/api/v1/admin/users'),
+        adminFetch('/api/v1/admin/products')
       ])
 
       const usersData = await usersRes.json()
@@ -90,14 +127,11 @@ export default function UsersPage() {
   async function fetchUsers(searchQuery = '') {
     setLoading(true)
     try {
-      const token = localStorage.getItem('admin_token')
       const url = searchQuery
         ? `/api/v1/admin/users?search=${encodeURIComponent(searchQuery)}`
         : '/api/v1/admin/users'
 
-      const res = await fetch(url, {
-        headers: { Authorization: `Bearer ${token}` }
-      })
+      const res = await adminFetch(url)
       const data = await res.json()
       setUsers(data.users || [])
       setTotal(data.total || 0)
@@ -142,13 +176,9 @@ export default function UsersPage() {
 
     setSaving(grantingUser.id)
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch(`/api/v1/admin/users/${grantingUser.id}`, {
+      const res = await adminFetch(`/api/v1/admin/users/${grantingUser.id}`, {
         method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           productIds: grantForm.productIds,
           durationType: grantForm.durationType,
@@ -178,13 +208,9 @@ export default function UsersPage() {
   async function handleRevokeAccess(user: User, productId: string) {
     setSaving(user.id)
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch(`/api/v1/admin/users/${user.id}`, {
+      const res = await adminFetch(`/api/v1/admin/users/${user.id}`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           productIds: [productId],
           reason: 'Revoked by admin'
@@ -207,6 +233,121 @@ export default function UsersPage() {
     }
   }
 
+  function openEmailDialog(user: User) {
+    setEmailUser(user)
+    setNewEmail('')
+    setRepointProductEmails(true)
+    setEmailDialogOpen(true)
+  }
+
+  async function handleChangeEmail(e: React.FormEvent) {
+    e.preventDefault()
+
+    if (!emailUser || !newEmail) {
+      toast.error('Please enter the new email')
+      return
+    }
+
+    setSaving(emailUser.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/users/${emailUser.id}/email`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: newEmail, repointProductEmails })
+      })
+
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(`Email changed to ${data.newEmail}`)
+        if (emailUser.stripeCustomerId && !data.stripeUpdated) {
+          toast.warning('Could not update the Stripe customer email')
+        }
+        setEmailDialogOpen(false)
+        setEmailUser(null)
+        fetchUsers(search)
+      } else {
+        toast.error(data.error || 'Failed to change email')
+      }
+    } catch (error) {
+      console.error('Error changing email:', error)
+      toast.error('Failed to change email')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleExport(user: User) {
+    setSaving(user.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/users/${user.id}/export?format=zip`)
+
+      if (!res.ok) {
+        const data = await res.json()
+        toast.error(data.error || 'Failed to export user data')
+        return
+      }
+
+      const url = URL.createObjectURL(await res.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `user-${user.id}.zip`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Error exporting user data:', error)
+      toast.error('Failed to export user data')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleErase(user: User) {
+    setSaving(user.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/users/${user.id}/erase`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: 'Deletion request' })
+      })
+
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(`User data erased. Delete requests sent to ${data.appRequests} app(s).`)
+        fetchUsers(search)
+      } else {
+        toast.error(data.error || 'Failed to erase user')
+      }
+    } catch (error) {
+      console.error('Error erasing user:', error)
+      toast.error('Failed to erase user')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  async function handleVerifyEmail(user: User, identityEmail: User['emails'][number]) {
+    setSaving(user.id)
+    try {
+      const res = await adminFetch(`/api/v1/admin/identity-emails/${identityEmail.id}/verify`, { method: 'POST' })
+
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(`${identityEmail.email} verified`)
+        fetchUsers(search)
+      } else {
+        toast.error(data.error || 'Failed to verify email')
+      }
+    } catch (error) {
+      console.error('Error verifying email:', error)
+      toast.error('Failed to verify email')
+    } finally {
+      setSaving(null)
+    }
+  }
+
   function openEditExpiry(user: User, entitlement: Entitlement) {
     setEditingEntitlement({ user, entitlement })
     setNewExpiryDate(entitlement.expiresAt ? entitlement.expiresAt.split('T')[0] : '')
@@ -220,13 +361,9 @@ export default function UsersPage() {
 
     setSaving(editingEntitlement.user.id)
     try {
-      const token = localStorage.getItem('admin_token')
-      const res = await fetch(`/api/v1/admin/users/${editingEntitlement.user.id}`, {
+      const res = await adminFetch(`/api/v1/admin/users/${editingEntitlement.user.id}`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           productIds: [editingEntitlement.entitlement.productId],
           newExpiresAt: newExpiryDate || null
@@ -251,6 +388,101 @@ export default function UsersPage() {
     }
   }
 
+  async function fetchClaimTokens(userId: string) {
+    try {
+      const res = await adminFetch(`/api/v1/admin/users/${userId}`)
+      const data = await res.json()
+      setClaimTokens(data.user?.claimTokens || [])
+    } catch (error) {
+      console.error('Error fetching claim tokens:', error)
+    }
+  }
+
+  function openClaimDialog(user: User) {
+    setClaimUser(user)
+    setClaimTokens([])
+    setClaimAction(null)
+    setClaimDialogOpen(true)
+    fetchClaimTokens(user.id)
+  }
+
+  function openClaimAction(claimToken: ClaimToken, mode: 'extend' | 'claim') {
+    setClaimAction({ token: claimToken.token, mode })
+    const nextMonth = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+    setClaimExpiryDate(nextMonth.toISOString().split('T')[0])
+    setClaimEmails(
+      Object.fromEntries(pendingProductIds(claimToken).map((id) => [id, claimToken.purchaseEmail]))
+    )
+  }
+
+  async function runClaimTokenAction(
+    claimToken: ClaimToken,
+    action: 'resend' | 'extend' | 'reissue' | 'void' | 'claim',
+    body: Record<string, unknown>,
+    successMessage: string
+  ) {
+    if (!claimUser) return
+
+    setSaving(claimToken.token)
+    try {
+      const res = await adminFetch(`/api/v1/admin/claim-tokens/${claimToken.token}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(successMessage)
+        setClaimAction(null)
+        fetchClaimTokens(claimUser.id)
+        if (action === 'claim') fetchUsers(search)
+      } else {
+        toast.error(data.error || `Failed to ${action} claim link`)
+      }
+    } catch (error) {
+      console.error(`Error running claim token ${action}:`, error)
+      toast.error(`Failed to ${action} claim link`)
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  function handleExtendClaim(e: React.FormEvent, claimToken: ClaimToken) {
+    e.preventDefault()
+    runClaimTokenAction(
+      claimToken,
+      'extend',
+      { expiresAt: new Date(`${claimExpiryDate}T23:59:59`).toISOString() },
+      'Claim link extended'
+    )
+  }
+
+  function handleClaimForBuyer(e: React.FormEvent, claimToken: ClaimToken) {
+    e.preventDefault()
+    const productEmails = Object.fromEntries(
+      Object.entries(claimEmails).map(([productId, email]) => [productId, { email }])
+    )
+    runClaimTokenAction(claimToken, 'claim', { products: productEmails }, 'Bundle claimed for buyer')
+  }
+
+  function pendingProductIds(claimToken: ClaimToken) {
+    return claimToken.bundle.productIds.filter((id) => !claimToken.claimedProductIds.includes(id))
+  }
+
+  function claimTokenStatus(claimToken: ClaimToken) {
+    if (claimToken.claimed) return { label: 'Claimed', variant: 'default' as const }
+    if (claimToken.voidedAt) return { label: 'Voided', variant: 'destructive' as const }
+    if (new Date(claimToken.expiresAt) < new Date()) return { label: 'Expired', variant: 'secondary' as const }
+    if (claimToken.claimedProductIds.length > 0) return { label: 'Partially claimed', variant: 'secondary' as const }
+    return { label: 'Open', variant: 'outline' as const }
+  }
+
+  function productName(productId: string) {
+    return products.find((p) => p.id === productId)?.name || productId
+  }
+
   // Get products user doesn't have access to
   function getAvailableProducts(user: User) {
     const activeEntitlementIds = user.entitlements
@@ -301,21 +533,89 @@ export default function UsersPage() {
                     <div>
                       <CardTitle className="text-lg">{user.primaryEmail}</CardTitle>
                       <p className="text-sm text-gray-500">
-                        Joined {new Date(user.createdAt).toLocaleDateString()}
+                        {user.name && `${user.name} · `}Joined {new Date(user.createdAt).toLocaleDateString()}
                       </p>
+                      {user.mergedIdentities.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          Merged: {user.mergedIdentities.map((m) => m.primaryEmail).join(', ')}
+                        </p>
+                      )}
                     </div>
                     <div className="flex gap-2 items-center">
+                      {user.erasedAt && <Badge variant="destructive">Erased</Badge>}
                       <Badge variant="outline">
                         {user.entitlements.filter(e => !e.revokedAt).length} active
                       </Badge>
-                      <Button
-                        size="sm"
-                        onClick={() => openGrantDialog(user)}
-                        disabled={getAvailableProducts(user).length === 0}
-                      >
-                        <Plus className="h-4 w-4 mr-1" />
-                        Grant Access
-                      </Button>
+                      {canManagePrivacy && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleExport(user)}
+                          disabled={saving === user.id}
+                        >
+                          <Download className="h-4 w-4 mr-1" />
+                          Export
+                        </Button>
+                      )}
+                      {!user.erasedAt && canManagePrivacy && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button size="sm" variant="outline" className="text-red-600" disabled={saving === user.id}>
+                              <UserX className="h-4 w-4 mr-1" />
+                              Erase
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Erase User Data?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                This permanently anonymizes {user.primaryEmail}: emails, name, form answers
+                                and logged mentions are removed, access is revoked and every connected app
+                                is asked to delete the user. Payment records are kept for accounting. This
+                                cannot be undone, so export the data first if it was requested.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleErase(user)}
+                                className="bg-red-600 hover:bg-red-700"
+                              >
+                                Erase Data
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                      {canEdit && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openEmailDialog(user)}
+                            disabled={!!user.erasedAt}
+                          >
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Change Email
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openClaimDialog(user)}
+                          >
+                            <Link2 className="h-4 w-4 mr-1" />
+                            Claim Links
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => openGrantDialog(user)}
+                            disabled={getAvailableProducts(user).length === 0}
+                          >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Grant Access
+                          </Button>
+                        </>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -342,49 +642,53 @@ export default function UsersPage() {
                               )}
                             </div>
 
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => openEditExpiry(user, ent)}
-                              title="Edit expiry date"
-                            >
-                              <Clock className="h-4 w-4" />
-                            </Button>
-
-                            <AlertDialog>
-                              <AlertDialogTrigger asChild>
+                            {canEdit && (
+                              <>
                                 <Button
                                   variant="ghost"
                                   size="icon"
-                                  className="text-red-600 hover:text-red-700"
-                                  title="Revoke access"
+                                  onClick={() => openEditExpiry(user, ent)}
+                                  title="Edit expiry date"
                                 >
-                                  {saving === user.id ? (
-                                    <Loader2 className="h-4 w-4 animate-spin" />
-                                  ) : (
-                                    <Trash2 className="h-4 w-4" />
-                                  )}
+                                  <Clock className="h-4 w-4" />
                                 </Button>
-                              </AlertDialogTrigger>
-                              <AlertDialogContent>
-                                <AlertDialogHeader>
-                                  <AlertDialogTitle>Revoke Access?</AlertDialogTitle>
-                                  <AlertDialogDescription>
-                                    This will revoke {user.primaryEmail}&apos;s access to {ent.product.name}.
-                                    They will immediately lose access to this product.
-                                  </AlertDialogDescription>
-                                </AlertDialogHeader>
-                                <AlertDialogFooter>
-                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                  <AlertDialogAction
-                                    onClick={() => handleRevokeAccess(user, ent.productId)}
-                                    className="bg-red-600 hover:bg-red-700"
-                                  >
-                                    Revoke Access
-                                  </AlertDialogAction>
-                                </AlertDialogFooter>
-                              </AlertDialogContent>
-                            </AlertDialog>
+
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="text-red-600 hover:text-red-700"
+                                      title="Revoke access"
+                                    >
+                                      {saving === user.id ? (
+                                        <Loader2 className="h-4 w-4 animate-spin" />
+                                      ) : (
+                                        <Trash2 className="h-4 w-4" />
+                                      )}
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Revoke Access?</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        This will revoke {user.primaryEmail}&apos;s access to {ent.product.name}.
+                                        They will immediately lose access to this product.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={() => handleRevokeAccess(user, ent.productId)}
+                                        className="bg-red-600 hover:bg-red-700"
+                                      >
+                                        Revoke Access
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              </>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -393,14 +697,40 @@ export default function UsersPage() {
                     <p className="text-sm text-gray-500">No active entitlements</p>
                   )}
 
-                  {user.emails.length > 1 && (
+                  {(user.emails.length > 1 || user.emails.some((e) => !e.verified)) && (
                     <div className="mt-3 pt-3 border-t">
                       <p className="text-xs text-gray-500 mb-1">Linked emails:</p>
                       <div className="flex flex-wrap gap-1">
-                        {user.emails.map((e, i) => (
-                          <Badge key={i} variant="outline" className="text-xs">
-                            {e.email} ({e.productId})
+                        {user.emails.map((e) => e.verified || !canEdit ? (
+                          <Badge key={e.id} variant={e.verified ? 'outline' : 'secondary'} className="text-xs">
+                            {e.email} ({e.productId}){!e.verified && ' - unverified'}
                           </Badge>
+                        ) : (
+                          <AlertDialog key={e.id}>
+                            <AlertDialogTrigger asChild>
+                              <button type="button" title="Unverified - click to verify" disabled={saving !== null}>
+                                <Badge variant="secondary" className="text-xs">
+                                  {e.email} ({e.productId}) - unverified
+                                </Badge>
+                              </button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Verify Email?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {e.email} hasn&apos;t confirmed ownership yet. Verifying it gives this address
+                                  {' '}{user.primaryEmail}&apos;s access to {e.productId}. Only do this if you have
+                                  confirmed the buyer owns it.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleVerifyEmail(user, e)}>
+                                  Verify Email
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
                         ))}
                       </div>
                     </div>
@@ -538,6 +868,241 @@ export default function UsersPage() {
           </form>
         </DialogContent>
       </Dialog>
+
+      {/* Change Email Dialog */}
+      <Dialog open={emailDialogOpen} onOpenChange={setEmailDialogOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Change Email</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleChangeEmail} className="space-y-4">
+            <p className="text-sm text-gray-600">Current email: {emailUser?.primaryEmail}</p>
+
+            <div className="space-y-2">
+              <Label htmlFor="newEmail">New Email *</Label>
+              <Input
+                id="newEmail"
+                type="email"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+              />
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="repointProductEmails"
+                checked={repointProductEmails}
+                onCheckedChange={(checked) => setRepointProductEmails(checked === true)}
+              />
+              <Label htmlFor="repointProductEmails">Move product emails to the new address</Label>
+            </div>
+
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+              Connected apps and the Stripe customer are updated too. Changes may take up to 2 minutes to reflect.
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEmailDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving !== null}>
+                {saving !== null && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Change Email
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Claim Links Dialog */}
+      <Dialog open={claimDialogOpen} onOpenChange={setClaimDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Claim Links for {claimUser?.primaryEmail}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {claimTokens.map((claimToken) => {
+              const status = claimTokenStatus(claimToken)
+              const isOpen = !claimToken.claimed && !claimToken.voidedAt
+              const isExpired = new Date(claimToken.expiresAt) < new Date()
+
+              return (
+                <div key={claimToken.token} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-sm">{claimToken.bundle.name}</p>
+                        <Badge variant={status.variant} className="text-xs">{status.label}</Badge>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Sent to {claimToken.purchaseEmail} ({claimToken.emailSentCount} emails
+                        {claimToken.lastEmailSentAt && `, last ${new Date(claimToken.lastEmailSentAt).toLocaleDateString()}`})
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {claimToken.claimedAt
+                          ? `Claimed ${new Date(claimToken.claimedAt).toLocaleDateString()}`
+                          : claimToken.voidedAt
+                          ? `Voided ${new Date(claimToken.voidedAt).toLocaleDateString()}${claimToken.voidReason ? ` - ${claimToken.voidReason}` : ''}`
+                          : `${isExpired ? 'Expired' : 'Expires'} ${new Date(claimToken.expiresAt).toLocaleDateString()}`}
+                      </p>
+                      {!claimToken.claimed && claimToken.claimedProductIds.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {claimToken.claimedProductIds.length} of {claimToken.bundle.productIds.length} activated:{' '}
+                          {claimToken.claimedProductIds.map(productName).join(', ')}
+                        </p>
+                      )}
+                    </div>
+
+                    {isOpen && (
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Resend claim email"
+                          disabled={saving !== null || isExpired}
+                          onClick={() => runClaimTokenAction(claimToken, 'resend', {}, 'Claim email sent')}
+                        >
+                          {saving === claimToken.token ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Mail className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Extend expiry"
+                          disabled={saving !== null}
+                          onClick={() => openClaimAction(claimToken, 'extend')}
+                        >
+                          <Clock className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Claim for buyer"
+                          disabled={saving !== null || isExpired}
+                          onClick={() => openClaimAction(claimToken, 'claim')}
+                        >
+                          <CheckCircle className="h-4 w-4" />
+                        </Button>
+
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" title="Reissue link" disabled={saving !== null}>
+                              <RefreshCw className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Reissue Claim Link?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The current link will stop working and a new link, valid for 30 days,
+                                will be emailed to {claimToken.purchaseEmail}.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => runClaimTokenAction(claimToken, 'reissue', {}, 'New claim link sent')}
+                              >
+                                Reissue Link
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-red-600 hover:text-red-700"
+                              title="Void link"
+                              disabled={saving !== null}
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Void Claim Link?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The buyer will no longer be able to claim {claimToken.bundle.name} with this link.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => runClaimTokenAction(claimToken, 'void', {}, 'Claim link voided')}
+                                className="bg-red-600 hover:bg-red-700"
+                              >
+                                Void Link
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    )}
+                  </div>
+
+                  {claimAction?.token === claimToken.token && claimAction.mode === 'extend' && (
+                    <form onSubmit={(e) => handleExtendClaim(e, claimToken)} className="flex items-end gap-2 pt-2 border-t">
+                      <div className="space-y-1">
+                        <Label htmlFor="claimExpiry" className="text-xs">New expiry date</Label>
+                        <Input
+                          id="claimExpiry"
+                          type="date"
+                          value={claimExpiryDate}
+                          onChange={(e) => setClaimExpiryDate(e.target.value)}
+                          required
+                        />
+                      </div>
+                      <Button type="submit" size="sm" disabled={saving !== null}>Save</Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => setClaimAction(null)}>
+                        Cancel
+                      </Button>
+                    </form>
+                  )}
+
+                  {claimAction?.token === claimToken.token && claimAction.mode === 'claim' && (
+                    <form onSubmit={(e) => handleClaimForBuyer(e, claimToken)} className="space-y-2 pt-2 border-t">
+                      {pendingProductIds(claimToken).map((productId) => (
+                        <div key={productId} className="space-y-1">
+                          <Label htmlFor={`claim-${productId}`} className="text-xs">
+                            {productName(productId)} email
+                          </Label>
+                          <Input
+                            id={`claim-${productId}`}
+                            type="email"
+                            value={claimEmails[productId] || ''}
+                            onChange={(e) => setClaimEmails({ ...claimEmails, [productId]: e.target.value })}
+                            required
+                          />
+                        </div>
+                      ))}
+                      <p className="text-xs text-gray-500">
+                        Product forms are skipped; the buyer can send those details to support.
+                      </p>
+                      <div className="flex gap-2">
+                        <Button type="submit" size="sm" disabled={saving !== null}>
+                          {claimToken.claimedProductIds.length > 0 ? 'Claim Remaining' : 'Claim Bundle'}
+                        </Button>
+                        <Button type="button" size="sm" variant="outline" onClick={() => setClaimAction(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </form>
+                  )}
+                </div>
+              )
+            })}
+            {claimTokens.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No claim links for this user.</p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
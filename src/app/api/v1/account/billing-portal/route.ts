@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCustomerAuth } from '@/lib/middleware/customer-auth'
+import { createAccountBillingPortal } from '@/lib/services/account.service'
+
+/**
+ * POST /api/v1/account/billing-portal
+ *
+ * Open a Stripe Billing Portal session for the signed-in customer's subscriptions.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await verifyCustomerAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  try {
+    const url = await createAccountBillingPortal(
+      authResult.customer.identityId,
+      `${request.nextUrl.origin}/account`
+    )
+    return NextResponse.json({ url })
+  } catch (error) {
+    console.error('Error opening billing portal:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json({ error: message }, { status: message === 'No billing account found' ? 404 : 500 })
+  }
+}
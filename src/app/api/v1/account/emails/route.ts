@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCustomerAuth } from '@/lib/middleware/customer-auth'
+import { setProductEmail } from '@/lib/services/account.service'
+
+/**
+ * PUT /api/v1/account/emails
+ *
+ * Change the email the signed-in customer uses for a product.
+ * Body: { productId: string, email: string }
+ */
+export async function PUT(request: NextRequest) {
+  const authResult = await verifyCustomerAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { productId, email } = body as { productId?: string; email?: string }
+
+    if (!productId || !email) {
+      return NextResponse.json({ error: 'productId and email are required' }, { status: 400 })
+    }
+
+    const result = await setProductEmail({
+      identityId: authResult.customer.identityId,
+      productId,
+      email,
+      sessionEmail: authResult.customer.email
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Error changing product email:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+}
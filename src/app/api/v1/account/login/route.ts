@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { INVALID_EMAIL_ERROR, parseEmail } from '@/lib/email'
+import { requestAccountLogin } from '@/lib/services/account.service'
+
+/**
+ * POST /api/v1/account/login
+ *
+ * Email a sign-in link for the customer account page.
+ * Always reports success so the form doesn't reveal who is a customer.
+ * Body: { email: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const email = parseEmail((body as { email?: unknown }).email)
+
+    if (!email) {
+      return NextResponse.json({ success: false, error: INVALID_EMAIL_ERROR }, { status: 400 })
+    }
+
+    await requestAccountLogin(email)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error requesting account login:', error)
+    return NextResponse.json(
+      { success: false, error: 'Could not send a sign-in link, please try again' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { completeAccountLogin } from '@/lib/services/account.service'
+
+/**
+ * POST /api/v1/account/login/verify
+ *
+ * Exchange a sign-in link token for a customer session token.
+ * Body: { token: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { token } = body as { token?: string }
+
+    if (!token) {
+      return NextResponse.json({ success: false, error: 'A sign-in token is required' }, { status: 400 })
+    }
+
+    const result = await completeAccountLogin(token)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Error completing account login:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ success: false, error: message }, { status: 400 })
+  }
+}
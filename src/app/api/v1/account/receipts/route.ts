@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCustomerAuth } from '@/lib/middleware/customer-auth'
+import { listAccountReceipts } from '@/lib/services/account.service'
+
+/**
+ * GET /api/v1/account/receipts
+ *
+ * Stripe receipts for the signed-in customer's payments.
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await verifyCustomerAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  try {
+    const receipts = await listAccountReceipts(authResult.customer.identityId)
+    return NextResponse.json({ receipts })
+  } catch (error) {
+    console.error('Error listing receipts:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
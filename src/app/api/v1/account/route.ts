@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCustomerAuth } from '@/lib/middleware/customer-auth'
+import { getAccount } from '@/lib/services/account.service'
+
+/**
+ * GET /api/v1/account
+ *
+ * The signed-in customer's products, product emails and billing options.
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await verifyCustomerAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  try {
+    const account = await getAccount(authResult.customer.identityId)
+    return NextResponse.json({ ...account, signedInAs: authResult.customer.email })
+  } catch (error) {
+    console.error('Error loading account:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
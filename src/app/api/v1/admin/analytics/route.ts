@@ -1,18 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import prisma from '@/lib/db'
-import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
 
 /**
  * GET /api/v1/admin/analytics
  *
  * Get analytics overview
  */
-export async function GET(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+export const GET = withAdminAuth('analytics:read', async () => {
   try {
     // Get total counts
     const [totalIdentities, totalEntitlements, activeEntitlements] = await Promise.all([
@@ -79,12 +74,25 @@ export async function GET(request: NextRequest) {
       where: { claimed: true }
     })
 
+    // Open tokens where some products have been activated but not all
+    const partialStats = await prisma.claimToken.groupBy({
+      by: ['bundleId'],
+      _count: { _all: true },
+      where: { claimed: false, voidedAt: null, claimedProductIds: { isEmpty: false } }
+    })
+
+    const bundleIds = Array.from(
+      new Set([...bundleStats, ...partialStats].map((b) => b.bundleId))
+    )
+
     const bundles = await prisma.bundle.findMany({
-      where: { id: { in: bundleStats.map((b) => b.bundleId) } },
+      where: { id: { in: bundleIds } },
       select: { id: true, name: true }
     })
 
     const bundleMap = Object.fromEntries(bundles.map((b) => [b.id, b.name]))
+    const claimedMap = Object.fromEntries(bundleStats.map((b) => [b.bundleId, b._count._all]))
+    const partialMap = Object.fromEntries(partialStats.map((b) => [b.bundleId, b._count._all]))
 
     return NextResponse.json({
       overview: {
@@ -111,14 +119,15 @@ export async function GET(request: NextRequest) {
         productId: e.productId,
         expiresAt: e.expiresAt
       })),
-      bundleClaims: bundleStats.map((b) => ({
-        bundleId: b.bundleId,
-        bundleName: bundleMap[b.bundleId] || 'Unknown',
-        claimed: b._count._all
+      bundleClaims: bundleIds.map((bundleId) => ({
+        bundleId,
+        bundleName: bundleMap[bundleId] || 'Unknown',
+        claimed: claimedMap[bundleId] || 0,
+        partiallyClaimed: partialMap[bundleId] || 0
       }))
     })
   } catch (error) {
     console.error('Error fetching analytics:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { rotateApiClientKey } from '@/lib/services/api-client.service'
+
+/**
+ * POST /api/v1/admin/api-clients/:id/rotate
+ *
+ * Issue a replacement key. The old key stops working immediately
+ * and the new key is only shown in this response.
+ */
+export const POST = withAdminAuth('apps:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+  const clientId = parseInt(id, 10)
+
+  if (isNaN(clientId)) {
+    return NextResponse.json({ error: 'Invalid API client ID' }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.apiClient.findUnique({ where: { id: clientId } })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'API client not found' }, { status: 404 })
+    }
+
+    if (existing.revokedAt) {
+      return NextResponse.json(
+        { error: 'Cannot rotate a revoked API client' },
+        { status: 400 }
+      )
+    }
+
+    const { client, apiKey } = await rotateApiClientKey(clientId)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'api_client_rotated',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { clientId, name: client.name, appKey: client.appKey }
+      }
+    })
+
+    return NextResponse.json({ client, apiKey })
+  } catch (error) {
+    console.error('Error rotating API client key:', error)
+
+    if (error instanceof Error && error.message === 'API client not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
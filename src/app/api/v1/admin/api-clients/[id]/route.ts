@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { revokeApiClient, updateApiClient } from '@/lib/services/api-client.service'
+import { API_SCOPES, ApiScope } from '@/lib/types'
+
+/**
+ * PUT /api/v1/admin/api-clients/:id
+ *
+ * Update an API client's name, app or scopes
+ */
+export const PUT = withAdminAuth('apps:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+  const clientId = parseInt(id, 10)
+
+  if (isNaN(clientId)) {
+    return NextResponse.json({ error: 'Invalid API client ID' }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json()
+    const { name, appKey, scopes } = body
+
+    if (scopes !== undefined) {
+      if (!Array.isArray(scopes) || scopes.length === 0) {
+        return NextResponse.json(
+          { error: 'At least one scope is required' },
+          { status: 400 }
+        )
+      }
+
+      const invalidScopes = scopes.filter((scope: string) => !API_SCOPES.includes(scope as ApiScope))
+      if (invalidScopes.length > 0) {
+        return NextResponse.json(
+          { error: `Invalid scopes: ${invalidScopes.join(', ')}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const client = await updateApiClient(clientId, {
+      ...(name !== undefined && { name }),
+      ...(appKey !== undefined && { appKey: appKey || null }),
+      ...(scopes !== undefined && { scopes })
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'api_client_updated',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { clientId, name, appKey, scopes }
+      }
+    })
+
+    return NextResponse.json({ client })
+  } catch (error) {
+    console.error('Error updating API client:', error)
+
+    if (error instanceof Error && error.message === 'API client not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * DELETE /api/v1/admin/api-clients/:id
+ *
+ * Revoke an API client. The key stops working immediately.
+ */
+export const DELETE = withAdminAuth('apps:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+  const clientId = parseInt(id, 10)
+
+  if (isNaN(clientId)) {
+    return NextResponse.json({ error: 'Invalid API client ID' }, { status: 400 })
+  }
+
+  try {
+    const client = await revokeApiClient(clientId)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'api_client_revoked',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { clientId, name: client.name, appKey: client.appKey }
+      }
+    })
+
+    return NextResponse.json({ client })
+  } catch (error) {
+    console.error('Error revoking API client:', error)
+
+    if (error instanceof Error && error.message === 'API client not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
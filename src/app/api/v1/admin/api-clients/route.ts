@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { createApiClient, listApiClients } from '@/lib/services/api-client.service'
+import { API_SCOPES, ApiScope } from '@/lib/types'
+
+/**
+ * GET /api/v1/admin/api-clients
+ *
+ * List all API clients (keys are never returned)
+ */
+export const GET = withAdminAuth('apps:read', async () => {
+  try {
+    const clients = await listApiClients()
+    return NextResponse.json({ clients, availableScopes: API_SCOPES })
+  } catch (error) {
+    console.error('Error fetching API clients:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/v1/admin/api-clients
+ *
+ * Issue a new API key. The key is only shown in this response.
+ */
+export const POST = withAdminAuth('apps:write', async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const body = await request.json()
+    const { name, appKey, scopes } = body
+
+    if (!name || !Array.isArray(scopes) || scopes.length === 0) {
+      return NextResponse.json(
+        { error: 'Name and at least one scope are required' },
+        { status: 400 }
+      )
+    }
+
+    const invalidScopes = scopes.filter((scope: string) => !API_SCOPES.includes(scope as ApiScope))
+    if (invalidScopes.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid scopes: ${invalidScopes.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { client, apiKey } = await createApiClient({
+      name,
+      appKey,
+      scopes,
+      createdBy: admin.email
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'api_client_created',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { clientId: client.id, name, appKey, scopes }
+      }
+    })
+
+    return NextResponse.json({ client, apiKey }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating API client:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { rotateSigningSecret, toConnectedAppSummary } from '@/lib/services/connected-app.service'
+
+/**
+ * POST /api/v1/admin/apps/:id/rotate-secret
+ *
+ * Issue a new signing secret for a connected app. The old secret stops
+ * working immediately; the new one is only returned in this response.
+ */
+export const POST = withAdminAuth('apps:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const existing = await prisma.connectedApp.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 })
+    }
+
+    const { app, signingSecret } = await rotateSigningSecret(id)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'connected_app_secret_rotated',
+        productIds: app.productIds,
+        adminEmail: admin.email,
+        details: { appKey: id, hadSecret: !!existing.signingSecret }
+      }
+    })
+
+    return NextResponse.json({ app: toConnectedAppSummary(app), signingSecret })
+  } catch (error) {
+    console.error('Error rotating signing secret:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
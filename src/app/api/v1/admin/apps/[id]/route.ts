@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { toConnectedAppSummary, validateConnectedAppFields } from '@/lib/services/connected-app.service'
+
+/**
+ * PUT /api/v1/admin/apps/:id
+ */
+export const PUT = withAdminAuth('apps:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const body = await request.json()
+    const {
+      name,
+      baseUrl,
+      syncPath,
+      cacheClearPath,
+      deleteUserPath,
+      productIds,
+      isActive
+    } = body
+
+    const validationError = validateConnectedAppFields({ baseUrl, syncPath, cacheClearPath, deleteUserPath, productIds })
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const existing = await prisma.connectedApp.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 })
+    }
+
+    const app = await prisma.connectedApp.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(baseUrl !== undefined && { baseUrl: baseUrl.replace(/\/+$/, '') }),
+        ...(syncPath && { syncPath }),
+        ...(cacheClearPath && { cacheClearPath }),
+        ...(deleteUserPath && { deleteUserPath }),
+        ...(productIds !== undefined && { productIds }),
+        ...(isActive !== undefined && { isActive })
+      }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'connected_app_updated',
+        productIds: app.productIds,
+        adminEmail: admin.email,
+        details: { appKey: id, ...body }
+      }
+    })
+
+    return NextResponse.json({ app: toConnectedAppSummary(app) })
+  } catch (error) {
+    console.error('Error updating connected app:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * DELETE /api/v1/admin/apps/:id (disable)
+ *
+ * Disabled apps stop receiving syncs and can no longer report subscriptions.
+ * Outbox rows already queued for the app fail until it is re-enabled.
+ */
+export const DELETE = withAdminAuth('apps:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const existing = await prisma.connectedApp.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 })
+    }
+
+    const app = await prisma.connectedApp.update({
+      where: { id },
+      data: { isActive: false }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'connected_app_disabled',
+        productIds: app.productIds,
+        adminEmail: admin.email,
+        details: { appKey: id }
+      }
+    })
+
+    return NextResponse.json({ app: toConnectedAppSummary(app) })
+  } catch (error) {
+    console.error('Error disabling connected app:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import {
+  generateSigningSecret,
+  toConnectedAppSummary,
+  validateConnectedAppFields
+} from '@/lib/services/connected-app.service'
+
+/**
+ * GET /api/v1/admin/apps
+ *
+ * List all connected apps with pending sync counts
+ */
+export const GET = withAdminAuth('apps:read', async () => {
+  try {
+    const [apps, pendingCounts] = await Promise.all([
+      prisma.connectedApp.findMany({ orderBy: { id: 'asc' } }),
+      prisma.syncOutbox.groupBy({
+        by: ['appKey'],
+        where: { status: 'pending' },
+        _count: { _all: true }
+      })
+    ])
+
+    const pendingByApp = new Map(pendingCounts.map((row) => [row.appKey, row._count._all]))
+
+    return NextResponse.json({
+      apps: apps.map((app) => ({
+        ...toConnectedAppSummary(app),
+        pendingSyncs: pendingByApp.get(app.id) || 0
+      }))
+    })
+  } catch (error) {
+    console.error('Error fetching connected apps:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * POST /api/v1/admin/apps
+ *
+ * Register a new connected app
+ * The signing secret is only returned here (and on rotation).
+ */
+export const POST = withAdminAuth('apps:write', async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const body = await request.json()
+    const {
+      id,
+      name,
+      baseUrl,
+      syncPath,
+      cacheClearPath,
+      deleteUserPath,
+      productIds = [],
+      isActive = true
+    } = body
+
+    if (!id || !name || !baseUrl) {
+      return NextResponse.json(
+        { error: 'ID, name and base URL are required' },
+        { status: 400 }
+      )
+    }
+
+    const validationError = validateConnectedAppFields({ id, baseUrl, syncPath, cacheClearPath, deleteUserPath, productIds })
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const existing = await prisma.connectedApp.findUnique({ where: { id } })
+    if (existing) {
+      return NextResponse.json(
+        { error: 'App with this ID already exists' },
+        { status: 409 }
+      )
+    }
+
+    const app = await prisma.connectedApp.create({
+      data: {
+        id,
+        name,
+        baseUrl: baseUrl.replace(/\/+$/, ''),
+        ...(syncPath && { syncPath }),
+        ...(cacheClearPath && { cacheClearPath }),
+        ...(deleteUserPath && { deleteUserPath }),
+        productIds,
+        signingSecret: generateSigningSecret(),
+        isActive
+      }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'connected_app_created',
+        productIds,
+        adminEmail: admin.email,
+        details: { appKey: id, name, baseUrl: app.baseUrl }
+      }
+    })
+
+    return NextResponse.json(
+      { app: toConnectedAppSummary(app), signingSecret: app.signingSecret },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error creating connected app:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { startAdminSession, verifyAdminOrPreAuth } from '@/lib/middleware/admin-auth'
+import { enableTwoFactor } from '@/lib/services/two-factor.service'
+
+/**
+ * POST /api/v1/admin/auth/2fa/enable
+ *
+ * Finish two-factor enrolment with a code from the authenticator app
+ * Returns one-time recovery codes, and a session when enrolling during login.
+ * Body: { code: string }
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAdminOrPreAuth(request, 'enrol')
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  const { admin, preAuth } = authResult
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { code } = body as { code?: string }
+
+    if (!code) {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 })
+    }
+
+    const { recoveryCodes } = await enableTwoFactor(admin.id, code)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_2fa_enabled',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { adminUserId: admin.id, duringLogin: preAuth }
+      }
+    })
+
+    if (preAuth) {
+      return startAdminSession(request, admin, { success: true, recoveryCodes, user: admin })
+    }
+
+    return NextResponse.json({ success: true, recoveryCodes })
+  } catch (error) {
+    console.error('Error enabling two-factor authentication:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { regenerateRecoveryCodes } from '@/lib/services/two-factor.service'
+
+/**
+ * POST /api/v1/admin/auth/2fa/recovery-codes
+ *
+ * Replace the signed-in admin's recovery codes; the old ones stop working
+ * Body: { code: string }
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  const { admin } = authResult
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { code } = body as { code?: string }
+
+    if (!code) {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 })
+    }
+
+    const { recoveryCodes } = await regenerateRecoveryCodes(admin.id, code)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_recovery_codes_regenerated',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { adminUserId: admin.id }
+      }
+    })
+
+    return NextResponse.json({ success: true, recoveryCodes })
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { disableTwoFactor, getTwoFactorStatus } from '@/lib/services/two-factor.service'
+
+/**
+ * GET /api/v1/admin/auth/2fa
+ *
+ * The signed-in admin's two-factor status
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  try {
+    return NextResponse.json(await getTwoFactorStatus(authResult.admin.id))
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/v1/admin/auth/2fa
+ *
+ * Turn off two-factor authentication for the signed-in admin
+ * Body: { password: string }
+ */
+export async function DELETE(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  const { admin } = authResult
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { password } = body as { password?: string }
+
+    if (!password) {
+      return NextResponse.json({ error: 'password is required' }, { status: 400 })
+    }
+
+    await disableTwoFactor(admin.id, password)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_2fa_disabled',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { adminUserId: admin.id }
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+}
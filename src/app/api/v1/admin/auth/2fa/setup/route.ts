@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAdminOrPreAuth } from '@/lib/middleware/admin-auth'
+import { beginTwoFactorEnrolment } from '@/lib/services/two-factor.service'
+
+/**
+ * POST /api/v1/admin/auth/2fa/setup
+ *
+ * Start two-factor enrolment: a new secret and its QR code for an authenticator app
+ * Accepts a session or, when an owner requires 2FA, the pre-auth token from login.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAdminOrPreAuth(request, 'enrol')
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  try {
+    const enrolment = await beginTwoFactorEnrolment(authResult.admin.id)
+    return NextResponse.json({ success: true, ...enrolment })
+  } catch (error) {
+    console.error('Error starting two-factor enrolment:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+}
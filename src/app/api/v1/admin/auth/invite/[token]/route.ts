@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { startAdminSession } from '@/lib/middleware/admin-auth'
+import { acceptAdminInvite, getAdminInvite } from '@/lib/services/admin-team.service'
+
+/**
+ * GET /api/v1/admin/auth/invite/:token
+ *
+ * Who an invitation is for, so the accept page can greet them
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params
+
+  try {
+    const invite = await getAdminInvite(token)
+
+    return NextResponse.json({
+      success: true,
+      email: invite.email,
+      name: invite.name,
+      role: invite.role,
+      invitedBy: invite.invitedBy
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json({ success: false, error: message }, { status: 400 })
+  }
+}
+
+/**
+ * POST /api/v1/admin/auth/invite/:token
+ *
+ * Accept an invitation: create the admin account and sign in
+ * Body: { password: string, name?: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { password, name } = body as { password?: string; name?: string }
+
+    const { user, invitedBy } = await acceptAdminInvite(token, { password, name })
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_invite_accepted',
+        productIds: [],
+        adminEmail: user.email,
+        details: { adminUserId: user.id, role: user.role, invitedBy }
+      }
+    })
+
+    return startAdminSession(request, user, { success: true, user })
+  } catch (error) {
+    console.error('Error accepting admin invite:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json({ success: false, error: message }, { status: 400 })
+  }
+}
@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { authenticateAdmin } from '@/lib/services/auth.service'
+import { getRequestClient, startAdminSession, tooManyAttemptsResponse } from '@/lib/middleware/admin-auth'
+import { clearFailedAttempts, reserveAttempt } from '@/lib/services/login-throttle.service'
+import { recordAuthFailure } from '@/lib/services/security-event.service'
+import { normalizeEmail } from '@/lib/email'
 
 /**
  * POST /api/v1/admin/auth/login
  *
- * Admin login endpoint
+ * Admin login endpoint; sets the session cookies
+ * With 2FA enabled or required, responds with a pre-auth token and the
+ * next step instead of a session: POST it to /login/verify with a code,
+ * or enrol through /2fa/setup and /2fa/enable.
+ * Repeated failures lock the account or IP out, with a 429 and Retry-After.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -18,19 +26,37 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const client = getRequestClient(request)
+    const subject = { ipAddress: client.ipAddress, account: normalizeEmail(email) }
+    const lockout = await reserveAttempt('login', subject)
+
+    if (lockout) {
+      return tooManyAttemptsResponse(lockout)
+    }
+
     const result = await authenticateAdmin(email, password)
 
     if (!result) {
+      await recordAuthFailure('login', subject, { ...client, email: subject.account })
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
       )
     }
 
-    return NextResponse.json({
+    await clearFailedAttempts('login', subject)
+
+    if ('preAuthToken' in result) {
+      return NextResponse.json({
+        success: true,
+        twoFactor: result.twoFactor,
+        preAuthToken: result.preAuthToken
+      })
+    }
+
+    return startAdminSession(request, result.user, {
       success: true,
-      user: result.user,
-      token: result.token
+      user: result.user
     })
   } catch (error) {
     console.error('Login error:', error)
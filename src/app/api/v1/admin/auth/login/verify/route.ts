@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { getAdminById, verifyPreAuthToken } from '@/lib/services/auth.service'
+import { getRequestClient, startAdminSession, tooManyAttemptsResponse } from '@/lib/middleware/admin-auth'
+import { TWO_FACTOR_CODE_ERRORS, verifyTwoFactorCode } from '@/lib/services/two-factor.service'
+import { clearFailedAttempts, reserveAttempt } from '@/lib/services/login-throttle.service'
+import { recordAuthFailure } from '@/lib/services/security-event.service'
+
+/**
+ * POST /api/v1/admin/auth/login/verify
+ *
+ * Second login step: exchange a pre-auth token and a TOTP or recovery code for a session
+ * Body: { preAuthToken: string, code: string }
+ * Repeated wrong codes lock the account or IP out, with a 429 and Retry-After.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { preAuthToken, code } = body as { preAuthToken?: string; code?: string }
+
+    if (!preAuthToken || !code) {
+      return NextResponse.json({ error: 'preAuthToken and code are required' }, { status: 400 })
+    }
+
+    const payload = verifyPreAuthToken(preAuthToken)
+
+    if (!payload || payload.step !== 'verify') {
+      return NextResponse.json({ error: 'Sign-in expired; enter your password again' }, { status: 401 })
+    }
+
+    const user = await getAdminById(payload.userId)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Sign-in expired; enter your password again' }, { status: 401 })
+    }
+
+    const client = getRequestClient(request)
+    const subject = { ipAddress: client.ipAddress, account: String(user.id) }
+    const lockout = await reserveAttempt('two_factor', subject)
+
+    if (lockout) {
+      return tooManyAttemptsResponse(lockout)
+    }
+
+    const { method, recoveryCodesRemaining } = await verifyTwoFactorCode(user.id, code).catch(async (error) => {
+      if (error instanceof Error && TWO_FACTOR_CODE_ERRORS.includes(error.message)) {
+        await recordAuthFailure('two_factor', subject, { ...client, email: user.email, adminUserId: user.id })
+      }
+      throw error
+    })
+
+    await clearFailedAttempts('two_factor', subject)
+
+    if (method === 'recovery_code') {
+      await prisma.auditLog.create({
+        data: {
+          action: 'admin_recovery_code_used',
+          productIds: [],
+          adminEmail: user.email,
+          details: { adminUserId: user.id, recoveryCodesRemaining }
+        }
+      })
+    }
+
+    return startAdminSession(request, user, {
+      success: true,
+      user,
+      recoveryCodesRemaining
+    })
+  } catch (error) {
+    console.error('Two-factor login error:', error)
+    const message = error instanceof Error ? error.message : ''
+
+    if (TWO_FACTOR_CODE_ERRORS.includes(message)) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
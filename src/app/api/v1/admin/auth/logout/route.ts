@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { clearAdminSessionCookies, verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { revokeAdminSession } from '@/lib/services/admin-session.service'
+
+/**
+ * POST /api/v1/admin/auth/logout
+ *
+ * End the current session and clear its cookies
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request)
+
+  // Clear the cookies even when the session has already expired
+  if ('error' in authResult) {
+    return clearAdminSessionCookies(NextResponse.json({ success: true }))
+  }
+
+  try {
+    await revokeAdminSession(authResult.admin.id, authResult.session.id)
+    return clearAdminSessionCookies(NextResponse.json({ success: true }))
+  } catch (error) {
+    console.error('Logout error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { ROLE_PERMISSIONS } from '@/lib/permissions'
+
+/**
+ * GET /api/v1/admin/auth/me
+ *
+ * The signed-in admin and the permissions their role grants
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  return NextResponse.json({
+    user: authResult.admin,
+    permissions: ROLE_PERMISSIONS[authResult.admin.role]
+  })
+}
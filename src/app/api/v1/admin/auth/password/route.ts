@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { startAdminSession, verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { updateAdminPassword } from '@/lib/services/auth.service'
+import { requirePassword } from '@/lib/services/admin-team.service'
+
+/**
+ * POST /api/v1/admin/auth/password
+ *
+ * Change the signed-in admin's own password
+ * Signs out every session, then starts a new one for this browser.
+ * Body: { currentPassword: string, newPassword: string }
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  const { admin } = authResult
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { currentPassword, newPassword } = body as { currentPassword?: string; newPassword?: string }
+
+    if (!currentPassword) {
+      return NextResponse.json({ error: 'currentPassword is required' }, { status: 400 })
+    }
+
+    const updated = await updateAdminPassword(admin.id, currentPassword, requirePassword(newPassword))
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Current password is incorrect' }, { status: 400 })
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_password_changed',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { adminUserId: admin.id }
+      }
+    })
+
+    return startAdminSession(request, admin, { success: true })
+  } catch (error) {
+    console.error('Error changing admin password:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { completeAdminPasswordReset } from '@/lib/services/admin-team.service'
+
+/**
+ * POST /api/v1/admin/auth/reset-password
+ *
+ * Set a new password from an emailed reset link
+ * Body: { token: string, password: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { token, password } = body as { token?: string; password?: string }
+
+    if (!token) {
+      return NextResponse.json({ success: false, error: 'token is required' }, { status: 400 })
+    }
+
+    const user = await completeAdminPasswordReset(token, password)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_password_reset',
+        productIds: [],
+        adminEmail: user.email,
+        details: { adminUserId: user.id }
+      }
+    })
+
+    return NextResponse.json({ success: true, email: user.email })
+  } catch (error) {
+    console.error('Error resetting admin password:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json({ success: false, error: message }, { status: 400 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { revokeAdminSession } from '@/lib/services/admin-session.service'
+
+/**
+ * DELETE /api/v1/admin/auth/sessions/:id
+ *
+ * Sign out one of the signed-in admin's sessions
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAdminAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  const { admin } = authResult
+  const { id } = await params
+
+  try {
+    await revokeAdminSession(admin.id, parseInt(id, 10))
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_session_revoked',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { adminUserId: admin.id, sessionId: parseInt(id, 10) }
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking admin session:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'Session not found' ? 404 : 400 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { listAdminSessions, revokeAdminSessions } from '@/lib/services/admin-session.service'
+
+/**
+ * GET /api/v1/admin/auth/sessions
+ *
+ * The signed-in admin's active sessions, marking the current one
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  try {
+    const sessions = await listAdminSessions(authResult.admin.id)
+
+    return NextResponse.json({
+      sessions: sessions.map((session) => ({ ...session, current: session.id === authResult.session.id }))
+    })
+  } catch (error) {
+    console.error('Error listing admin sessions:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/v1/admin/auth/sessions
+ *
+ * Sign out every other session of the signed-in admin
+ */
+export async function DELETE(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  const { admin, session } = authResult
+
+  try {
+    const revoked = await revokeAdminSessions(admin.id, { exceptId: session.id })
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_sessions_revoked',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { adminUserId: admin.id, revoked }
+      }
+    })
+
+    return NextResponse.json({ success: true, revoked })
+  } catch (error) {
+    console.error('Error revoking admin sessions:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
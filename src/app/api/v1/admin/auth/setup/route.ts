@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminUser, hasAnyAdmin } from '@/lib/services/auth.service'
+import { getRequestClient, tooManyAttemptsResponse } from '@/lib/middleware/admin-auth'
+import { clearFailedAttempts, reserveAttempt } from '@/lib/services/login-throttle.service'
+import { recordAuthFailure } from '@/lib/services/security-event.service'
 
 /**
  * POST /api/v1/admin/auth/setup
  *
  * Initial admin setup - only works when no admin exists
+ * Repeated wrong setup keys lock the IP out, with a 429 and Retry-After.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -20,15 +24,26 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { email, password, name, setupKey } = body
 
+    const client = getRequestClient(request)
+    const subject = { ipAddress: client.ipAddress }
+    const lockout = await reserveAttempt('setup', subject)
+
+    if (lockout) {
+      return tooManyAttemptsResponse(lockout)
+    }
+
     // Verify setup key
     const expectedSetupKey = process.env.ADMIN_SETUP_KEY
     if (!expectedSetupKey || setupKey !== expectedSetupKey) {
+      await recordAuthFailure('setup', subject, { ...client, email: typeof email === 'string' ? email : null })
       return NextResponse.json(
         { error: 'Invalid setup key' },
         { status: 401 }
       )
     }
 
+    await clearFailedAttempts('setup', subject)
+
     if (!email || !password) {
       return NextResponse.json(
         { error: 'Email and password are required' },
@@ -43,7 +58,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const user = await createAdminUser(email, password, name)
+    const user = await createAdminUser(email, password, name, 'owner')
 
     return NextResponse.json({
       success: true,
@@ -1,19 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/db'
-import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
 
 /**
  * GET /api/v1/admin/bundles/:id
  */
-export async function GET(
+export const GET = withAdminAuth('bundles:read', async (
   request: NextRequest,
+  admin: AdminUser,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+) => {
   const { id } = await params
 
   try {
@@ -43,20 +40,16 @@ export async function GET(
     console.error('Error fetching bundle:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
 
 /**
  * PUT /api/v1/admin/bundles/:id
  */
-export async function PUT(
+export const PUT = withAdminAuth('bundles:write', async (
   request: NextRequest,
+  admin: AdminUser,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+) => {
   const { id } = await params
 
   try {
@@ -115,7 +108,7 @@ export async function PUT(
       data: {
         action: 'bundle_updated',
         productIds: bundle.productIds,
-        adminEmail: authResult.admin.email,
+        adminEmail: admin.email,
         details: { bundleId: bundle.id, updates: body }
       }
     })
@@ -125,20 +118,16 @@ export async function PUT(
     console.error('Error updating bundle:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
 
 /**
  * DELETE /api/v1/admin/bundles/:id (soft delete)
  */
-export async function DELETE(
+export const DELETE = withAdminAuth('bundles:write', async (
   request: NextRequest,
+  admin: AdminUser,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+) => {
   const { id } = await params
 
   try {
@@ -151,7 +140,7 @@ export async function DELETE(
       data: {
         action: 'bundle_deleted',
         productIds: bundle.productIds,
-        adminEmail: authResult.admin.email,
+        adminEmail: admin.email,
         details: { bundleId: bundle.id }
       }
     })
@@ -161,4 +150,4 @@ export async function DELETE(
     console.error('Error deleting bundle:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
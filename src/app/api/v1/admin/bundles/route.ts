@@ -1,18 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/db'
-import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
 
 /**
  * GET /api/v1/admin/bundles
  *
  * List all bundles with stats
  */
-export async function GET(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+export const GET = withAdminAuth('bundles:read', async () => {
   try {
     const bundles = await prisma.bundle.findMany({
       orderBy: { createdAt: 'desc' },
@@ -44,19 +40,14 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching bundles:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
 
 /**
  * POST /api/v1/admin/bundles
  *
  * Create a new bundle
  */
-export async function POST(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+export const POST = withAdminAuth('bundles:write', async (request: NextRequest, admin: AdminUser) => {
   try {
     const body = await request.json()
     const {
@@ -120,7 +111,7 @@ export async function POST(request: NextRequest) {
       data: {
         action: 'bundle_created',
         productIds,
-        adminEmail: authResult.admin.email,
+        adminEmail: admin.email,
         details: { bundleId: bundle.id, name, stripePriceId }
       }
     })
@@ -130,4 +121,4 @@ export async function POST(request: NextRequest) {
     console.error('Error creating bundle:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
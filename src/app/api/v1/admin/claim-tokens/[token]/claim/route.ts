@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { CLAIM_ERROR_PREFIXES, processClaim } from '@/lib/services/entitlements.service'
+import { requestEmailVerifications } from '@/lib/services/email-verification.service'
+
+/**
+ * POST /api/v1/admin/claim-tokens/:token/claim
+ *
+ * Claim a bundle on the buyer's behalf with admin-entered product emails
+ * Emails other than the purchase email still need verifying by their owner.
+ * Body: { products: { [productId]: { email: string, formData?: object } } }
+ */
+export const POST = withAdminAuth('customers:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  const { token } = await params
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { products: productData } = body as {
+      products: Record<string, { email: string; formData?: Record<string, unknown> }>
+    }
+
+    if (!productData || Object.keys(productData).length === 0) {
+      return NextResponse.json({ error: 'No product data provided' }, { status: 400 })
+    }
+
+    const result = await processClaim(token, productData)
+
+    // The claim has committed: a failure from here on mustn't report it as failed
+    let verificationSent = true
+    const verifications = await requestEmailVerifications(result.identity.id, result.unverifiedEmails)
+      .catch((error) => {
+        console.error('Error requesting email verifications:', error)
+        verificationSent = false
+        return []
+      })
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'claim_token_admin_claimed',
+        identityId: result.identity.id,
+        productIds: result.activatedProductIds,
+        adminEmail: admin.email,
+        details: {
+          token,
+          bundleId: result.bundle.id,
+          bundleName: result.bundle.name,
+          emails: Object.fromEntries(
+            Object.entries(productData).map(([productId, data]) => [productId, data.email])
+          )
+        }
+      }
+    })
+
+    return NextResponse.json({ success: true, verifications, verificationSent })
+  } catch (error) {
+    console.error('Error claiming token for buyer:', error)
+    const message = error instanceof Error ? error.message : ''
+
+    if (message === 'Invalid claim token') {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    if (CLAIM_ERROR_PREFIXES.some((prefix) => message.startsWith(prefix))) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { CLAIM_TOKEN_ERRORS, extendClaimToken } from '@/lib/services/claim-token.service'
+
+/**
+ * POST /api/v1/admin/claim-tokens/:token/extend
+ *
+ * Push out a token's expiry. Works on expired tokens too.
+ * Body: { expiresAt: ISO date } or { days: number } (added to now or the current expiry, whichever is later)
+ */
+export const POST = withAdminAuth('customers:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  const { token } = await params
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    let expiresAt: Date
+
+    if (body.expiresAt) {
+      expiresAt = new Date(body.expiresAt)
+    } else if (Number.isInteger(body.days) && body.days > 0) {
+      const current = await prisma.claimToken.findUnique({
+        where: { token },
+        select: { expiresAt: true }
+      })
+      const from = current && current.expiresAt > new Date() ? current.expiresAt : new Date()
+      expiresAt = new Date(from.getTime() + body.days * 24 * 60 * 60 * 1000)
+    } else {
+      return NextResponse.json(
+        { error: 'expiresAt or a positive number of days is required' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(expiresAt.getTime())) {
+      return NextResponse.json({ error: 'expiresAt must be a valid date' }, { status: 400 })
+    }
+
+    const { previousExpiresAt, claimToken } = await extendClaimToken(token, expiresAt)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'claim_token_extended',
+        identityId: claimToken.identityId,
+        productIds: [],
+        adminEmail: admin.email,
+        details: {
+          token,
+          bundleId: claimToken.bundleId,
+          previousExpiresAt: previousExpiresAt.toISOString(),
+          expiresAt: claimToken.expiresAt.toISOString()
+        }
+      }
+    })
+
+    return NextResponse.json({ success: true, claimToken })
+  } catch (error) {
+    console.error('Error extending claim token:', error)
+    const message = error instanceof Error ? error.message : ''
+
+    if (message === 'Claim token not found') {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    if (CLAIM_TOKEN_ERRORS.includes(message)) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { CLAIM_TOKEN_ERRORS, reissueClaimToken } from '@/lib/services/claim-token.service'
+
+/**
+ * POST /api/v1/admin/claim-tokens/:token/reissue
+ *
+ * Void the token, issue a new one for the same purchase and email the new link
+ */
+export const POST = withAdminAuth('customers:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  const { token } = await params
+
+  try {
+    const { claimToken, emailSent } = await reissueClaimToken(token)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'claim_token_reissued',
+        identityId: claimToken.identityId,
+        productIds: [],
+        adminEmail: admin.email,
+        details: {
+          previousToken: token,
+          token: claimToken.token,
+          bundleId: claimToken.bundleId,
+          expiresAt: claimToken.expiresAt.toISOString(),
+          emailSent
+        }
+      }
+    })
+
+    return NextResponse.json({ success: true, claimToken, emailSent })
+  } catch (error) {
+    console.error('Error reissuing claim token:', error)
+    const message = error instanceof Error ? error.message : ''
+
+    if (message === 'Claim token not found') {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    if (CLAIM_TOKEN_ERRORS.includes(message)) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
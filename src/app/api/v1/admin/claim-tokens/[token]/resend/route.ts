@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { CLAIM_TOKEN_ERRORS, resendClaimEmail } from '@/lib/services/claim-token.service'
+
+/**
+ * POST /api/v1/admin/claim-tokens/:token/resend
+ *
+ * Resend the claim link email to the purchase email
+ */
+export const POST = withAdminAuth('customers:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  const { token } = await params
+
+  try {
+    const { claimToken, emailSent } = await resendClaimEmail(token)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'claim_token_resent',
+        identityId: claimToken.identityId,
+        productIds: [],
+        adminEmail: admin.email,
+        details: { token, bundleId: claimToken.bundleId, to: claimToken.purchaseEmail, emailSent }
+      }
+    })
+
+    if (!emailSent) {
+      return NextResponse.json({ error: 'Failed to send claim email' }, { status: 502 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error resending claim email:', error)
+    const message = error instanceof Error ? error.message : ''
+
+    if (message === 'Claim token not found') {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    if (CLAIM_TOKEN_ERRORS.includes(message)) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
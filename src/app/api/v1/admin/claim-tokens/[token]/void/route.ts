@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { CLAIM_TOKEN_ERRORS, voidClaimToken } from '@/lib/services/claim-token.service'
+
+/**
+ * POST /api/v1/admin/claim-tokens/:token/void
+ *
+ * Invalidate a token so the link can no longer be used
+ * Body: { reason?: string }
+ */
+export const POST = withAdminAuth('customers:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  const { token } = await params
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const reason = body.reason || 'Voided by admin'
+
+    const claimToken = await voidClaimToken(token, reason)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'claim_token_voided',
+        identityId: claimToken.identityId,
+        productIds: [],
+        adminEmail: admin.email,
+        details: { token, bundleId: claimToken.bundleId, reason }
+      }
+    })
+
+    return NextResponse.json({ success: true, claimToken })
+  } catch (error) {
+    console.error('Error voiding claim token:', error)
+    const message = error instanceof Error ? error.message : ''
+
+    if (message === 'Claim token not found') {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    if (CLAIM_TOKEN_ERRORS.includes(message)) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
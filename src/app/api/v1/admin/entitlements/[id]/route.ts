@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
 import { revokeEntitlementById } from '@/lib/services/entitlements.service'
 
 /**
@@ -8,15 +9,11 @@ import { revokeEntitlementById } from '@/lib/services/entitlements.service'
  * Revoke a specific entitlement by ID
  * This allows admin to revoke individual entitlements without affecting others
  */
-export async function DELETE(
+export const DELETE = withAdminAuth('customers:write', async (
   request: NextRequest,
+  admin: AdminUser,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+) => {
   const { id } = await params
   const entitlementId = parseInt(id, 10)
 
@@ -44,7 +41,7 @@ export async function DELETE(
     const result = await revokeEntitlementById({
       entitlementId,
       reason: reason || 'Revoked by admin',
-      adminEmail: authResult.admin.email
+      adminEmail: admin.email
     })
 
     return NextResponse.json({
@@ -60,4 +57,4 @@ export async function DELETE(
       { status: message === 'Entitlement not found' ? 404 : 500 }
     )
   }
-}
+})
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { forceVerifyIdentityEmail } from '@/lib/services/email-verification.service'
+
+/**
+ * POST /api/v1/admin/identity-emails/:id/verify
+ *
+ * Mark a product email verified without the owner confirming it
+ */
+export const POST = withAdminAuth('customers:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const identityEmail = await forceVerifyIdentityEmail(parseInt(id), admin.email)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'email_force_verified',
+        identityId: identityEmail.identityId,
+        productIds: [identityEmail.productId],
+        adminEmail: admin.email,
+        details: { email: identityEmail.email }
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error verifying identity email:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'Identity email not found' ? 404 : 400 }
+    )
+  }
+})
@@ -1,24 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/db'
-import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
 
 /**
  * GET /api/v1/admin/logs
  *
- * Get audit logs and webhook logs
+ * Get audit logs, webhook logs and security events
  */
-export async function GET(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+export const GET = withAdminAuth('logs:read', async (request: NextRequest) => {
   const searchParams = request.nextUrl.searchParams
-  const type = searchParams.get('type') || 'audit' // 'audit' or 'webhook'
+  const type = searchParams.get('type') || 'audit' // 'audit', 'webhook' or 'security'
   const limit = parseInt(searchParams.get('limit') || '50')
   const offset = parseInt(searchParams.get('offset') || '0')
   const action = searchParams.get('action')
   const status = searchParams.get('status')
+  const event = searchParams.get('event')
 
   try {
     if (type === 'webhook') {
@@ -38,6 +34,23 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ logs, total, limit, offset })
     }
 
+    if (type === 'security') {
+      const where: Record<string, unknown> = {}
+      if (event) where.type = event
+
+      const [logs, total] = await Promise.all([
+        prisma.securityEvent.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          take: limit,
+          skip: offset
+        }),
+        prisma.securityEvent.count({ where })
+      ])
+
+      return NextResponse.json({ logs, total, limit, offset })
+    }
+
     // Audit logs
     const where: Record<string, unknown> = {}
     if (action) where.action = action
@@ -57,4 +70,4 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching logs:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
@@ -1,19 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/db'
-import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
 
 /**
  * GET /api/v1/admin/products/:id
  */
-export async function GET(
+export const GET = withAdminAuth('products:read', async (
   request: NextRequest,
+  admin: AdminUser,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+) => {
   const { id } = await params
 
   try {
@@ -38,20 +35,16 @@ export async function GET(
     console.error('Error fetching product:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
 
 /**
  * PUT /api/v1/admin/products/:id
  */
-export async function PUT(
+export const PUT = withAdminAuth('products:write', async (
   request: NextRequest,
+  admin: AdminUser,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+) => {
   const { id } = await params
 
   try {
@@ -63,10 +56,19 @@ export async function PUT(
       requiresOngoingAccess,
       formSchema,
       zapierWebhookUrl,
+      dunningGraceDays,
+      foldEmailAliases,
       isActive,
       displayOrder
     } = body
 
+    if (dunningGraceDays !== undefined && (!Number.isInteger(dunningGraceDays) || dunningGraceDays < 0)) {
+      return NextResponse.json(
+        { error: 'Dunning grace days must be a whole number of days' },
+        { status: 400 }
+      )
+    }
+
     const product = await prisma.product.update({
       where: { id },
       data: {
@@ -76,6 +78,8 @@ export async function PUT(
         ...(requiresOngoingAccess !== undefined && { requiresOngoingAccess }),
         ...(formSchema !== undefined && { formSchema }),
         ...(zapierWebhookUrl !== undefined && { zapierWebhookUrl }),
+        ...(dunningGraceDays !== undefined && { dunningGraceDays }),
+        ...(foldEmailAliases !== undefined && { foldEmailAliases }),
         ...(isActive !== undefined && { isActive }),
         ...(displayOrder !== undefined && { displayOrder })
       }
@@ -85,7 +89,7 @@ export async function PUT(
       data: {
         action: 'product_updated',
         productIds: [id],
-        adminEmail: authResult.admin.email,
+        adminEmail: admin.email,
         details: body
       }
     })
@@ -95,20 +99,16 @@ export async function PUT(
     console.error('Error updating product:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
 
 /**
  * DELETE /api/v1/admin/products/:id (soft delete)
  */
-export async function DELETE(
+export const DELETE = withAdminAuth('products:write', async (
   request: NextRequest,
+  admin: AdminUser,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+) => {
   const { id } = await params
 
   try {
@@ -122,7 +122,7 @@ export async function DELETE(
       data: {
         action: 'product_deleted',
         productIds: [id],
-        adminEmail: authResult.admin.email
+        adminEmail: admin.email
       }
     })
 
@@ -131,4 +131,4 @@ export async function DELETE(
     console.error('Error deleting product:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
@@ -1,18 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/db'
-import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
 
 /**
  * GET /api/v1/admin/products
  *
  * List all products with stats
  */
-export async function GET(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+export const GET = withAdminAuth('products:read', async () => {
   try {
     const products = await prisma.product.findMany({
       orderBy: { displayOrder: 'asc' },
@@ -35,19 +31,14 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * POST /api/v1/admin/products
  *
  * Create a new product
  */
-export async function POST(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+export const POST = withAdminAuth('products:write', async (request: NextRequest, admin: AdminUser) => {
   try {
     const body = await request.json()
     const {
@@ -58,6 +49,8 @@ export async function POST(request: NextRequest) {
       requiresOngoingAccess = true,
       formSchema,
       zapierWebhookUrl,
+      dunningGraceDays = 7,
+      foldEmailAliases = false,
       displayOrder = 0
     } = body
 
@@ -68,6 +61,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!Number.isInteger(dunningGraceDays) || dunningGraceDays < 0) {
+      return NextResponse.json(
+        { error: 'Dunning grace days must be a whole number of days' },
+        { status: 400 }
+      )
+    }
+
     // Check if ID already exists
     const existing = await prisma.product.findUnique({ where: { id } })
     if (existing) {
@@ -86,6 +86,8 @@ export async function POST(request: NextRequest) {
         requiresOngoingAccess,
         formSchema,
         zapierWebhookUrl,
+        dunningGraceDays,
+        foldEmailAliases,
         displayOrder
       }
     })
@@ -95,7 +97,7 @@ export async function POST(request: NextRequest) {
       data: {
         action: 'product_created',
         productIds: [id],
-        adminEmail: authResult.admin.email,
+        adminEmail: admin.email,
         details: { name }
       }
     })
@@ -108,4 +110,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { redeliverOutboxItem } from '@/lib/services/app-sync.service'
+
+// Rows that can't be redelivered in their current state
+const REFUSED_MESSAGES = [
+  'Outbox item is currently being delivered',
+  'Outbox item was cancelled',
+  'Dead-lettered delete requests no longer hold the email to send'
+]
+
+/**
+ * POST /api/v1/admin/sync-outbox/:id/redeliver
+ *
+ * Re-queue a delivery (including dead-lettered ones) and attempt it now
+ */
+export const POST = withAdminAuth('sync:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+  const outboxId = parseInt(id, 10)
+
+  if (isNaN(outboxId)) {
+    return NextResponse.json({ error: 'Invalid outbox ID' }, { status: 400 })
+  }
+
+  try {
+    const results = await redeliverOutboxItem(outboxId)
+    const item = await prisma.syncOutbox.findUnique({ where: { id: outboxId } })
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'sync_redeliver',
+        productIds: [],
+        adminEmail: admin.email,
+        details: {
+          outboxId,
+          appKey: item?.appKey,
+          // Delete requests are the only record of an erased address
+          email: item?.kind === 'delete' ? undefined : item?.email,
+          status: item?.status,
+          error: item?.lastError
+        }
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      item,
+      // Empty when an older delivery to the same app is still queued ahead of it
+      attempted: results.length > 0,
+      delivered: results.some((r) => r.success)
+    })
+  } catch (error) {
+    console.error('Error redelivering outbox item:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+
+    if (message === 'Outbox item not found') {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    if (REFUSED_MESSAGES.includes(message)) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
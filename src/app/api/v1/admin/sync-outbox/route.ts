@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { processSyncOutbox } from '@/lib/services/app-sync.service'
+
+// Rows overdue or locked longer than this are reported as stuck
+const STUCK_AFTER_MS = 10 * 60 * 1000
+
+/**
+ * Filter for each outbox view on the admin page
+ */
+function getViewWhere(view: string): Record<string, unknown> {
+  const stuckBefore = new Date(Date.now() - STUCK_AFTER_MS)
+
+  switch (view) {
+    case 'stuck':
+      return {
+        OR: [
+          { status: 'processing', lockedAt: { lt: stuckBefore } },
+          { status: 'pending', nextAttemptAt: { lt: stuckBefore } }
+        ]
+      }
+    case 'failed':
+      return { status: 'dead' }
+    case 'retried':
+      return { attempts: { gt: 1 } }
+    default:
+      return {}
+  }
+}
+
+/**
+ * GET /api/v1/admin/sync-outbox?view=stuck|failed|retried|all
+ *
+ * List app sync deliveries with counts per view
+ */
+export const GET = withAdminAuth('sync:read', async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams
+  const view = searchParams.get('view') || 'all'
+  const appKey = searchParams.get('app')
+  const limit = parseInt(searchParams.get('limit') || '50')
+  const offset = parseInt(searchParams.get('offset') || '0')
+
+  try {
+    const where = {
+      ...getViewWhere(view),
+      ...(appKey && { appKey })
+    }
+
+    const [items, total, stuck, failed, retried, pending] = await Promise.all([
+      prisma.syncOutbox.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      prisma.syncOutbox.count({ where }),
+      prisma.syncOutbox.count({ where: getViewWhere('stuck') }),
+      prisma.syncOutbox.count({ where: getViewWhere('failed') }),
+      prisma.syncOutbox.count({ where: getViewWhere('retried') }),
+      prisma.syncOutbox.count({ where: { status: 'pending' } })
+    ])
+
+    return NextResponse.json({
+      items,
+      total,
+      limit,
+      offset,
+      counts: { stuck, failed, retried, pending }
+    })
+  } catch (error) {
+    console.error('Error fetching sync outbox:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/v1/admin/sync-outbox
+ *
+ * Run the sync worker now instead of waiting for the scheduler
+ */
+export const POST = withAdminAuth('sync:write', async () => {
+  try {
+    const results = await processSyncOutbox({ limit: 200 })
+
+    return NextResponse.json({
+      success: true,
+      processed: results.length,
+      delivered: results.filter((r) => r.success).length,
+      failed: results.filter((r) => !r.success).length
+    })
+  } catch (error) {
+    console.error('Error processing sync outbox:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
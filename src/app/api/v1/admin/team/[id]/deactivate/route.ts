@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { deactivateAdmin } from '@/lib/services/admin-team.service'
+
+/**
+ * POST /api/v1/admin/team/:id/deactivate
+ *
+ * Deactivate an admin user: they can no longer sign in and their sessions end
+ */
+export const POST = withAdminAuth('admins:manage', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const user = await deactivateAdmin(parseInt(id, 10), admin)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_deactivated',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { adminUserId: user.id, email: user.email }
+      }
+    })
+
+    return NextResponse.json({ success: true, user })
+  } catch (error) {
+    console.error('Error deactivating admin:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'Admin user not found' ? 404 : 400 }
+    )
+  }
+})
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { reactivateAdmin } from '@/lib/services/admin-team.service'
+
+/**
+ * POST /api/v1/admin/team/:id/reactivate
+ *
+ * Let a deactivated admin user sign in again
+ */
+export const POST = withAdminAuth('admins:manage', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const user = await reactivateAdmin(parseInt(id, 10), admin)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_reactivated',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { adminUserId: user.id, email: user.email }
+      }
+    })
+
+    return NextResponse.json({ success: true, user })
+  } catch (error) {
+    console.error('Error reactivating admin:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'Admin user not found' ? 404 : 400 }
+    )
+  }
+})
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { forceAdminPasswordReset } from '@/lib/services/admin-team.service'
+
+/**
+ * POST /api/v1/admin/team/:id/reset-password
+ *
+ * Force an admin user to choose a new password
+ * Their current password and sessions stop working and they are emailed a reset link.
+ */
+export const POST = withAdminAuth('admins:manage', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const { user, emailSent } = await forceAdminPasswordReset(parseInt(id, 10), admin)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_password_reset_forced',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { adminUserId: user.id, email: user.email, emailSent }
+      }
+    })
+
+    return NextResponse.json({ success: true, user, emailSent })
+  } catch (error) {
+    console.error('Error forcing admin password reset:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'Admin user not found' ? 404 : 400 }
+    )
+  }
+})
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { changeAdminRole } from '@/lib/services/auth.service'
+
+/**
+ * PUT /api/v1/admin/team/:id
+ *
+ * Change an admin user's role
+ * Body: { role: 'owner' | 'admin' | 'support' | 'analyst' }
+ */
+export const PUT = withAdminAuth('admins:manage', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { role } = body as { role?: string }
+
+    if (!role) {
+      return NextResponse.json({ error: 'role is required' }, { status: 400 })
+    }
+
+    const { user, previousRole } = await changeAdminRole(parseInt(id, 10), role)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_role_changed',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { adminUserId: user.id, email: user.email, role: user.role, previousRole }
+      }
+    })
+
+    return NextResponse.json({ success: true, user })
+  } catch (error) {
+    console.error('Error changing admin role:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'Admin user not found' ? 404 : 400 }
+    )
+  }
+})
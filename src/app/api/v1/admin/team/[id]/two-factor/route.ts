@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { resetTwoFactor, setTwoFactorRequired } from '@/lib/services/two-factor.service'
+
+/**
+ * PUT /api/v1/admin/team/:id/two-factor
+ *
+ * Require (or stop requiring) two-factor authentication for an admin user
+ * Body: { required: boolean }
+ */
+export const PUT = withAdminAuth('admins:manage', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { required } = body as { required?: boolean }
+
+    if (typeof required !== 'boolean') {
+      return NextResponse.json({ error: 'required must be true or false' }, { status: 400 })
+    }
+
+    const user = await setTwoFactorRequired(parseInt(id, 10), required)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_2fa_requirement_changed',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { adminUserId: user.id, email: user.email, required }
+      }
+    })
+
+    return NextResponse.json({ success: true, user, required })
+  } catch (error) {
+    console.error('Error changing two-factor requirement:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'Admin user not found' ? 404 : 400 }
+    )
+  }
+})
+
+/**
+ * DELETE /api/v1/admin/team/:id/two-factor
+ *
+ * Clear an admin user's two-factor enrolment, e.g. after a lost phone
+ * Their sessions end; if 2FA is required they enrol again at next login.
+ */
+export const DELETE = withAdminAuth('admins:manage', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const user = await resetTwoFactor(parseInt(id, 10), admin)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_2fa_reset',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { adminUserId: user.id, email: user.email }
+      }
+    })
+
+    return NextResponse.json({ success: true, user })
+  } catch (error) {
+    console.error('Error resetting two-factor authentication:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'Admin user not found' ? 404 : 400 }
+    )
+  }
+})
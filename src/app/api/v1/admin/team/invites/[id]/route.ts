@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { revokeAdminInvite } from '@/lib/services/admin-team.service'
+
+/**
+ * DELETE /api/v1/admin/team/invites/:id
+ *
+ * Withdraw a pending invitation so its link stops working
+ */
+export const DELETE = withAdminAuth('admins:manage', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    await revokeAdminInvite(parseInt(id, 10))
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_invite_revoked',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { inviteId: parseInt(id, 10) }
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking admin invite:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'Invitation not found' ? 404 : 400 }
+    )
+  }
+})
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { inviteAdmin } from '@/lib/services/admin-team.service'
+
+/**
+ * POST /api/v1/admin/team/invites
+ *
+ * Email someone an invitation to join the admin team
+ * Body: { email: string, role: string, name?: string }
+ */
+export const POST = withAdminAuth('admins:manage', async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { email, role, name } = body as { email?: string; role?: string; name?: string }
+
+    if (!email || !role) {
+      return NextResponse.json({ error: 'email and role are required' }, { status: 400 })
+    }
+
+    const { invite, emailSent } = await inviteAdmin({ email, role, name }, admin)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'admin_invited',
+        productIds: [],
+        adminEmail: admin.email,
+        details: { inviteId: invite.id, email: invite.email, role: invite.role, emailSent }
+      }
+    })
+
+    return NextResponse.json({ success: true, invite, emailSent })
+  } catch (error) {
+    console.error('Error inviting admin:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+})
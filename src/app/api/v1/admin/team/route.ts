@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { listAdminUsers } from '@/lib/services/auth.service'
+import { listPendingInvites } from '@/lib/services/admin-team.service'
+
+/**
+ * GET /api/v1/admin/team
+ *
+ * List admin users and their roles, plus pending invitations
+ */
+export const GET = withAdminAuth('admins:manage', async () => {
+  try {
+    const [users, invites] = await Promise.all([listAdminUsers(), listPendingInvites()])
+    return NextResponse.json({ users, invites })
+  } catch (error) {
+    console.error('Error listing admin users:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
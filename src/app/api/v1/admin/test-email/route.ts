@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
 import { sendBundlePurchaseEmail } from '@/lib/services/email.service'
 
 /**
@@ -7,12 +7,7 @@ import { sendBundlePurchaseEmail } from '@/lib/services/email.service'
  *
  * Send a test bundle purchase email to preview the design
  */
-export async function POST(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+export const POST = withAdminAuth('bundles:write', async (request: NextRequest) => {
   try {
     const body = await request.json()
     const {
@@ -57,4 +52,4 @@ export async function POST(request: NextRequest) {
     console.error('Error sending test email:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
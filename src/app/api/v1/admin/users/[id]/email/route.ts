@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { changePrimaryEmail } from '@/lib/services/identity.service'
+
+/**
+ * POST /api/v1/admin/users/:id/email
+ *
+ * Change a user's primary email
+ * Body: { email: string, repointProductEmails?: boolean }
+ */
+export const POST = withAdminAuth('customers:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const body = await request.json()
+    const { email, repointProductEmails = true } = body as { email?: string; repointProductEmails?: boolean }
+
+    if (!email) {
+      return NextResponse.json({ error: 'email is required' }, { status: 400 })
+    }
+
+    const result = await changePrimaryEmail({
+      identityId: id,
+      email,
+      repointProductEmails,
+      adminEmail: admin.email
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'identity_email_changed',
+        identityId: id,
+        productIds: result.repointedProductIds,
+        adminEmail: admin.email,
+        details: {
+          oldEmail: result.oldEmail,
+          newEmail: result.newEmail,
+          repointProductEmails,
+          stripeUpdated: result.stripeUpdated
+        }
+      }
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Error changing primary email:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'User not found' ? 404 : 400 }
+    )
+  }
+})
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { eraseIdentity } from '@/lib/services/privacy.service'
+
+/**
+ * POST /api/v1/admin/users/:id/erase
+ *
+ * Erase a user's personal data, for a deletion request
+ * Revenue fields are kept; every connected app is asked to delete the user.
+ * Body: { reason?: string }
+ */
+export const POST = withAdminAuth('customers:privacy', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { reason } = body as { reason?: string }
+
+    const result = await eraseIdentity(id, admin.email)
+
+    // No emails or names here: this row outlives the erasure
+    await prisma.auditLog.create({
+      data: {
+        action: 'identity_erased',
+        identityId: id,
+        productIds: [],
+        adminEmail: admin.email,
+        details: { ...result, reason: reason || null }
+      }
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Error erasing user:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'User not found' ? 404 : 400 }
+    )
+  }
+})
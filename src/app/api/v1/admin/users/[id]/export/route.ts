@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { exportIdentityData } from '@/lib/services/privacy.service'
+import { createZip } from '@/lib/zip'
+
+/**
+ * GET /api/v1/admin/users/:id/export?format=json|zip
+ *
+ * Download everything held about a user, for a data access request
+ * The ZIP has one JSON file per section; JSON is a single document.
+ */
+export const GET = withAdminAuth('customers:privacy', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+  const format = request.nextUrl.searchParams.get('format') || 'json'
+
+  if (!['json', 'zip'].includes(format)) {
+    return NextResponse.json({ error: 'format must be json or zip' }, { status: 400 })
+  }
+
+  try {
+    const data = await exportIdentityData(id)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'identity_exported',
+        identityId: id,
+        productIds: [],
+        adminEmail: admin.email,
+        details: { format }
+      }
+    })
+
+    const filename = `user-${id}-${data.exportedAt.slice(0, 10)}`
+
+    if (format === 'zip') {
+      const zip = createZip(
+        Object.entries(data).map(([section, value]) => ({
+          name: `${section}.json`,
+          content: JSON.stringify(value, null, 2)
+        }))
+      )
+
+      return new NextResponse(new Uint8Array(zip), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${filename}.zip"`
+        }
+      })
+    }
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}.json"`
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting user data:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'User not found' ? 404 : 400 }
+    )
+  }
+})
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/db'
-import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
 import { revokeAccess, grantAccess } from '@/lib/services/entitlements.service'
 
 /**
@@ -8,15 +9,11 @@ import { revokeAccess, grantAccess } from '@/lib/services/entitlements.service'
  *
  * Get user (identity) details
  */
-export async function GET(
+export const GET = withAdminAuth('customers:read', async (
   request: NextRequest,
+  admin: AdminUser,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+) => {
   const { id } = await params
 
   try {
@@ -43,7 +40,7 @@ export async function GET(
         },
         claimTokens: {
           include: {
-            bundle: { select: { name: true } }
+            bundle: { select: { name: true, productIds: true } }
           },
           orderBy: { createdAt: 'desc' }
         }
@@ -59,22 +56,18 @@ export async function GET(
     console.error('Error fetching user:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
 
 /**
  * POST /api/v1/admin/users/:id/revoke
  *
  * Revoke access to products
  */
-export async function POST(
+export const POST = withAdminAuth('customers:write', async (
   request: NextRequest,
+  admin: AdminUser,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+) => {
   const { id } = await params
 
   try {
@@ -92,7 +85,7 @@ export async function POST(
       identityId: id,
       productIds,
       reason,
-      adminEmail: authResult.admin.email
+      adminEmail: admin.email
     })
 
     return NextResponse.json({
@@ -103,22 +96,18 @@ export async function POST(
     console.error('Error revoking access:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
 
 /**
  * PUT /api/v1/admin/users/:id/extend
  *
  * Extend access expiry
  */
-export async function PUT(
+export const PUT = withAdminAuth('customers:write', async (
   request: NextRequest,
+  admin: AdminUser,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+) => {
   const { id } = await params
 
   try {
@@ -148,7 +137,7 @@ export async function PUT(
         action: 'extend_access',
         identityId: id,
         productIds,
-        adminEmail: authResult.admin.email,
+        adminEmail: admin.email,
         details: { newExpiresAt: expiresAt }
       }
     })
@@ -161,22 +150,18 @@ export async function PUT(
     console.error('Error extending access:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
 
 /**
  * PATCH /api/v1/admin/users/:id/grant
  *
  * Grant access to products
  */
-export async function PATCH(
+export const PATCH = withAdminAuth('customers:write', async (
   request: NextRequest,
+  admin: AdminUser,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+) => {
   const { id } = await params
 
   try {
@@ -212,7 +197,7 @@ export async function PATCH(
         action: 'admin_grant',
         identityId: id,
         productIds,
-        adminEmail: authResult.admin.email,
+        adminEmail: admin.email,
         details: { durationType, durationValue, source }
       }
     })
@@ -225,4 +210,4 @@ export async function PATCH(
     console.error('Error granting access:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
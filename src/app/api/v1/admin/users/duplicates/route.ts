@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { findDuplicateIdentities } from '@/lib/services/identity-merge.service'
+
+/**
+ * GET /api/v1/admin/users/duplicates
+ *
+ * List pairs of users (identities) that are probably the same customer
+ * Query: limit (default 50)
+ */
+export const GET = withAdminAuth('customers:read', async (request: NextRequest) => {
+  const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '50'), 200)
+
+  try {
+    const candidates = await findDuplicateIdentities({ limit })
+
+    return NextResponse.json({ candidates })
+  } catch (error) {
+    console.error('Error finding duplicate users:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { splitIdentityMerge } from '@/lib/services/identity-merge.service'
+
+/**
+ * POST /api/v1/admin/users/merges/:id/split
+ *
+ * Undo a merge, restoring the merged user and the rows it brought
+ */
+export const POST = withAdminAuth('customers:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params
+
+  try {
+    const merge = await splitIdentityMerge(parseInt(id), admin.email)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'identity_split',
+        identityId: merge.mergedId,
+        productIds: [],
+        adminEmail: admin.email,
+        details: { mergeId: merge.id, survivorId: merge.survivorId }
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error splitting merge:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'Merge not found' || message === 'Identity not found' ? 404 : 400 }
+    )
+  }
+})
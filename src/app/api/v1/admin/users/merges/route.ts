@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { mergeIdentities } from '@/lib/services/identity-merge.service'
+
+/**
+ * GET /api/v1/admin/users/merges
+ *
+ * List identity merges, newest first
+ */
+export const GET = withAdminAuth('customers:read', async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams
+  const limit = parseInt(searchParams.get('limit') || '50')
+  const offset = parseInt(searchParams.get('offset') || '0')
+
+  try {
+    const [merges, total] = await Promise.all([
+      prisma.identityMerge.findMany({
+        select: {
+          id: true,
+          survivorId: true,
+          mergedId: true,
+          adminEmail: true,
+          createdAt: true,
+          splitAt: true,
+          splitBy: true
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      prisma.identityMerge.count()
+    ])
+
+    const identities = await prisma.identity.findMany({
+      where: { id: { in: merges.flatMap((m) => [m.survivorId, m.mergedId]) } },
+      select: { id: true, primaryEmail: true }
+    })
+    const emailById = Object.fromEntries(identities.map((i) => [i.id, i.primaryEmail]))
+
+    return NextResponse.json({
+      merges: merges.map((merge) => ({
+        ...merge,
+        survivorEmail: emailById[merge.survivorId] || null,
+        mergedEmail: emailById[merge.mergedId] || null
+      })),
+      total,
+      limit,
+      offset
+    })
+  } catch (error) {
+    console.error('Error fetching merges:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/v1/admin/users/merges
+ *
+ * Merge a duplicate user into a survivor
+ * Body: { survivorId: string, mergedId: string }
+ */
+export const POST = withAdminAuth('customers:write', async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const body = await request.json()
+    const { survivorId, mergedId } = body as { survivorId?: string; mergedId?: string }
+
+    if (!survivorId || !mergedId) {
+      return NextResponse.json({ error: 'survivorId and mergedId are required' }, { status: 400 })
+    }
+
+    const merge = await mergeIdentities(survivorId, mergedId, admin.email)
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'identity_merged',
+        identityId: survivorId,
+        productIds: [],
+        adminEmail: admin.email,
+        details: { mergeId: merge.id, mergedId }
+      }
+    })
+
+    return NextResponse.json({ success: true, mergeId: merge.id })
+  } catch (error) {
+    console.error('Error merging users:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'Identity not found' ? 404 : 400 }
+    )
+  }
+})
@@ -1,34 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/db'
-import { verifyAdminAuth } from '@/lib/middleware/admin-auth'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
 import { grantAccess, getOrCreateIdentity } from '@/lib/services/entitlements.service'
 import { DurationType } from '@/lib/types'
+import { foldEmailAliases, INVALID_EMAIL_ERROR, normalizeEmail, parseEmail } from '@/lib/email'
 
 /**
  * GET /api/v1/admin/users
  *
  * Search and list users (identities)
  */
-export async function GET(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+export const GET = withAdminAuth('customers:read', async (request: NextRequest) => {
   const searchParams = request.nextUrl.searchParams
-  const search = searchParams.get('search')
+  const searchParam = searchParams.get('search')
+  const search = searchParam ? normalizeEmail(searchParam) : null
   const product = searchParams.get('product')
   const source = searchParams.get('source')
   const limit = parseInt(searchParams.get('limit') || '50')
   const offset = parseInt(searchParams.get('offset') || '0')
 
   try {
-    const where: Record<string, unknown> = {}
+    // Merged identities are listed under their survivor
+    const where: Record<string, unknown> = { mergedIntoId: null }
 
     if (search) {
+      // A full address also finds its +tag and Gmail-dot variants
+      const searchKey = parseEmail(search) ? foldEmailAliases(search) : null
+
       where.OR = [
         { primaryEmail: { contains: search, mode: 'insensitive' } },
-        { emails: { some: { email: { contains: search, mode: 'insensitive' } } } }
+        { emails: { some: { email: { contains: search, mode: 'insensitive' } } } },
+        { mergedIdentities: { some: { primaryEmail: { contains: search, mode: 'insensitive' } } } },
+        ...(searchKey ? [{ primaryEmailKey: searchKey }, { emails: { some: { emailKey: searchKey } } }] : [])
       ]
     }
 
@@ -47,7 +51,10 @@ export async function GET(request: NextRequest) {
         where,
         include: {
           emails: {
-            select: { email: true, productId: true, verified: true }
+            select: { id: true, email: true, productId: true, verified: true }
+          },
+          mergedIdentities: {
+            select: { id: true, primaryEmail: true }
           },
           entitlements: {
             where: { revokedAt: null },
@@ -74,23 +81,18 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching users:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
 
 /**
  * POST /api/v1/admin/users/grant
  *
  * Manually grant access to products
  */
-export async function POST(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request)
-  if ('error' in authResult) {
-    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
-  }
-
+export const POST = withAdminAuth('customers:write', async (request: NextRequest, admin: AdminUser) => {
   try {
     const body = await request.json()
     const {
-      email,
+      email: rawEmail,
       productIds,
       source = 'manual',
       reason,
@@ -98,13 +100,19 @@ export async function POST(request: NextRequest) {
       durationValue
     } = body
 
-    if (!email || !productIds || productIds.length === 0) {
+    if (!rawEmail || !productIds || productIds.length === 0) {
       return NextResponse.json(
         { error: 'Email and at least one product are required' },
         { status: 400 }
       )
     }
 
+    const email = parseEmail(rawEmail)
+
+    if (!email) {
+      return NextResponse.json({ error: INVALID_EMAIL_ERROR }, { status: 400 })
+    }
+
     // Create or get identity
     const identity = await getOrCreateIdentity(email)
 
@@ -112,12 +120,16 @@ export async function POST(request: NextRequest) {
     for (const productId of productIds) {
       await prisma.identityEmail.upsert({
         where: {
-          email_productId: { email: email.toLowerCase(), productId }
+          email_productId: { email, productId }
         },
         create: {
           identityId: identity.id,
-          email: email.toLowerCase(),
-          productId
+          email,
+          emailKey: foldEmailAliases(email),
+          productId,
+          verified: true,
+          verifiedAt: new Date(),
+          verifiedBy: admin.email
         },
         update: {}
       })
@@ -138,7 +150,7 @@ export async function POST(request: NextRequest) {
         action: 'manual_grant',
         identityId: identity.id,
         productIds,
-        adminEmail: authResult.admin.email,
+        adminEmail: admin.email,
         details: { email, reason, durationType, durationValue }
       }
     })
@@ -152,4 +164,4 @@ export async function POST(request: NextRequest) {
     console.error('Error granting access:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { replayWebhookEvent } from '@/lib/services/stripe.service'
+
+/**
+ * POST /api/v1/admin/webhooks/:eventId/replay
+ *
+ * Re-run a failed or ignored Stripe event through the webhook dispatcher.
+ * Body: { refetch?: boolean } - fetch the event from Stripe instead of using the stored payload
+ */
+export const POST = withAdminAuth('sync:write', async (
+  request: NextRequest,
+  admin: AdminUser,
+  { params }: { params: Promise<{ eventId: string }> }
+) => {
+  const { eventId } = await params
+  const body = await request.json().catch(() => ({}))
+
+  try {
+    const outcome = await replayWebhookEvent(eventId, {
+      adminEmail: admin.email,
+      refetch: body.refetch === true
+    })
+
+    return NextResponse.json({
+      success: outcome.status !== 'failed',
+      eventId,
+      ...outcome
+    })
+  } catch (error) {
+    console.error('Error replaying webhook:', error)
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    const status = message === 'Webhook event not found'
+      ? 404
+      : message.startsWith('Cannot replay') ? 409 : 500
+    return NextResponse.json({ error: message }, { status })
+  }
+})
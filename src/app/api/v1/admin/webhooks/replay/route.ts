@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { withAdminAuth } from '@/lib/middleware/admin-auth'
+import { AdminUser } from '@/lib/types'
+import { REPLAYABLE_WEBHOOK_STATUSES, replayWebhookEvent } from '@/lib/services/stripe.service'
+
+const MAX_BULK_REPLAY = 100
+
+/**
+ * POST /api/v1/admin/webhooks/replay
+ *
+ * Replay a filtered set of webhook events, oldest first so subscription
+ * events apply in Stripe's order.
+ * Body: {
+ *   eventIds?: string[],
+ *   status?: 'failed' | 'ignored' (default 'failed'),
+ *   eventType?: string,
+ *   since?: ISO date,
+ *   refetch?: boolean,
+ *   limit?: number (max 100)
+ * }
+ */
+export const POST = withAdminAuth('sync:write', async (request: NextRequest, admin: AdminUser) => {
+  const body = await request.json().catch(() => ({}))
+  const status = body.status || 'failed'
+
+  if (!REPLAYABLE_WEBHOOK_STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: `status must be one of: ${REPLAYABLE_WEBHOOK_STATUSES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  if (body.eventIds !== undefined && !Array.isArray(body.eventIds)) {
+    return NextResponse.json({ error: 'eventIds must be an array' }, { status: 400 })
+  }
+
+  const since = body.since ? new Date(body.since) : null
+  if (since && isNaN(since.getTime())) {
+    return NextResponse.json({ error: 'since must be a valid date' }, { status: 400 })
+  }
+
+  const limit = Math.min(Math.max(parseInt(body.limit) || MAX_BULK_REPLAY, 1), MAX_BULK_REPLAY)
+
+  try {
+    const logs = await prisma.webhookLog.findMany({
+      where: {
+        status,
+        ...(body.eventIds && { eventId: { in: body.eventIds } }),
+        ...(body.eventType && { eventType: body.eventType }),
+        ...(since && { processedAt: { gte: since } })
+      },
+      orderBy: [{ eventCreatedAt: 'asc' }, { processedAt: 'asc' }],
+      take: limit,
+      select: { eventId: true, eventType: true }
+    })
+
+    // Sequential so ordered events are applied one after another
+    const results = []
+    for (const log of logs) {
+      try {
+        const outcome = await replayWebhookEvent(log.eventId, {
+          adminEmail: admin.email,
+          refetch: body.refetch === true
+        })
+        results.push({ eventId: log.eventId, eventType: log.eventType, ...outcome })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        results.push({ eventId: log.eventId, eventType: log.eventType, status: 'failed', error: message })
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      replayed: results.length,
+      succeeded: results.filter((r) => r.status === 'success').length,
+      ignored: results.filter((r) => r.status === 'ignored').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+      results
+    })
+  } catch (error) {
+    console.error('Error replaying webhooks:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
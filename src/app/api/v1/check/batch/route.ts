@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAccessBatch } from '@/lib/services/entitlements.service'
+import { verifyApiKey } from '@/lib/middleware/api-key-auth'
+import { BatchCheckAccessResponse } from '@/lib/types'
+import { isValidEmail } from '@/lib/email'
+
+// Upper bound on pairs per request to keep query sizes reasonable
+const MAX_BATCH_SIZE = 500
+
+/**
+ * POST /api/v1/check/batch
+ *
+ * Check access for many email/product pairs in one call.
+ * Used by nightly reconciliation jobs in the connected apps.
+ *
+ * Body:
+ * {
+ *   checks: { email: string, product: string }[] (required, max 500)
+ * }
+ *
+ * Results are returned in the same order as the checks.
+ *
+ * Requires an API key with the check:read scope.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await verifyApiKey(request, 'check:read')
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  let body: { checks?: unknown }
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  const { checks } = body
+
+  if (!Array.isArray(checks) || checks.length === 0) {
+    return NextResponse.json(
+      { error: 'Missing or empty checks array' },
+      { status: 400 }
+    )
+  }
+
+  if (checks.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `Too many checks (max ${MAX_BATCH_SIZE})` },
+      { status: 400 }
+    )
+  }
+
+  const invalidIndex = checks.findIndex(
+    (check) =>
+      !check ||
+      typeof check.email !== 'string' ||
+      !isValidEmail(check.email) ||
+      typeof check.product !== 'string' ||
+      !check.product
+  )
+
+  if (invalidIndex !== -1) {
+    return NextResponse.json(
+      { error: `Invalid check at index ${invalidIndex}: a valid email and product are required` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const results = await checkAccessBatch(
+      checks.map((check: { email: string; product: string }) => ({
+        email: check.email,
+        product: check.product
+      }))
+    )
+    return NextResponse.json<BatchCheckAccessResponse>({ results })
+  } catch (error) {
+    console.error('Error checking batch access:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
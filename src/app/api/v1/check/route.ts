@@ -1,13 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { checkAccess } from '@/lib/services/entitlements.service'
+import { verifyApiKey } from '@/lib/middleware/api-key-auth'
+import { INVALID_EMAIL_ERROR, parseEmail } from '@/lib/email'
 
 /**
  * GET /api/v1/check?email=xxx&product=xxx
  *
  * Check if an email has access to a specific product.
  * This is the main endpoint that apps (Rezume, AI Coach) call on login.
+ *
+ * Requires an API key with the check:read scope.
  */
 export async function GET(request: NextRequest) {
+  const authResult = await verifyApiKey(request, 'check:read')
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
   const searchParams = request.nextUrl.searchParams
   const email = searchParams.get('email')
   const product = searchParams.get('product')
@@ -26,8 +35,17 @@ export async function GET(request: NextRequest) {
     )
   }
 
+  const normalizedEmail = parseEmail(email)
+
+  if (!normalizedEmail) {
+    return NextResponse.json(
+      { error: INVALID_EMAIL_ERROR },
+      { status: 400 }
+    )
+  }
+
   try {
-    const result = await checkAccess(email.toLowerCase(), product)
+    const result = await checkAccess(normalizedEmail, product)
     return NextResponse.json(result)
   } catch (error) {
     console.error('Error checking access:', error)
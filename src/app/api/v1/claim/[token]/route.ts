@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/db'
-import { processClaim } from '@/lib/services/entitlements.service'
-import { triggerZapierWebhook } from '@/lib/services/zapier.service'
+import { CLAIM_ERROR_PREFIXES, processClaim } from '@/lib/services/entitlements.service'
+import { requestEmailVerifications } from '@/lib/services/email-verification.service'
 import { ClaimTokenResponse, FormField } from '@/lib/types'
 
 /**
@@ -38,6 +38,13 @@ export async function GET(
       })
     }
 
+    if (claimToken.voidedAt) {
+      return NextResponse.json<ClaimTokenResponse>({
+        valid: false,
+        error: 'This claim link is no longer valid'
+      })
+    }
+
     if (claimToken.expiresAt < new Date()) {
       return NextResponse.json<ClaimTokenResponse>({
         valid: false,
@@ -62,7 +69,8 @@ export async function GET(
           id: p.id,
           name: p.name,
           requiresEmail: true,
-          formSchema: p.formSchema as FormField[] | null
+          formSchema: p.formSchema as FormField[] | null,
+          claimed: claimToken.claimedProductIds.includes(p.id)
         }))
       },
       purchaseEmail: claimToken.purchaseEmail,
@@ -80,7 +88,9 @@ export async function GET(
 /**
  * POST /api/v1/claim/:token/activate
  *
- * Activate the bundle claim with product emails and form data.
+ * Activate some or all of the bundle's products with product emails and form data.
+ * Products left out can be activated later with the same link.
+ * Emails other than the purchase email are emailed a verification link and code.
  */
 export async function POST(
   request: NextRequest,
@@ -89,7 +99,7 @@ export async function POST(
   const { token } = await params
 
   try {
-    const body = await request.json()
+    const body = await request.json().catch(() => ({}))
     const { products: productData } = body as {
       products: Record<string, { email: string; formData?: Record<string, unknown> }>
     }
@@ -101,54 +111,52 @@ export async function POST(
       )
     }
 
-    // Process the claim
+    // Process the claim (Zapier is triggered once it commits)
     const result = await processClaim(token, productData)
 
-    // Trigger Zapier for products that have webhooks configured
-    const productsWithWebhooks = await prisma.product.findMany({
-      where: {
-        id: { in: result.bundle.productIds },
-        zapierWebhookUrl: { not: null }
-      }
-    })
-
-    const zapierResults = await Promise.allSettled(
-      productsWithWebhooks.map(async (product) => {
-        const data = productData[product.id]
-        if (data?.formData) {
-          return triggerZapierWebhook(
-            product.id,
-            { ...data.formData, email: data.email },
-            result.identity.id
-          )
-        }
-        return { skipped: true }
+    // The claim has committed: a failure from here on mustn't report it as failed
+    let verificationSent = true
+    const verifications = await requestEmailVerifications(result.identity.id, result.unverifiedEmails)
+      .catch((error) => {
+        console.error('Error requesting email verifications:', error)
+        verificationSent = false
+        return []
       })
-    )
+    const unverifiedIds = result.unverifiedEmails.flatMap((v) => v.productIds)
 
     // Prepare response with status per product
-    const activatedProducts = result.bundle.productIds.map((productId) => {
-      const data = productData[productId]
-      const product = productsWithWebhooks.find((p) => p.id === productId)
-
-      return {
-        product: productId,
-        email: data?.email || result.identity.primaryEmail,
-        status: product?.zapierWebhookUrl ? 'processing' : 'ready'
-      }
-    })
+    const activatedProducts = result.activatedProductIds.map((productId) => ({
+      product: productId,
+      email: productData[productId]?.email || result.identity.primaryEmail,
+      status: unverifiedIds.includes(productId)
+        ? 'pending_verification'
+        : result.webhookProductIds.includes(productId) ? 'processing' : 'ready'
+    }))
 
     return NextResponse.json({
       success: true,
       activated: activatedProducts,
-      message: 'Bundle activated successfully!'
+      verifications,
+      verificationSent,
+      remaining: result.remainingProductIds,
+      complete: result.complete,
+      message: result.complete ? 'Bundle activated successfully!' : 'Products activated successfully!'
     })
   } catch (error) {
     console.error('Error activating claim:', error)
-    const message = error instanceof Error ? error.message : 'Unknown error'
+    const message = error instanceof Error ? error.message : ''
+
+    if (message === 'Invalid claim token') {
+      return NextResponse.json({ success: false, error: message }, { status: 404 })
+    }
+
+    if (CLAIM_ERROR_PREFIXES.some((prefix) => message.startsWith(prefix))) {
+      return NextResponse.json({ success: false, error: message }, { status: 400 })
+    }
+
     return NextResponse.json(
-      { success: false, error: message },
-      { status: 400 }
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
     )
   }
 }
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronAuth } from '@/lib/middleware/cron-auth'
+import { sendClaimReminders } from '@/lib/services/claim-token.service'
+
+/**
+ * POST /api/v1/cron/claim-reminders
+ *
+ * Emails buyers who haven't claimed their bundle as the claim link nears
+ * expiry (see CLAIM_REMINDER_DAYS). Run daily from a scheduler.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = verifyCronAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  try {
+    const result = await sendClaimReminders()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('[Cron] Error sending claim reminders:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
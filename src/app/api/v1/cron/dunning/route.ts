@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronAuth } from '@/lib/middleware/cron-auth'
+import { expireGracePeriods } from '@/lib/services/entitlements.service'
+
+/**
+ * POST /api/v1/cron/dunning
+ *
+ * Revokes subscription entitlements whose failed-payment grace period has
+ * ended. Run hourly from a scheduler.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = verifyCronAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  try {
+    const result = await expireGracePeriods()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('[Cron] Error expiring grace periods:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronAuth } from '@/lib/middleware/cron-auth'
+import { processSyncOutbox } from '@/lib/services/app-sync.service'
+
+/**
+ * POST /api/v1/cron/sync-outbox
+ *
+ * Sync worker: delivers due outbox rows to connected apps and retries
+ * failed ones. Run every minute from a scheduler.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = verifyCronAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  try {
+    const results = await processSyncOutbox({ limit: 200 })
+
+    return NextResponse.json({
+      processed: results.length,
+      delivered: results.filter((r) => r.success).length,
+      failed: results.filter((r) => !r.success).length
+    })
+  } catch (error) {
+    console.error('[Cron] Error processing sync outbox:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
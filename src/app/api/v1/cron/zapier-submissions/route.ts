@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronAuth } from '@/lib/middleware/cron-auth'
+import { processPendingSubmissions } from '@/lib/services/zapier.service'
+
+// Leave fresh submissions to the claim request that created them
+const MIN_PENDING_AGE_MS = 5 * 60 * 1000
+
+/**
+ * POST /api/v1/cron/zapier-submissions
+ *
+ * Sends product form submissions to Zapier that were never triggered after
+ * their claim committed. Run every few minutes from a scheduler.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = verifyCronAuth(request)
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
+  try {
+    const { total, results } = await processPendingSubmissions({
+      createdBefore: new Date(Date.now() - MIN_PENDING_AGE_MS)
+    })
+
+    return NextResponse.json({
+      processed: total,
+      failed: results.filter((r) => r.status === 'rejected').length
+    })
+  } catch (error) {
+    console.error('[Cron] Error processing Zapier submissions:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
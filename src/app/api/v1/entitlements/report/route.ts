@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { reportExternalSubscription } from '@/lib/services/entitlements.service'
-
-const ADMIN_API_KEY = process.env.CENTRAL_DASHBOARD_API_KEY
-
-// Valid source apps that can report subscriptions
-const VALID_SOURCE_APPS = ['rezume', 'aicoach', '123jobs-resume', '123jobs-interview']
+import { verifyApiKey } from '@/lib/middleware/api-key-auth'
+import { hasSignature, verifySignedRequest } from '@/lib/middleware/signature-auth'
+import { getActiveConnectedApp, listActiveAppKeys } from '@/lib/services/connected-app.service'
+import { INVALID_EMAIL_ERROR, parseEmail } from '@/lib/email'
+import { ERASED_EMAIL_ERROR } from '@/lib/services/privacy.service'
 
 /**
  * POST /api/v1/entitlements/report
@@ -13,14 +13,17 @@ const VALID_SOURCE_APPS = ['rezume', 'aicoach', '123jobs-resume', '123jobs-inter
  * This allows Central Dashboard to maintain visibility of ALL subscriptions
  * across the platform, not just bundles.
  *
- * Protected by API key.
+ * Requires an API key with the report:write scope, or an X-Central-Signature
+ * header signed with the sourceApp's signing secret (see lib/webhook-signature).
+ * Keys issued for a specific app may only report for that app. sourceApp must
+ * be an enabled connected app.
  *
  * Body:
  * {
  *   email: string (required)
- *   productId: string (required) - 'rezume', 'aicoach', '123jobs-resume', '123jobs-interview'
+ *   productId: string (required) - e.g. 'rezume', '123jobs-resume'
  *   action: 'grant' | 'revoke' (required)
- *   sourceApp: 'rezume' | 'aicoach' | '123jobs-resume' | '123jobs-interview' (required)
+ *   sourceApp: string (required) - connected app key
  *   stripeSubscriptionId?: string
  *   stripePriceId?: string
  *   amountPaid?: number (in cents)
@@ -30,30 +33,28 @@ const VALID_SOURCE_APPS = ['rezume', 'aicoach', '123jobs-resume', '123jobs-inter
  * }
  */
 export async function POST(request: NextRequest) {
-  // Verify API key
-  const apiKey = request.headers.get('x-admin-api-key')
+  // Signatures are computed over the raw body, so read it before parsing
+  const rawBody = await request.text()
 
-  if (!ADMIN_API_KEY) {
-    console.error('[Report] CENTRAL_DASHBOARD_API_KEY not configured')
-    return NextResponse.json(
-      { error: 'Server configuration error' },
-      { status: 500 }
-    )
+  let body
+  try {
+    body = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
   }
 
-  if (!apiKey || apiKey !== ADMIN_API_KEY) {
-    console.warn('[Report] Invalid or missing API key')
-    return NextResponse.json(
-      { error: 'Unauthorized' },
-      { status: 401 }
-    )
+  const authResult = hasSignature(request)
+    ? await verifySignedRequest(request, rawBody, body?.sourceApp, 'report:write')
+    : await verifyApiKey(request, 'report:write')
+  if ('error' in authResult) {
+    console.warn(`[Report] ${authResult.error}`)
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
   }
 
   try {
-    const body = await request.json()
 
     const {
-      email,
+      email: rawEmail,
       productId,
       action,
       sourceApp,
@@ -66,13 +67,22 @@ export async function POST(request: NextRequest) {
     } = body
 
     // Validate required fields
-    if (!email) {
+    if (!rawEmail) {
       return NextResponse.json(
         { error: 'Missing required field: email' },
         { status: 400 }
       )
     }
 
+    const email = parseEmail(rawEmail)
+
+    if (!email) {
+      return NextResponse.json(
+        { error: INVALID_EMAIL_ERROR },
+        { status: 400 }
+      )
+    }
+
     if (!productId) {
       return NextResponse.json(
         { error: 'Missing required field: productId' },
@@ -87,13 +97,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!sourceApp || !VALID_SOURCE_APPS.includes(sourceApp)) {
+    if (!sourceApp || !(await getActiveConnectedApp(sourceApp))) {
+      const validSourceApps = await listActiveAppKeys()
       return NextResponse.json(
-        { error: `Missing or invalid field: sourceApp (must be one of: ${VALID_SOURCE_APPS.join(', ')})` },
+        { error: `Missing or invalid field: sourceApp (must be one of: ${validSourceApps.join(', ')})` },
         { status: 400 }
       )
     }
 
+    const { client } = authResult
+    if (client.appKey && client.appKey !== sourceApp) {
+      return NextResponse.json(
+        { error: `API key for ${client.appKey} cannot report for ${sourceApp}` },
+        { status: 403 }
+      )
+    }
+
     // Process the report
     const result = await reportExternalSubscription({
       email,
@@ -118,6 +137,10 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof Error && error.message === ERASED_EMAIL_ERROR) {
+      return NextResponse.json({ error: ERASED_EMAIL_ERROR }, { status: 410 })
+    }
+
     console.error('[Report] Error processing subscription report:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -132,17 +155,19 @@ export async function POST(request: NextRequest) {
  * Returns info about what this endpoint expects
  */
 export async function GET() {
+  const validSourceApps = await listActiveAppKeys()
+
   return NextResponse.json({
     endpoint: '/api/v1/entitlements/report',
     method: 'POST',
     description: 'Report subscription changes from external apps (Rezume, AI Coach, 123jobs apps)',
-    authentication: 'X-Admin-Api-Key header required',
-    validSourceApps: VALID_SOURCE_APPS,
+    authentication: 'X-Api-Key header with report:write scope, or X-Central-Signature signed with the app signing secret',
+    validSourceApps,
     body: {
       email: 'string (required)',
-      productId: `string (required) - one of: ${VALID_SOURCE_APPS.join(', ')}`,
+      productId: `string (required) - one of: ${validSourceApps.join(', ')}`,
       action: '"grant" | "revoke" (required)',
-      sourceApp: `one of: ${VALID_SOURCE_APPS.join(', ')} (required)`,
+      sourceApp: `one of: ${validSourceApps.join(', ')} (required)`,
       stripeSubscriptionId: 'string (optional)',
       stripePriceId: 'string (optional)',
       amountPaid: 'number in cents (optional)',
@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getEntitlements } from '@/lib/services/entitlements.service'
+import { verifyApiKey } from '@/lib/middleware/api-key-auth'
+import { INVALID_EMAIL_ERROR, parseEmail } from '@/lib/email'
 
 /**
  * GET /api/v1/entitlements?email=xxx
  *
  * Get all entitlements for an email across all products.
+ *
+ * Requires an API key with the entitlements:read scope.
  */
 export async function GET(request: NextRequest) {
+  const authResult = await verifyApiKey(request, 'entitlements:read')
+  if ('error' in authResult) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+  }
+
   const searchParams = request.nextUrl.searchParams
   const email = searchParams.get('email')
 
@@ -17,8 +26,17 @@ export async function GET(request: NextRequest) {
     )
   }
 
+  const normalizedEmail = parseEmail(email)
+
+  if (!normalizedEmail) {
+    return NextResponse.json(
+      { error: INVALID_EMAIL_ERROR },
+      { status: 400 }
+    )
+  }
+
   try {
-    const result = await getEntitlements(email.toLowerCase())
+    const result = await getEntitlements(normalizedEmail)
     return NextResponse.json(result)
   } catch (error) {
     console.error('Error getting entitlements:', error)
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyEmailByCode, verifyEmailByToken } from '@/lib/services/email-verification.service'
+
+/**
+ * POST /api/v1/verify-email
+ *
+ * Confirm ownership of a product email from the verification email.
+ * Body: { token: string } (link) or { requestKey: string, code: string } (code entry,
+ * with the requestKey returned when the verification was requested)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { token, requestKey, code } = body as { token?: string; requestKey?: string; code?: string }
+
+    if (!token && !(requestKey && code)) {
+      return NextResponse.json(
+        { success: false, error: 'A verification token or a request key and code are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = token
+      ? await verifyEmailByToken(token)
+      : await verifyEmailByCode(requestKey as string, code as string)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Error verifying email:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 400 }
+    )
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/db'
+import { findIdentity } from '@/lib/services/entitlements.service'
+import { foldEmailAliases, parseEmail } from '@/lib/email'
+import { isEmailErased } from '@/lib/services/privacy.service'
 
 /**
  * POST /api/v1/webhooks/career-pathways
@@ -32,21 +35,36 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const normalizedEmail = email.toLowerCase().trim()
+    const normalizedEmail = parseEmail(email)
+
+    if (!normalizedEmail) {
+      console.warn('[CareerPathways Webhook] Invalid email in payload:', email)
+      return NextResponse.json(
+        { success: false, error: 'Invalid email address' },
+        { status: 400 }
+      )
+    }
+
+    if (await isEmailErased(normalizedEmail)) {
+      console.warn('[CareerPathways Webhook] Ignoring submission for an erased customer')
+      return NextResponse.json(
+        { success: false, error: 'Customer data has been erased' },
+        { status: 410 }
+      )
+    }
 
     console.log(`[CareerPathways Webhook] Received submission for: ${normalizedEmail}`)
 
     // Try to find existing identity by email
-    let identity = await prisma.identity.findFirst({
-      where: { primaryEmail: normalizedEmail }
-    })
+    let identity = await findIdentity({ primaryEmail: normalizedEmail })
 
     // Also check identity emails table
     if (!identity) {
       const identityEmail = await prisma.identityEmail.findFirst({
         where: {
           email: normalizedEmail,
-          productId: { in: ['careerpathway', 'career-pathways', 'careerpathways', 'career'] }
+          productId: { in: ['careerpathway', 'career-pathways', 'careerpathways', 'career'] },
+          verified: true
         },
         include: { identity: true }
       })
@@ -58,7 +76,8 @@ export async function POST(request: NextRequest) {
     if (!identity) {
       identity = await prisma.identity.create({
         data: {
-          primaryEmail: normalizedEmail
+          primaryEmail: normalizedEmail,
+          primaryEmailKey: foldEmailAliases(normalizedEmail)
         }
       })
       console.log(`[CareerPathways Webhook] Created new identity for: ${normalizedEmail}`)
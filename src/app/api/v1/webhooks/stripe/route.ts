@@ -1,10 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import {
   verifyWebhookSignature,
-  handleCheckoutCompleted,
-  handleSubscriptionUpdated,
-  handleSubscriptionDeleted,
-  logWebhookEvent
+  claimWebhookEvent,
+  applyWebhookEvent
 } from '@/lib/services/stripe.service'
 import Stripe from 'stripe'
 
@@ -32,52 +30,34 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  try {
-    let result: { handled: boolean; [key: string]: unknown } = { handled: false }
-
-    switch (event.type) {
-      case 'checkout.session.completed': {
-        const session = event.data.object as Stripe.Checkout.Session
-        result = await handleCheckoutCompleted(session)
-        break
-      }
-
-      case 'customer.subscription.created':
-      case 'customer.subscription.updated': {
-        const subscription = event.data.object as Stripe.Subscription
-        result = await handleSubscriptionUpdated(subscription)
-        break
-      }
-
-      case 'customer.subscription.deleted': {
-        const subscription = event.data.object as Stripe.Subscription
-        result = await handleSubscriptionDeleted(subscription)
-        break
-      }
+  // Claim the event first so Stripe retries never apply it twice
+  const claim = await claimWebhookEvent(event)
 
-      default:
-        console.log(`Unhandled event type: ${event.type}`)
-        await logWebhookEvent(event.id, event.type, event.data, 'ignored')
-        return NextResponse.json({ received: true, handled: false })
-    }
+  if (claim === 'duplicate') {
+    console.log(`Skipping already processed event: ${event.id}`)
+    return NextResponse.json({ received: true, duplicate: true })
+  }
 
-    await logWebhookEvent(
-      event.id,
-      event.type,
-      event.data,
-      result.handled ? 'success' : 'ignored'
+  if (claim === 'in_progress') {
+    // Non-2xx so Stripe retries later in case the other request fails
+    return NextResponse.json(
+      { error: 'Event is already being processed' },
+      { status: 409 }
     )
+  }
 
-    return NextResponse.json({ received: true, ...result })
-  } catch (err) {
-    const message = err instanceof Error ? err.message : 'Unknown error'
-    console.error('Webhook processing error:', message)
-
-    await logWebhookEvent(event.id, event.type, event.data, 'failed', message)
+  const outcome = await applyWebhookEvent(event)
 
+  if (outcome.status === 'failed') {
     return NextResponse.json(
-      { error: `Processing Error: ${message}` },
+      { error: `Processing Error: ${outcome.error}` },
       { status: 500 }
     )
   }
+
+  if (outcome.stale) {
+    return NextResponse.json({ received: true, handled: false, stale: true })
+  }
+
+  return NextResponse.json({ received: true, ...outcome.result })
 }
@@ -26,6 +26,7 @@ interface Product {
   name: string
   requiresEmail: boolean
   formSchema: FormField[] | null
+  claimed: boolean
 }
 
 interface ClaimData {
@@ -40,6 +41,7 @@ interface ClaimData {
 }
 
 interface ProductFormData {
+  activate: boolean
   email: string
   sameAsPurchase: boolean
   formData: Record<string, string>
@@ -55,6 +57,10 @@ export default function ClaimPage() {
   const [productForms, setProductForms] = useState<Record<string, ProductFormData>>({})
   const [success, setSuccess] = useState(false)
   const [activatedProducts, setActivatedProducts] = useState<{ product: string; email: string; status: string }[]>([])
+  const [complete, setComplete] = useState(true)
+  const [verificationCodes, setVerificationCodes] = useState<Record<string, string>>({})
+  const [verificationKeys, setVerificationKeys] = useState<Record<string, string>>({})
+  const [verifying, setVerifying] = useState<string | null>(null)
 
   useEffect(() => {
     fetchClaimData()
@@ -67,10 +73,11 @@ export default function ClaimPage() {
       setClaimData(data)
 
       if (data.valid && data.bundle) {
-        // Initialize form data for each product
+        // Initialize form data for each product not activated yet
         const forms: Record<string, ProductFormData> = {}
-        data.bundle.products.forEach((product: Product) => {
+        data.bundle.products.filter((product: Product) => !product.claimed).forEach((product: Product) => {
           forms[product.id] = {
+            activate: true,
             email: data.purchaseEmail || '',
             sameAsPurchase: true,
             formData: {}
@@ -103,15 +110,59 @@ export default function ClaimPage() {
     }))
   }
 
+  function handleActivateRemaining() {
+    setSuccess(false)
+    setLoading(true)
+    fetchClaimData()
+  }
+
+  async function handleVerifyCode(e: React.FormEvent, email: string) {
+    e.preventDefault()
+    setVerifying(email)
+
+    try {
+      const res = await fetch('/api/v1/verify-email', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestKey: verificationKeys[email.trim().toLowerCase()], code: verificationCodes[email] })
+      })
+
+      const data = await res.json()
+
+      if (data.success) {
+        toast.success(`${email} verified`)
+        setActivatedProducts(prev => prev.map((product) =>
+          product.email === email && product.status === 'pending_verification'
+            ? { ...product, status: 'ready' }
+            : product
+        ))
+      } else {
+        toast.error(data.error || 'Failed to verify email')
+      }
+    } catch (error) {
+      console.error('Error verifying email:', error)
+      toast.error('Failed to verify email')
+    } finally {
+      setVerifying(null)
+    }
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
+
+    const selected = Object.entries(productForms).filter(([, form]) => form.activate)
+    if (selected.length === 0) {
+      toast.error('Select at least one product to activate')
+      return
+    }
+
     setSubmitting(true)
 
     try {
-      // Build the products payload
+      // Build the products payload (only the products being activated now)
       const products: Record<string, { email: string; formData?: Record<string, string> }> = {}
 
-      Object.entries(productForms).forEach(([productId, form]) => {
+      selected.forEach(([productId, form]) => {
         products[productId] = {
           email: form.sameAsPurchase ? (claimData?.purchaseEmail || '') : form.email,
           ...(Object.keys(form.formData).length > 0 && { formData: form.formData })
@@ -129,7 +180,14 @@ export default function ClaimPage() {
       if (data.success) {
         setSuccess(true)
         setActivatedProducts(data.activated)
-        toast.success('Bundle activated successfully!')
+        setVerificationKeys(Object.fromEntries(
+          (data.verifications || []).map((v: { email: string; requestKey: string }) => [v.email, v.requestKey])
+        ))
+        setComplete(data.complete)
+        toast.success(data.message)
+        if (data.verificationSent === false) {
+          toast.error('We couldn\'t send the verification email. Contact support to confirm your email.')
+        }
       } else {
         toast.error(data.error || 'Failed to activate bundle')
       }
@@ -173,6 +231,10 @@ export default function ClaimPage() {
   }
 
   if (success) {
+    const unverifiedEmails = [...new Set(
+      activatedProducts.filter((p) => p.status === 'pending_verification').map((p) => p.email)
+    )]
+
     return (
       <div className="min-h-screen bg-gray-50 py-12 px-4">
         <div className="max-w-2xl mx-auto">
@@ -183,9 +245,11 @@ export default function ClaimPage() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                 </svg>
               </div>
-              <CardTitle className="text-2xl">Bundle Activated!</CardTitle>
+              <CardTitle className="text-2xl">{complete ? 'Bundle Activated!' : 'Products Activated!'}</CardTitle>
               <CardDescription>
-                Your {claimData.bundle?.name} has been activated successfully.
+                {complete
+                  ? `Your ${claimData.bundle?.name} has been activated successfully.`
+                  : `These products from your ${claimData.bundle?.name} are now active.`}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -195,16 +259,61 @@ export default function ClaimPage() {
                     <p className="font-medium">{product.product}</p>
                     <p className="text-sm text-gray-600">{product.email}</p>
                   </div>
-                  <Badge variant={product.status === 'ready' ? 'default' : 'secondary'}>
-                    {product.status === 'ready' ? 'Ready' : 'Processing'}
-                  </Badge>
+                  {product.status === 'pending_verification' ? (
+                    <Badge variant="outline">Verify Email</Badge>
+                  ) : (
+                    <Badge variant={product.status === 'ready' ? 'default' : 'secondary'}>
+                      {product.status === 'ready' ? 'Ready' : 'Processing'}
+                    </Badge>
+                  )}
                 </div>
               ))}
 
+              {unverifiedEmails.map((email) => (
+                <form
+                  key={email}
+                  onSubmit={(e) => handleVerifyCode(e, email)}
+                  className="p-4 border rounded-lg space-y-2"
+                >
+                  <Label htmlFor={`code-${email}`} className="text-sm">
+                    We sent a code to {email}. Enter it here or click the link in that email.
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id={`code-${email}`}
+                      inputMode="numeric"
+                      maxLength={6}
+                      placeholder="123456"
+                      value={verificationCodes[email] || ''}
+                      onChange={(e) => setVerificationCodes({ ...verificationCodes, [email]: e.target.value })}
+                      required
+                    />
+                    <Button type="submit" disabled={verifying !== null}>
+                      {verifying === email ? 'Verifying...' : 'Verify'}
+                    </Button>
+                  </div>
+                </form>
+              ))}
+
               <div className="pt-4 text-center text-sm text-gray-600">
                 <p>You can now log in to each product using the email addresses above.</p>
                 <p className="mt-2">Products marked as "Processing" will be ready shortly.</p>
+                {unverifiedEmails.length > 0 && (
+                  <p className="mt-2">Products waiting on an email verification activate once you confirm the address.</p>
+                )}
               </div>
+
+              {!complete && (
+                <div className="pt-4 border-t text-center space-y-3">
+                  <p className="text-sm text-gray-600">
+                    You can activate the rest of your bundle later with the same link
+                    {claimData.expiresAt && ` before ${new Date(claimData.expiresAt).toLocaleDateString()}`}.
+                  </p>
+                  <Button variant="outline" onClick={handleActivateRemaining}>
+                    Activate Remaining Products
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -212,6 +321,11 @@ export default function ClaimPage() {
     )
   }
 
+  const products = claimData.bundle?.products || []
+  const pendingCount = products.filter((p) => !p.claimed).length
+  const activatingAll = pendingCount === products.length &&
+    Object.values(productForms).every((form) => form.activate)
+
   return (
     <div className="min-h-screen bg-gray-50 py-12 px-4">
       <div className="max-w-2xl mx-auto">
@@ -225,7 +339,16 @@ export default function ClaimPage() {
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
-          {claimData.bundle?.products.map((product, index) => (
+          {claimData.bundle?.products.map((product, index) => product.claimed ? (
+            <Card key={product.id}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">{product.name}</CardTitle>
+                  <Badge>Activated</Badge>
+                </div>
+              </CardHeader>
+            </Card>
+          ) : (
             <Card key={product.id}>
               <CardHeader>
                 <div className="flex items-center justify-between">
@@ -235,7 +358,22 @@ export default function ClaimPage() {
                 <CardDescription>
                   {product.formSchema ? 'Complete the form below to activate this product.' : 'Enter the email you\'ll use for this product.'}
                 </CardDescription>
+                {pendingCount > 1 && (
+                  <div className="flex items-center space-x-2 pt-2">
+                    <Checkbox
+                      id={`activate-${product.id}`}
+                      checked={productForms[product.id]?.activate}
+                      onCheckedChange={(checked) =>
+                        updateProductForm(product.id, { activate: !!checked })
+                      }
+                    />
+                    <Label htmlFor={`activate-${product.id}`} className="text-sm">
+                      Activate now
+                    </Label>
+                  </div>
+                )}
               </CardHeader>
+              {productForms[product.id]?.activate ? (
               <CardContent className="space-y-4">
                 {/* Email field */}
                 <div className="space-y-2">
@@ -313,11 +451,16 @@ export default function ClaimPage() {
                   </div>
                 ))}
               </CardContent>
+              ) : (
+                <CardContent>
+                  <p className="text-sm text-gray-500">You can activate this product later with the same link.</p>
+                </CardContent>
+              )}
             </Card>
           ))}
 
           <Button type="submit" className="w-full" size="lg" disabled={submitting}>
-            {submitting ? 'Activating...' : 'Activate My Bundle'}
+            {submitting ? 'Activating...' : activatingAll ? 'Activate My Bundle' : 'Activate Selected Products'}
           </Button>
         </form>
       </div>
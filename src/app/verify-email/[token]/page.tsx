@@ -0,0 +1,73 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+export default function VerifyEmailPage() {
+  const params = useParams()
+  const token = params.token as string
+
+  const [loading, setLoading] = useState(true)
+  const [email, setEmail] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function verify() {
+      try {
+        const res = await fetch('/api/v1/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token })
+        })
+        const data = await res.json()
+
+        if (data.success) {
+          setEmail(data.email)
+        } else {
+          setError(data.error || 'Failed to verify email')
+        }
+      } catch (err) {
+        console.error('Error verifying email:', err)
+        setError('Failed to verify email')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    verify()
+  }, [token])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Verifying...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="max-w-md w-full">
+        <CardHeader>
+          <CardTitle className={error ? 'text-red-600' : undefined}>
+            {error ? 'Verification Failed' : 'Email Verified!'}
+          </CardTitle>
+          <CardDescription>
+            {error || `${email} is confirmed. Your products are now active for this address.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-600">
+            {error
+              ? 'If you believe this is an error, please contact support.'
+              : 'You can close this page and log in to your products.'}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { adminFetch } from '@/lib/admin-fetch'
+
+interface Enrolment {
+  secret: string
+  qrCode: string
+}
+
+export interface TwoFactorEnabled {
+  recoveryCodes: string[]
+}
+
+function preAuthHeaders(preAuthToken?: string): Record<string, string> {
+  return preAuthToken ? { Authorization: `Bearer ${preAuthToken}` } : {}
+}
+
+/**
+ * Scan-and-confirm 2FA enrolment, used by the profile page and by login when an owner requires 2FA
+ * Signed-in admins use their session; during login, pass the pre-auth token instead.
+ */
+export function TwoFactorEnrolment({
+  preAuthToken,
+  onEnabled
+}: {
+  preAuthToken?: string
+  onEnabled: (result: TwoFactorEnabled) => void
+}) {
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null)
+  const [code, setCode] = useState('')
+  const [verifying, setVerifying] = useState(false)
+  // Each setup call replaces the pending secret, so only make one
+  const started = useRef(false)
+
+  useEffect(() => {
+    async function beginEnrolment() {
+      try {
+        const res = await adminFetch('/api/v1/admin/auth/2fa/setup', {
+          method: 'POST',
+          headers: preAuthHeaders(preAuthToken)
+        })
+        const data = await res.json()
+
+        if (data.success) {
+          setEnrolment(data)
+        } else {
+          toast.error(data.error || 'Failed to start two-factor setup')
+        }
+      } catch (error) {
+        console.error('Error starting two-factor setup:', error)
+        toast.error('Failed to start two-factor setup')
+      }
+    }
+
+    if (!started.current) {
+      started.current = true
+      beginEnrolment()
+    }
+  }, [preAuthToken])
+
+  async function handleVerify(e: React.FormEvent) {
+    e.preventDefault()
+    setVerifying(true)
+
+    try {
+      const res = await adminFetch('/api/v1/admin/auth/2fa/enable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...preAuthHeaders(preAuthToken) },
+        body: JSON.stringify({ code })
+      })
+      const data = await res.json()
+
+      if (data.success) {
+        onEnabled(data)
+      } else {
+        toast.error(data.error || 'Invalid code')
+      }
+    } catch (error) {
+      console.error('Error enabling two-factor authentication:', error)
+      toast.error('Failed to enable two-factor authentication')
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  if (!enrolment) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Scan this QR code with an authenticator app (1Password, Google Authenticator, Authy...), then
+        enter the 6-digit code it shows.
+      </p>
+      {/* eslint-disable-next-line @next/next/no-img-element -- data URL, nothing for next/image to optimize */}
+      <img src={enrolment.qrCode} alt="Two-factor QR code" className="w-48 h-48 mx-auto border rounded-md" />
+      <p className="text-xs text-gray-500 text-center">
+        Can&apos;t scan it? Enter this key instead:{' '}
+        <span className="font-mono break-all">{enrolment.secret}</span>
+      </p>
+      <form onSubmit={handleVerify} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="totpCode">Code</Label>
+          <Input
+            id="totpCode"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            required
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={verifying}>
+          {verifying ? 'Verifying...' : 'Turn On Two-Factor'}
+        </Button>
+      </form>
+    </div>
+  )
+}
+
+/**
+ * One-time display of recovery codes, with a download so they get saved somewhere
+ */
+export function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  function handleDownload() {
+    const blob = new Blob([codes.join('\n') + '\n'], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'admin-recovery-codes.txt'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator. They won&apos;t be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 border rounded-md font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={handleDownload}>
+          Download
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => navigator.clipboard.writeText(codes.join('\n')).then(() => toast.success('Copied'))}
+        >
+          Copy
+        </Button>
+        <Button className="ml-auto" onClick={onDone}>
+          I&apos;ve Saved Them
+        </Button>
+      </div>
+    </div>
+  )
+}
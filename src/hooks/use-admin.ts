@@ -0,0 +1,25 @@
+'use client'
+
+import { createContext, useContext } from 'react'
+import { AdminUser } from '@/lib/types'
+import { hasPermission, Permission } from '@/lib/permissions'
+
+const AdminContext = createContext<AdminUser | null>(null)
+
+/**
+ * Provides the signed-in admin to the admin pages (set up by admin/layout.tsx)
+ */
+export const AdminProvider = AdminContext.Provider
+
+/**
+ * The signed-in admin and a check for what their role allows
+ * Hiding controls is a convenience; the API enforces the same permissions.
+ */
+export function useAdmin() {
+  const admin = useContext(AdminContext)
+
+  return {
+    admin,
+    can: (permission: Permission) => !!admin && hasPermission(admin.role, permission)
+  }
+}
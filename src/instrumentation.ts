@@ -0,0 +1,11 @@
+/**
+ * Runs once when the server starts, before it handles any request
+ */
+export function register() {
+  // Pre-auth and customer tokens are signed with JWT_SECRET. The fallback in
+  // auth.service is only for local development; anyone who read this file
+  // could forge tokens with it, so refuse to start without a real secret.
+  if (process.env.NODE_ENV === 'production' && !process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET must be set in production')
+  }
+}
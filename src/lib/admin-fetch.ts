@@ -0,0 +1,33 @@
+/**
+ * Admin API calls from the browser
+ *
+ * The session lives in an httpOnly cookie the page can't read. Writes also
+ * need the session's CSRF token, which the server puts in a readable cookie
+ * and expects back in a header; another site can make the browser send the
+ * session cookie but can't read this one to copy it.
+ */
+
+export const ADMIN_SESSION_COOKIE = 'admin_session'
+export const ADMIN_CSRF_COOKIE = 'admin_csrf'
+export const CSRF_HEADER = 'X-CSRF-Token'
+
+// Methods that never change anything, so they don't need the CSRF header
+export const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+function readCookie(name: string): string | null {
+  const match = document.cookie.split('; ').find((c) => c.startsWith(`${name}=`))
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null
+}
+
+/**
+ * fetch() for admin API routes: sends the session cookie, and the CSRF token on writes
+ */
+export function adminFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers)
+
+  if (!SAFE_METHODS.includes((init.method || 'GET').toUpperCase())) {
+    headers.set(CSRF_HEADER, readCookie(ADMIN_CSRF_COOKIE) || '')
+  }
+
+  return fetch(input, { ...init, headers, credentials: 'same-origin' })
+}
@@ -0,0 +1,87 @@
+/**
+ * Email canonicalization shared by every entry point
+ *
+ * Stored addresses are always normalized (trimmed, lowercased). Products
+ * with foldEmailAliases set also match on the folded key, which ignores
+ * +tags and Gmail dots, so jane.doe+work@gmail.com finds janedoe@gmail.com.
+ * The folded key is only ever used for matching; syncs and emails go to
+ * the normalized address the customer actually gave us.
+ */
+
+export const INVALID_EMAIL_ERROR = 'Invalid email address'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Stands in for addresses removed by a data erasure; .invalid never resolves
+export const ERASED_EMAIL_DOMAIN = 'erased.invalid'
+export const ERASED_EMAIL = `erased@${ERASED_EMAIL_DOMAIN}`
+
+// Gmail ignores dots in the local part and serves both domains
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com']
+
+/**
+ * Trim and lowercase an email
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/**
+ * Whether an email looks deliverable (one @, a dotted domain, no spaces)
+ */
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(normalizeEmail(email))
+}
+
+/**
+ * Normalize an email, or return null if it isn't a valid address
+ */
+export function parseEmail(input: unknown): string | null {
+  if (typeof input !== 'string') {
+    return null
+  }
+
+  const email = normalizeEmail(input)
+  return EMAIL_PATTERN.test(email) ? email : null
+}
+
+/**
+ * Normalize an email, throwing INVALID_EMAIL_ERROR if it isn't a valid address
+ */
+export function requireEmail(input: unknown): string {
+  const email = parseEmail(input)
+
+  if (!email) {
+    throw new Error(INVALID_EMAIL_ERROR)
+  }
+
+  return email
+}
+
+/**
+ * Folded key for alias-aware matching: drops +tags, and Gmail dots
+ */
+export function foldEmailAliases(email: string): string {
+  const normalized = normalizeEmail(email)
+  const at = normalized.lastIndexOf('@')
+
+  if (at === -1) {
+    return normalized
+  }
+
+  const local = normalized.slice(0, at).split('+')[0]
+  const domain = normalized.slice(at + 1)
+
+  if (GMAIL_DOMAINS.includes(domain)) {
+    return `${local.replace(/\./g, '')}@gmail.com`
+  }
+
+  return `${local}@${domain}`
+}
+
+/**
+ * Canonical form of an email under a product's policy
+ */
+export function canonicalEmail(email: string, options: { foldAliases?: boolean } = {}): string {
+  return options.foldAliases ? foldEmailAliases(email) : normalizeEmail(email)
+}
@@ -1,37 +1,144 @@
+import { timingSafeEqual } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyToken, getAdminById } from '@/lib/services/auth.service'
+import { verifyPreAuthToken, getAdminById, TwoFactorStep } from '@/lib/services/auth.service'
+import { AdminSessionInfo, createAdminSession, getAdminSession } from '@/lib/services/admin-session.service'
+import { Lockout } from '@/lib/services/login-throttle.service'
+import { getClientIp } from '@/lib/middleware/api-key-auth'
 import { AdminUser } from '@/lib/types'
+import { hasPermission, Permission } from '@/lib/permissions'
+import { ADMIN_CSRF_COOKIE, ADMIN_SESSION_COOKIE, CSRF_HEADER, SAFE_METHODS } from '@/lib/admin-fetch'
+
+// The session cookie is only ever needed by the admin API
+const SESSION_COOKIE_PATH = '/api/v1/admin'
 
 export interface AuthenticatedRequest extends NextRequest {
   admin?: AdminUser
 }
 
+function csrfTokenMatches(expected: string, received: string | null): boolean {
+  if (!received) {
+    return false
+  }
+
+  // Compare byte lengths: timingSafeEqual throws on buffers of different sizes
+  const a = Buffer.from(received)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
 /**
- * Verify admin authentication from Authorization header
+ * Verify the admin session cookie
+ * Writes must also carry the session's CSRF token in the X-CSRF-Token header.
+ * With a permission, also check that the admin's role grants it.
  */
 export async function verifyAdminAuth(
-  request: NextRequest
-): Promise<{ admin: AdminUser } | { error: string; status: number }> {
-  const authHeader = request.headers.get('Authorization')
+  request: NextRequest,
+  permission?: Permission
+): Promise<{ admin: AdminUser; session: AdminSessionInfo } | { error: string; status: number }> {
+  const token = request.cookies.get(ADMIN_SESSION_COOKIE)?.value
+
+  if (!token) {
+    return { error: 'Not signed in', status: 401 }
+  }
+
+  const result = await getAdminSession(token)
+
+  if (!result) {
+    return { error: 'Session expired; sign in again', status: 401 }
+  }
 
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return { error: 'Missing or invalid Authorization header', status: 401 }
+  if (!SAFE_METHODS.includes(request.method) && !csrfTokenMatches(result.session.csrfToken, request.headers.get(CSRF_HEADER))) {
+    return { error: 'Missing or invalid CSRF token', status: 403 }
   }
 
-  const token = authHeader.substring(7)
-  const payload = verifyToken(token)
+  if (permission && !hasPermission(result.admin.role, permission)) {
+    return { error: 'Your role does not allow this action', status: 403 }
+  }
+
+  return result
+}
 
-  if (!payload) {
+/**
+ * Verify either a full admin session or a pre-auth token for one 2FA step
+ * Admins who must enrol in 2FA, or still have to enter a code, only hold a
+ * pre-auth token (sent as a Bearer token); the endpoints for that step accept
+ * it in place of a session.
+ */
+export async function verifyAdminOrPreAuth(
+  request: NextRequest,
+  step: TwoFactorStep
+): Promise<{ admin: AdminUser; preAuth: boolean } | { error: string; status: number }> {
+  const authHeader = request.headers.get('Authorization')
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null
+  const preAuth = token ? verifyPreAuthToken(token) : null
+
+  if (!preAuth) {
+    const authResult = await verifyAdminAuth(request)
+    return 'error' in authResult ? authResult : { admin: authResult.admin, preAuth: false }
+  }
+
+  if (preAuth.step !== step) {
     return { error: 'Invalid or expired token', status: 401 }
   }
 
-  const admin = await getAdminById(payload.userId)
+  const admin = await getAdminById(preAuth.userId)
 
   if (!admin) {
     return { error: 'Admin user not found', status: 401 }
   }
 
-  return { admin }
+  return { admin, preAuth: true }
+}
+
+/**
+ * The browser and IP a request came from, as recorded on sessions and security events
+ */
+export function getRequestClient(request: NextRequest) {
+  return {
+    userAgent: request.headers.get('user-agent'),
+    ipAddress: getClientIp(request)
+  }
+}
+
+/**
+ * Start a session for a fully signed-in admin and respond with its cookies
+ */
+export async function startAdminSession(
+  request: NextRequest,
+  admin: AdminUser,
+  body: Record<string, unknown>
+): Promise<NextResponse> {
+  const session = await createAdminSession(admin.id, getRequestClient(request))
+
+  const response = NextResponse.json(body)
+  const secure = process.env.NODE_ENV === 'production'
+
+  response.cookies.set(ADMIN_SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: SESSION_COOKIE_PATH,
+    expires: session.expiresAt
+  })
+
+  // Readable by the admin pages, which echo it back in the CSRF header
+  response.cookies.set(ADMIN_CSRF_COOKIE, session.csrfToken, {
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    expires: session.expiresAt
+  })
+
+  return response
+}
+
+/**
+ * Remove the session cookies from the browser
+ */
+export function clearAdminSessionCookies(response: NextResponse): NextResponse {
+  response.cookies.set(ADMIN_SESSION_COOKIE, '', { path: SESSION_COOKIE_PATH, maxAge: 0 })
+  response.cookies.set(ADMIN_CSRF_COOKIE, '', { path: '/', maxAge: 0 })
+  return response
 }
 
 /**
@@ -41,14 +148,28 @@ export function unauthorizedResponse(message: string = 'Unauthorized') {
   return NextResponse.json({ error: message }, { status: 401 })
 }
 
+/**
+ * Create a response for an attempt blocked by a lockout
+ */
+export function tooManyAttemptsResponse(lockout: Lockout) {
+  const minutes = Math.ceil(lockout.retryAfterSeconds / 60)
+
+  return NextResponse.json(
+    { error: `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.` },
+    { status: 429, headers: { 'Retry-After': String(lockout.retryAfterSeconds) } }
+  )
+}
+
 /**
  * Higher-order function to wrap admin-protected route handlers
+ * The handler only runs if the admin's role grants the permission.
  */
 export function withAdminAuth<T>(
+  permission: Permission,
   handler: (request: NextRequest, admin: AdminUser, context: T) => Promise<NextResponse>
 ) {
   return async (request: NextRequest, context: T): Promise<NextResponse> => {
-    const authResult = await verifyAdminAuth(request)
+    const authResult = await verifyAdminAuth(request, permission)
 
     if ('error' in authResult) {
       return NextResponse.json(
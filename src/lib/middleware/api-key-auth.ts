@@ -0,0 +1,90 @@
+import { timingSafeEqual } from 'crypto'
+import { NextRequest } from 'next/server'
+import { authenticateApiKey } from '@/lib/services/api-client.service'
+import { API_SCOPES, ApiScope } from '@/lib/types'
+
+// Shared key that predates per-app keys - still accepted while apps migrate
+const LEGACY_API_KEY = process.env.CENTRAL_DASHBOARD_API_KEY
+
+// Proxies in front of the app that each append to X-Forwarded-For
+const TRUSTED_PROXY_HOPS = Math.max(parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10) || 1, 1)
+
+export interface ApiKeyClient {
+  id: number | null
+  name: string
+  appKey: string | null
+  scopes: string[]
+}
+
+/**
+ * Read the API key from X-Api-Key, a Bearer token, or the legacy X-Admin-Api-Key header
+ */
+function getApiKeyFromRequest(request: NextRequest): string | null {
+  const apiKey = request.headers.get('x-api-key')
+  if (apiKey) {
+    return apiKey
+  }
+
+  const authHeader = request.headers.get('authorization')
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7)
+  }
+
+  return request.headers.get('x-admin-api-key')
+}
+
+/**
+ * Get the caller's IP address (Heroku appends it to X-Forwarded-For)
+ *
+ * Earlier entries come from the client and can say anything, so the address
+ * is read from the right: the entry added by the outermost trusted proxy.
+ * Set TRUSTED_PROXY_HOPS when another proxy (e.g. a CDN) sits in front.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  const hops = forwardedFor?.split(',').map((ip) => ip.trim()) || []
+  return hops[hops.length - TRUSTED_PROXY_HOPS] || null
+}
+
+function isLegacyApiKey(apiKey: string): boolean {
+  if (!LEGACY_API_KEY) {
+    return false
+  }
+
+  const received = Buffer.from(apiKey)
+  const expected = Buffer.from(LEGACY_API_KEY)
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+/**
+ * Verify an app's API key and that it holds the required scope
+ */
+export async function verifyApiKey(
+  request: NextRequest,
+  scope: ApiScope
+): Promise<{ client: ApiKeyClient } | { error: string; status: number }> {
+  const apiKey = getApiKeyFromRequest(request)
+
+  if (!apiKey) {
+    return { error: 'Missing API key', status: 401 }
+  }
+
+  if (isLegacyApiKey(apiKey)) {
+    console.warn(`[ApiKeyAuth] Legacy shared API key used for ${scope} - issue a per-app key`)
+    return {
+      client: { id: null, name: 'legacy-shared-key', appKey: null, scopes: [...API_SCOPES] }
+    }
+  }
+
+  const client = await authenticateApiKey(apiKey, getClientIp(request))
+
+  if (!client) {
+    return { error: 'Invalid or revoked API key', status: 401 }
+  }
+
+  if (!client.scopes.includes(scope)) {
+    return { error: `API key is missing required scope: ${scope}`, status: 403 }
+  }
+
+  return { client }
+}
@@ -0,0 +1,26 @@
+import { timingSafeEqual } from 'crypto'
+import { NextRequest } from 'next/server'
+
+/**
+ * Verify a scheduled job request (Heroku Scheduler, external cron)
+ * Callers send `Authorization: Bearer <CRON_SECRET>`.
+ */
+export function verifyCronAuth(
+  request: NextRequest
+): { ok: true } | { error: string; status: number } {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    console.error('[Cron] CRON_SECRET not configured')
+    return { error: 'Server configuration error', status: 500 }
+  }
+
+  const received = Buffer.from(request.headers.get('Authorization') || '')
+  const expected = Buffer.from(`Bearer ${cronSecret}`)
+
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  return { ok: true }
+}
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { verifyCustomerToken } from '@/lib/services/auth.service'
+import { findIdentity } from '@/lib/services/entitlements.service'
+
+export interface AuthenticatedCustomer {
+  identityId: string
+  email: string // Address the customer signed in with
+}
+
+/**
+ * Verify a customer account session from the Authorization header
+ * Sessions follow merges, so a customer keeps working after an admin merges them.
+ */
+export async function verifyCustomerAuth(
+  request: NextRequest
+): Promise<{ customer: AuthenticatedCustomer } | { error: string; status: number }> {
+  const authHeader = request.headers.get('Authorization')
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return { error: 'Missing or invalid Authorization header', status: 401 }
+  }
+
+  const payload = verifyCustomerToken(authHeader.substring(7))
+
+  if (!payload) {
+    return { error: 'Invalid or expired session', status: 401 }
+  }
+
+  const identity = await findIdentity({ id: payload.identityId })
+
+  if (!identity || identity.erasedAt) {
+    return { error: 'Account not found', status: 401 }
+  }
+
+  return { customer: { identityId: identity.id, email: payload.email } }
+}
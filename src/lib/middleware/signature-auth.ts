@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server'
+import { ApiKeyClient } from '@/lib/middleware/api-key-auth'
+import { getActiveConnectedApp, recordSignatureNonce } from '@/lib/services/connected-app.service'
+import { SIGNATURE_HEADER, verifySignature } from '@/lib/webhook-signature'
+import { ApiScope } from '@/lib/types'
+
+/**
+ * Whether the request carries a signature header instead of an API key
+ */
+export function hasSignature(request: NextRequest): boolean {
+  return request.headers.has(SIGNATURE_HEADER)
+}
+
+/**
+ * Verify a request signed with a connected app's signing secret
+ * Each signature is accepted once; a repeat within the tolerance window is a replay.
+ */
+export async function verifySignedRequest(
+  request: NextRequest,
+  rawBody: string,
+  appKey: string | undefined,
+  scope: ApiScope
+): Promise<{ client: ApiKeyClient } | { error: string; status: number }> {
+  if (!appKey) {
+    return { error: 'Signed requests must identify the app', status: 401 }
+  }
+
+  const app = await getActiveConnectedApp(appKey)
+
+  if (!app?.signingSecret) {
+    return { error: `No signing secret configured for ${appKey}`, status: 401 }
+  }
+
+  const result = verifySignature(request.headers.get(SIGNATURE_HEADER), rawBody, app.signingSecret)
+
+  if (!result.valid) {
+    return { error: result.error, status: 401 }
+  }
+
+  if (!(await recordSignatureNonce(app.id, result.signature))) {
+    return { error: 'Signature already used', status: 401 }
+  }
+
+  return {
+    client: { id: null, name: `signed:${app.id}`, appKey: app.id, scopes: [scope] }
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Admin roles and what each one may do
+ *
+ * Shared by the API, where withAdminAuth enforces a permission per route,
+ * and the admin UI, which hides what the current role can't use.
+ */
+
+export const ADMIN_ROLES = ['owner', 'admin', 'support', 'analyst'] as const
+
+export type AdminRole = (typeof ADMIN_ROLES)[number]
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  support: 'Support',
+  analyst: 'Analyst (read-only)'
+}
+
+export const PERMISSIONS = [
+  'analytics:read',
+  'customers:read',
+  'customers:write', // Grant, revoke, claims, product emails, merges
+  'customers:privacy', // Export and erase customer data
+  'products:read',
+  'products:write',
+  'bundles:read',
+  'bundles:write',
+  'apps:read', // Connected apps and API keys
+  'apps:write',
+  'sync:read',
+  'sync:write', // Run, redeliver and replay syncs and webhooks
+  'logs:read',
+  'admins:manage'
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+const READ_PERMISSIONS = PERMISSIONS.filter((p) => p.endsWith(':read'))
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  admin: PERMISSIONS.filter((p) => p !== 'admins:manage'),
+  support: [...READ_PERMISSIONS, 'customers:write', 'sync:write'],
+  analyst: READ_PERMISSIONS
+}
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value)
+}
+
+/**
+ * Whether a role grants a permission; unknown roles grant nothing
+ */
+export function hasPermission(role: string, permission: Permission): boolean {
+  return isAdminRole(role) && ROLE_PERMISSIONS[role].includes(permission)
+}
@@ -0,0 +1,268 @@
+import { nanoid } from 'nanoid'
+import prisma from '@/lib/db'
+import { normalizeEmail, requireEmail } from '@/lib/email'
+import { createCustomerToken } from './auth.service'
+import { activeEntitlementWhere, findIdentity, getEntitlements, linkEmailToIdentity } from './entitlements.service'
+import { requestEmailVerifications } from './email-verification.service'
+import { enqueueGrantSync, enqueueRevokeSync, processSyncOutbox } from './app-sync.service'
+import { sendAccountLoginEmail } from './email.service'
+import { createBillingPortalSession, listCustomerReceipts } from './stripe.service'
+
+const MINUTE_MS = 60 * 1000
+
+// How long a sign-in link stays valid
+const LOGIN_TOKEN_TTL_MINUTES = 15
+
+// Sign-in links sent per customer within one TTL window
+const MAX_LOGIN_TOKENS_PER_WINDOW = 3
+
+/**
+ * Find the customer an address belongs to: their primary email or a verified product email
+ */
+async function findAccountByEmail(email: string) {
+  const identity = await findIdentity({ primaryEmail: email })
+
+  if (identity) {
+    return identity
+  }
+
+  const link = await prisma.identityEmail.findFirst({
+    where: { email, verified: true },
+    orderBy: { addedAt: 'asc' }
+  })
+
+  return link ? findIdentity({ id: link.identityId }) : null
+}
+
+async function getAccountIdentity(identityId: string) {
+  const identity = await findIdentity({ id: identityId })
+
+  if (!identity || identity.erasedAt) {
+    throw new Error('Account not found')
+  }
+
+  return identity
+}
+
+/**
+ * Email a one-time sign-in link to the account page
+ *
+ * Unknown addresses are ignored without an error so the form can't be used
+ * to find out who is a customer. Returns whether a link was sent.
+ */
+export async function requestAccountLogin(email: string): Promise<boolean> {
+  const normalizedEmail = requireEmail(email)
+  const identity = await findAccountByEmail(normalizedEmail)
+
+  if (!identity || identity.erasedAt) {
+    console.log('[Account] Sign-in requested for unknown email')
+    return false
+  }
+
+  const recent = await prisma.accountLoginToken.count({
+    where: { identityId: identity.id, createdAt: { gt: new Date(Date.now() - LOGIN_TOKEN_TTL_MINUTES * MINUTE_MS) } }
+  })
+
+  if (recent >= MAX_LOGIN_TOKENS_PER_WINDOW) {
+    console.warn(`[Account] Sign-in link limit reached for identity ${identity.id}`)
+    return false
+  }
+
+  const loginToken = await prisma.accountLoginToken.create({
+    data: {
+      identityId: identity.id,
+      email: normalizedEmail,
+      token: nanoid(32),
+      expiresAt: new Date(Date.now() + LOGIN_TOKEN_TTL_MINUTES * MINUTE_MS)
+    }
+  })
+
+  return sendAccountLoginEmail({
+    email: normalizedEmail,
+    token: loginToken.token,
+    expiresInMinutes: LOGIN_TOKEN_TTL_MINUTES
+  })
+}
+
+/**
+ * Exchange a sign-in link for a customer session, exactly once
+ */
+export async function completeAccountLogin(token: string) {
+  const loginToken = await prisma.accountLoginToken.findUnique({ where: { token } })
+
+  if (!loginToken) {
+    throw new Error('Invalid sign-in link')
+  }
+
+  if (loginToken.usedAt) {
+    throw new Error('Sign-in link already used')
+  }
+
+  if (loginToken.expiresAt < new Date()) {
+    throw new Error('Sign-in link expired')
+  }
+
+  // The lock: only one request can use the link
+  const used = await prisma.accountLoginToken.updateMany({
+    where: { id: loginToken.id, usedAt: null },
+    data: { usedAt: new Date() }
+  })
+
+  if (used.count === 0) {
+    throw new Error('Sign-in link already used')
+  }
+
+  const identity = await getAccountIdentity(loginToken.identityId)
+
+  await prisma.auditLog.create({
+    data: {
+      action: 'account_login',
+      identityId: identity.id,
+      productIds: [],
+      details: { email: loginToken.email }
+    }
+  })
+
+  return {
+    token: createCustomerToken({ identityId: identity.id, email: loginToken.email }),
+    email: loginToken.email
+  }
+}
+
+/**
+ * Everything the account page shows: products with access details and app
+ * links, the emails linked to each product, and what billing is available
+ */
+export async function getAccount(identityId: string) {
+  const identity = await getAccountIdentity(identityId)
+
+  const [entitlements, products, links, subscriptionCount] = await Promise.all([
+    getEntitlements(identity.primaryEmail),
+    prisma.product.findMany({ where: { isActive: true }, select: { id: true, appUrl: true } }),
+    prisma.identityEmail.findMany({
+      where: { identityId: identity.id },
+      select: { email: true, productId: true, verified: true },
+      orderBy: { addedAt: 'asc' }
+    }),
+    prisma.entitlement.count({
+      where: { identityId: identity.id, stripeSubscriptionId: { not: null } }
+    })
+  ])
+
+  return {
+    email: identity.primaryEmail,
+    name: identity.name,
+    products: entitlements.products.map((product) => ({
+      ...product,
+      appUrl: products.find((p) => p.id === product.id)?.appUrl || null,
+      emails: links
+        .filter((l) => l.productId === product.id)
+        .map((l) => ({ email: l.email, verified: l.verified }))
+    })),
+    hasBillingPortal: !!identity.stripeCustomerId && subscriptionCount > 0,
+    hasReceipts: !!identity.stripeCustomerId
+  }
+}
+
+/**
+ * Set the email a customer uses for one product
+ *
+ * The new address replaces the product's current links. It is trusted when
+ * it is the primary email, the address the customer signed in with, or
+ * already verified on their account; otherwise a verification email is sent
+ * and the app is only synced once it is confirmed. Setting the primary email
+ * clears the product's links so access falls back to it.
+ */
+export async function setProductEmail(params: {
+  identityId: string
+  productId: string
+  email: string
+  sessionEmail: string
+}) {
+  const email = requireEmail(params.email)
+  const identity = await getAccountIdentity(params.identityId)
+
+  const entitlement = await prisma.entitlement.findFirst({
+    where: { identityId: identity.id, productId: params.productId, ...activeEntitlementWhere() }
+  })
+
+  if (!entitlement) {
+    throw new Error('You do not have access to this product')
+  }
+
+  const [current, verifiedElsewhere] = await Promise.all([
+    prisma.identityEmail.findMany({ where: { identityId: identity.id, productId: params.productId } }),
+    prisma.identityEmail.findFirst({ where: { identityId: identity.id, email, verified: true } })
+  ])
+
+  if (current.some((l) => l.email === email && l.verified)) {
+    throw new Error(`${email} is already linked to this product`)
+  }
+
+  const isPrimary = email === identity.primaryEmail
+  const trusted = isPrimary || email === normalizeEmail(params.sessionEmail) || !!verifiedElsewhere
+  const removed = current.filter((l) => l.email !== email)
+
+  const { verified, outboxIds } = await prisma.$transaction(async (tx) => {
+    await tx.identityEmail.deleteMany({ where: { id: { in: removed.map((l) => l.id) } } })
+
+    const { verified } = isPrimary
+      ? { verified: true }
+      : await linkEmailToIdentity(identity.id, email, params.productId, tx, trusted ? { verifiedBy: 'account' } : {})
+
+    const reason = 'Product email changed by customer'
+    const outboxIds: number[] = []
+
+    for (const link of removed.filter((l) => l.verified && l.email !== identity.primaryEmail)) {
+      outboxIds.push(...(await enqueueRevokeSync(tx, link.email, [params.productId], reason)))
+    }
+
+    if (verified) {
+      outboxIds.push(...(await enqueueGrantSync(tx, email, [params.productId], reason)))
+    }
+
+    await tx.auditLog.create({
+      data: {
+        action: 'product_email_changed',
+        identityId: identity.id,
+        productIds: [params.productId],
+        details: { email, previousEmails: removed.map((l) => l.email), verified, by: 'customer' }
+      }
+    })
+
+    return { verified, outboxIds }
+  })
+
+  if (outboxIds.length > 0) {
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
+    console.log('[Account] App sync results:', syncResults)
+  }
+
+  const verifications = verified
+    ? []
+    : await requestEmailVerifications(identity.id, [{ email, productIds: [params.productId] }])
+
+  return { email, verified, verificationSent: verifications.some((v) => v.emailSent) }
+}
+
+/**
+ * Stripe Billing Portal link for the customer's subscriptions
+ */
+export async function createAccountBillingPortal(identityId: string, returnUrl: string): Promise<string> {
+  const identity = await getAccountIdentity(identityId)
+
+  if (!identity.stripeCustomerId) {
+    throw new Error('No billing account found')
+  }
+
+  return createBillingPortalSession(identity.stripeCustomerId, returnUrl)
+}
+
+/**
+ * Stripe receipts for the customer's payments
+ */
+export async function listAccountReceipts(identityId: string) {
+  const identity = await getAccountIdentity(identityId)
+
+  return identity.stripeCustomerId ? listCustomerReceipts(identity.stripeCustomerId) : []
+}
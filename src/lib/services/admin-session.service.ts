@@ -0,0 +1,140 @@
+import { createHash } from 'crypto'
+import { nanoid } from 'nanoid'
+import prisma, { DbClient } from '@/lib/db'
+import { AdminUser } from '@/lib/types'
+import { toAdminUser } from './auth.service'
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+
+// Signed out after this long without a request
+const SESSION_IDLE_MINUTES = parseInt(process.env.ADMIN_SESSION_IDLE_MINUTES || '60', 10)
+
+// Signed out this long after login, however active
+const SESSION_MAX_HOURS = parseInt(process.env.ADMIN_SESSION_MAX_HOURS || '12', 10)
+
+// lastActiveAt is only written this often, not on every request
+const TOUCH_INTERVAL_MS = MINUTE_MS
+
+export interface AdminSessionInfo {
+  id: number
+  csrfToken: string
+}
+
+function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Start a session after a completed login
+ * The token goes in the session cookie and is only stored hashed.
+ */
+export async function createAdminSession(
+  adminUserId: number,
+  client: { userAgent: string | null; ipAddress: string | null }
+) {
+  const token = nanoid(48)
+  const csrfToken = nanoid(32)
+  const expiresAt = new Date(Date.now() + SESSION_MAX_HOURS * HOUR_MS)
+
+  const session = await prisma.adminSession.create({
+    data: {
+      adminUserId,
+      tokenHash: hashSessionToken(token),
+      csrfToken,
+      userAgent: client.userAgent?.slice(0, 500) || null,
+      ipAddress: client.ipAddress,
+      expiresAt
+    }
+  })
+
+  return { id: session.id, token, csrfToken, expiresAt }
+}
+
+/**
+ * The admin and session for a session cookie, or null if it has been revoked,
+ * has expired, has been idle too long, or its admin was deactivated
+ */
+export async function getAdminSession(token: string): Promise<{ admin: AdminUser; session: AdminSessionInfo } | null> {
+  const session = await prisma.adminSession.findUnique({
+    where: { tokenHash: hashSessionToken(token) },
+    include: { adminUser: true }
+  })
+
+  const now = Date.now()
+
+  if (
+    !session ||
+    session.revokedAt ||
+    session.expiresAt.getTime() < now ||
+    session.lastActiveAt.getTime() + SESSION_IDLE_MINUTES * MINUTE_MS < now ||
+    session.adminUser.deactivatedAt
+  ) {
+    return null
+  }
+
+  if (session.lastActiveAt.getTime() + TOUCH_INTERVAL_MS < now) {
+    await prisma.adminSession.update({
+      where: { id: session.id },
+      data: { lastActiveAt: new Date(now) }
+    })
+  }
+
+  return {
+    admin: toAdminUser(session.adminUser),
+    session: { id: session.id, csrfToken: session.csrfToken }
+  }
+}
+
+/**
+ * An admin's sessions that can still be used, most recently active first
+ */
+export async function listAdminSessions(adminUserId: number) {
+  const now = new Date()
+
+  return prisma.adminSession.findMany({
+    where: {
+      adminUserId,
+      revokedAt: null,
+      expiresAt: { gt: now },
+      lastActiveAt: { gt: new Date(now.getTime() - SESSION_IDLE_MINUTES * MINUTE_MS) }
+    },
+    select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastActiveAt: true, expiresAt: true },
+    orderBy: { lastActiveAt: 'desc' }
+  })
+}
+
+/**
+ * Sign out one of an admin's own sessions
+ */
+export async function revokeAdminSession(adminUserId: number, id: number) {
+  const revoked = await prisma.adminSession.updateMany({
+    where: { id, adminUserId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  })
+
+  if (revoked.count === 0) {
+    throw new Error('Session not found')
+  }
+}
+
+/**
+ * Sign out all of an admin's sessions, optionally keeping one
+ * Returns how many were revoked.
+ */
+export async function revokeAdminSessions(
+  adminUserId: number,
+  options: { exceptId?: number } = {},
+  db: DbClient = prisma
+): Promise<number> {
+  const revoked = await db.adminSession.updateMany({
+    where: {
+      adminUserId,
+      revokedAt: null,
+      ...(options.exceptId && { id: { not: options.exceptId } })
+    },
+    data: { revokedAt: new Date() }
+  })
+
+  return revoked.count
+}
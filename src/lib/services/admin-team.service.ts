@@ -0,0 +1,332 @@
+import { nanoid } from 'nanoid'
+import prisma from '@/lib/db'
+import { requireEmail } from '@/lib/email'
+import { ADMIN_ROLE_LABELS, isAdminRole } from '@/lib/permissions'
+import { AdminUser } from '@/lib/types'
+import { hashPassword, toAdminUser } from './auth.service'
+import { revokeAdminSessions } from './admin-session.service'
+import { sendAdminInviteEmail, sendAdminPasswordResetEmail } from './email.service'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// How long an invitation link stays valid
+const INVITE_TTL_HOURS = 7 * 24
+
+// How long a forced password reset link stays valid
+const PASSWORD_RESET_TTL_HOURS = 24
+
+export const MIN_PASSWORD_LENGTH = 8
+
+/**
+ * Throw unless a password meets the minimum length
+ */
+export function requirePassword(password: unknown): string {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  }
+
+  return password
+}
+
+/**
+ * Invitations that can still be accepted
+ */
+export async function listPendingInvites() {
+  return prisma.adminInvite.findMany({
+    where: { acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: { id: true, email: true, name: true, role: true, invitedBy: true, expiresAt: true, createdAt: true },
+    orderBy: { createdAt: 'desc' }
+  })
+}
+
+/**
+ * Invite someone to the admin team by email
+ * A new invitation replaces any pending one for the same address.
+ */
+export async function inviteAdmin(
+  params: { email: string; role: string; name?: string },
+  invitedBy: AdminUser
+) {
+  const email = requireEmail(params.email)
+
+  if (!isAdminRole(params.role)) {
+    throw new Error('Invalid role')
+  }
+
+  const existing = await prisma.adminUser.findUnique({ where: { email } })
+
+  if (existing) {
+    throw new Error('An admin with this email already exists')
+  }
+
+  const invite = await prisma.$transaction(async (tx) => {
+    await tx.adminInvite.updateMany({
+      where: { email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() }
+    })
+
+    return tx.adminInvite.create({
+      data: {
+        email,
+        name: params.name || null,
+        role: params.role,
+        token: nanoid(32),
+        invitedBy: invitedBy.email,
+        expiresAt: new Date(Date.now() + INVITE_TTL_HOURS * HOUR_MS)
+      }
+    })
+  })
+
+  const emailSent = await sendAdminInviteEmail({
+    email,
+    token: invite.token,
+    roleLabel: ADMIN_ROLE_LABELS[params.role],
+    invitedBy: invitedBy.name || invitedBy.email,
+    expiresAt: invite.expiresAt
+  })
+
+  return { invite: { id: invite.id, email, role: invite.role, expiresAt: invite.expiresAt }, emailSent }
+}
+
+/**
+ * Withdraw a pending invitation
+ */
+export async function revokeAdminInvite(id: number) {
+  const revoked = await prisma.adminInvite.updateMany({
+    where: { id, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() }
+  })
+
+  if (revoked.count === 0) {
+    throw new Error('Invitation not found')
+  }
+}
+
+/**
+ * A pending invitation by its link token
+ */
+export async function getAdminInvite(token: string) {
+  const invite = await prisma.adminInvite.findUnique({ where: { token } })
+
+  if (!invite) {
+    throw new Error('Invalid invitation')
+  }
+
+  if (invite.acceptedAt) {
+    throw new Error('Invitation already accepted')
+  }
+
+  if (invite.revokedAt) {
+    throw new Error('Invitation has been withdrawn')
+  }
+
+  if (invite.expiresAt < new Date()) {
+    throw new Error('Invitation expired')
+  }
+
+  return invite
+}
+
+/**
+ * Create the invited admin's account, exactly once
+ */
+export async function acceptAdminInvite(token: string, params: { password: unknown; name?: string }) {
+  const password = requirePassword(params.password)
+  const invite = await getAdminInvite(token)
+  const passwordHash = await hashPassword(password)
+
+  const user = await prisma.$transaction(async (tx) => {
+    // The lock: only one request can accept the invitation
+    const accepted = await tx.adminInvite.updateMany({
+      where: { id: invite.id, acceptedAt: null, revokedAt: null },
+      data: { acceptedAt: new Date() }
+    })
+
+    if (accepted.count === 0) {
+      throw new Error('Invitation already accepted')
+    }
+
+    const existing = await tx.adminUser.findUnique({ where: { email: invite.email } })
+
+    if (existing) {
+      throw new Error('An admin with this email already exists')
+    }
+
+    return tx.adminUser.create({
+      data: {
+        email: invite.email,
+        passwordHash,
+        name: params.name || invite.name,
+        role: invite.role
+      }
+    })
+  })
+
+  return { user: toAdminUser(user), invitedBy: invite.invitedBy }
+}
+
+/**
+ * Throw if changing this admin would leave no active owner
+ */
+async function assertOtherActiveOwner(user: { id: number; role: string }) {
+  if (user.role !== 'owner') {
+    return
+  }
+
+  const owners = await prisma.adminUser.count({
+    where: { role: 'owner', deactivatedAt: null, id: { not: user.id } }
+  })
+
+  if (owners === 0) {
+    throw new Error('Cannot deactivate the last owner')
+  }
+}
+
+async function getOtherAdmin(id: number, actor: AdminUser) {
+  if (id === actor.id) {
+    throw new Error('You cannot do this to your own account')
+  }
+
+  const user = await prisma.adminUser.findUnique({ where: { id } })
+
+  if (!user) {
+    throw new Error('Admin user not found')
+  }
+
+  return user
+}
+
+/**
+ * Deactivate an admin: they can no longer sign in and existing sessions end
+ */
+export async function deactivateAdmin(id: number, actor: AdminUser) {
+  const user = await getOtherAdmin(id, actor)
+
+  if (user.deactivatedAt) {
+    throw new Error('Admin is already deactivated')
+  }
+
+  await assertOtherActiveOwner(user)
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await revokeAdminSessions(id, {}, tx)
+
+    return tx.adminUser.update({
+      where: { id },
+      data: { deactivatedAt: new Date() }
+    })
+  })
+
+  return toAdminUser(updated)
+}
+
+/**
+ * Let a deactivated admin sign in again
+ */
+export async function reactivateAdmin(id: number, actor: AdminUser) {
+  const user = await getOtherAdmin(id, actor)
+
+  if (!user.deactivatedAt) {
+    throw new Error('Admin is not deactivated')
+  }
+
+  const updated = await prisma.adminUser.update({
+    where: { id },
+    data: { deactivatedAt: null }
+  })
+
+  return toAdminUser(updated)
+}
+
+/**
+ * Force an admin to choose a new password
+ *
+ * The current password stops working and every session ends straight away;
+ * the admin gets an emailed link to set a new one.
+ */
+export async function forceAdminPasswordReset(id: number, actor: AdminUser) {
+  const user = await getOtherAdmin(id, actor)
+
+  if (user.deactivatedAt) {
+    throw new Error('Admin is deactivated')
+  }
+
+  // Nobody knows this password, so only the reset link gets the admin back in
+  const passwordHash = await hashPassword(nanoid(32))
+  const now = new Date()
+
+  const reset = await prisma.$transaction(async (tx) => {
+    await tx.adminUser.update({
+      where: { id },
+      data: { passwordHash }
+    })
+
+    await revokeAdminSessions(id, {}, tx)
+
+    await tx.adminPasswordReset.updateMany({
+      where: { adminUserId: id, usedAt: null },
+      data: { usedAt: now }
+    })
+
+    return tx.adminPasswordReset.create({
+      data: {
+        adminUserId: id,
+        token: nanoid(32),
+        requestedBy: actor.email,
+        expiresAt: new Date(now.getTime() + PASSWORD_RESET_TTL_HOURS * HOUR_MS)
+      }
+    })
+  })
+
+  const emailSent = await sendAdminPasswordResetEmail({
+    email: user.email,
+    token: reset.token,
+    requestedBy: actor.name || actor.email,
+    expiresAt: reset.expiresAt
+  })
+
+  return { user: toAdminUser(user), emailSent }
+}
+
+/**
+ * Set a new password from a reset link, exactly once
+ * Any session started since the reset was forced is signed out too.
+ */
+export async function completeAdminPasswordReset(token: string, newPassword: unknown) {
+  const password = requirePassword(newPassword)
+  const reset = await prisma.adminPasswordReset.findUnique({
+    where: { token },
+    include: { adminUser: true }
+  })
+
+  if (!reset || reset.usedAt) {
+    throw new Error('Invalid or used reset link')
+  }
+
+  if (reset.expiresAt < new Date()) {
+    throw new Error('Reset link expired')
+  }
+
+  if (reset.adminUser.deactivatedAt) {
+    throw new Error('This account has been deactivated')
+  }
+
+  const passwordHash = await hashPassword(password)
+
+  await prisma.$transaction(async (tx) => {
+    // The lock: only one request can use the link
+    const used = await tx.adminPasswordReset.updateMany({
+      where: { id: reset.id, usedAt: null },
+      data: { usedAt: new Date() }
+    })
+
+    if (used.count === 0) {
+      throw new Error('Invalid or used reset link')
+    }
+
+    await tx.adminUser.update({ where: { id: reset.adminUserId }, data: { passwordHash } })
+    await revokeAdminSessions(reset.adminUserId, {}, tx)
+  })
+
+  return toAdminUser(reset.adminUser)
+}
@@ -0,0 +1,164 @@
+import { createHash } from 'crypto'
+import { nanoid } from 'nanoid'
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/db'
+import { ApiClientSummary, ApiScope } from '@/lib/types'
+
+const API_KEY_PREFIX = 'cdk_'
+
+// Only write lastUsedAt once per minute to avoid a write on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000
+
+const summarySelect = {
+  id: true,
+  name: true,
+  appKey: true,
+  keyPrefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdBy: true,
+  createdAt: true
+} as const
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex')
+}
+
+/**
+ * Generate a new random API key
+ */
+function generateApiKey(): { apiKey: string; keyPrefix: string; keyHash: string } {
+  const apiKey = `${API_KEY_PREFIX}${nanoid(40)}`
+  return {
+    apiKey,
+    keyPrefix: apiKey.slice(0, API_KEY_PREFIX.length + 6),
+    keyHash: hashApiKey(apiKey)
+  }
+}
+
+/**
+ * List all API clients (never includes key material)
+ */
+export async function listApiClients(): Promise<ApiClientSummary[]> {
+  return prisma.apiClient.findMany({
+    select: summarySelect,
+    orderBy: { createdAt: 'desc' }
+  })
+}
+
+/**
+ * Issue a new API client
+ * The plaintext key is only returned here and cannot be recovered later.
+ */
+export async function createApiClient(params: {
+  name: string
+  appKey?: string | null
+  scopes: ApiScope[]
+  createdBy?: string
+}): Promise<{ client: ApiClientSummary; apiKey: string }> {
+  const { apiKey, keyPrefix, keyHash } = generateApiKey()
+
+  const client = await prisma.apiClient.create({
+    data: {
+      name: params.name,
+      appKey: params.appKey || null,
+      scopes: params.scopes,
+      keyPrefix,
+      keyHash,
+      createdBy: params.createdBy
+    },
+    select: summarySelect
+  })
+
+  return { client, apiKey }
+}
+
+/**
+ * Update a client by ID, throwing 'API client not found' if there's no such client
+ */
+async function updateApiClientRecord(id: number, data: Prisma.ApiClientUpdateInput): Promise<ApiClientSummary> {
+  try {
+    return await prisma.apiClient.update({
+      where: { id },
+      data,
+      select: summarySelect
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      throw new Error('API client not found')
+    }
+    throw error
+  }
+}
+
+/**
+ * Replace an API client's key, invalidating the old one immediately
+ */
+export async function rotateApiClientKey(
+  id: number
+): Promise<{ client: ApiClientSummary; apiKey: string }> {
+  const { apiKey, keyPrefix, keyHash } = generateApiKey()
+
+  const client = await updateApiClientRecord(id, {
+    keyPrefix,
+    keyHash,
+    lastUsedAt: null,
+    lastUsedIp: null
+  })
+
+  return { client, apiKey }
+}
+
+/**
+ * Update an API client's name, app or scopes
+ */
+export async function updateApiClient(
+  id: number,
+  data: { name?: string; appKey?: string | null; scopes?: ApiScope[] }
+): Promise<ApiClientSummary> {
+  return updateApiClientRecord(id, data)
+}
+
+/**
+ * Revoke an API client
+ */
+export async function revokeApiClient(id: number): Promise<ApiClientSummary> {
+  return updateApiClientRecord(id, { revokedAt: new Date() })
+}
+
+/**
+ * Look up an active API client by its plaintext key
+ * Records last-used time and IP on success.
+ */
+export async function authenticateApiKey(
+  apiKey: string,
+  ip?: string | null
+): Promise<ApiClientSummary | null> {
+  const client = await prisma.apiClient.findUnique({
+    where: { keyHash: hashApiKey(apiKey) },
+    select: summarySelect
+  })
+
+  if (!client || client.revokedAt) {
+    return null
+  }
+
+  const now = new Date()
+  if (
+    !client.lastUsedAt ||
+    now.getTime() - client.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS ||
+    (ip && ip !== client.lastUsedIp)
+  ) {
+    await prisma.apiClient.update({
+      where: { id: client.id },
+      data: { lastUsedAt: now, lastUsedIp: ip || null }
+    })
+  }
+
+  return client
+}
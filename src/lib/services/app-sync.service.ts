@@ -2,99 +2,113 @@
  * App Sync Service
  *
  * Syncs subscription status to all connected apps (Rezume, AI Coach)
- * when access is granted or revoked in Central Dashboard.
+ * when access is granted or revoked in Central Dashboard. Apps are
+ * registered in the ConnectedApp table.
  *
  * This ensures Central Dashboard is the single source of truth
  * for all subscription states across the platform.
+ *
+ * Every sync is written to the SyncOutbox table first and delivered by
+ * processSyncOutbox, which retries failed deliveries with backoff.
+ *
+ * Renames (kind 'rename') go to the same sync endpoint with previousEmail
+ * set, so apps can move the user's tier from the old address to the new one.
+ * Erasures (kind 'delete') go to each app's deleteUserPath instead, and
+ * lose the customer's address once delivered or dead-lettered.
  */
 
-// App configuration - URLs and product IDs
-const APP_CONFIG: Record<
-  string,
-  { name: string; baseUrl: string; productId: string }
-> = {
-  rezume: {
-    name: 'Rezume',
-    baseUrl:
-      process.env.REZUME_API_URL ||
-      'https://resume-builder-canada-9ee6ef699d83.herokuapp.com',
-    productId: 'rezume',
-  },
-  aicoach: {
-    name: 'AI Interview Coach',
-    baseUrl:
-      process.env.AICOACH_API_URL ||
-      'https://your-ai-interview-coach-7f11f441a641.herokuapp.com',
-    productId: 'aicoach',
-  },
-  // 123jobs.ca Products (separate from rezume/aicoach)
-  '123jobs-resume': {
-    name: '123 Jobs AI Resume',
-    baseUrl:
-      process.env.JOBS123_RESUME_API_URL ||
-      'https://ai-resume-123jobs-413c2de82766.herokuapp.com',
-    productId: '123jobs-resume',
-  },
-  '123jobs-interview': {
-    name: '123 Jobs Interview Coach',
-    baseUrl:
-      process.env.JOBS123_INTERVIEW_API_URL ||
-      'https://interview-123jobs-api-83a5741b270e.herokuapp.com',
-    productId: '123jobs-interview',
-  },
-}
+import { Prisma } from '@prisma/client'
+import prisma, { DbClient } from '@/lib/db'
+import { ERASED_EMAIL } from '@/lib/email'
+import { getActiveConnectedApp, getAppsForProducts } from '@/lib/services/connected-app.service'
+import { SIGNATURE_HEADER, signPayload } from '@/lib/webhook-signature'
 
+// Only sent to apps that don't have a signing secret yet
 const ADMIN_API_KEY = process.env.CENTRAL_DASHBOARD_API_KEY
 
-interface SyncResult {
+// Retry schedule: 30s, 1m, 2m, 4m ... capped at 6 hours between attempts
+const BASE_RETRY_DELAY_MS = 30 * 1000
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000
+
+// A delivery still locked after this long is assumed to have crashed mid-flight
+const STALE_LOCK_MS = 5 * 60 * 1000
+
+// 4xx statuses worth retrying: timeouts, rate limits, and auth problems that
+// affect every row alike until the app is fixed. Any other 4xx means the
+// app rejected this payload, and retrying it can't succeed.
+const RETRYABLE_CLIENT_STATUSES = [401, 403, 408, 429]
+
+export interface SyncResult {
   app: string
   success: boolean
   error?: string
+  status?: number // HTTP status of a failed delivery, if the app responded
   response?: unknown
+  outboxId?: number
 }
 
 interface SyncOptions {
   email: string
   tier: 'free' | 'pro'
-  source: 'bundle' | 'direct' | 'revoked'
+  source: 'bundle' | 'direct' | 'revoked' | 'rename'
   reason?: string
 }
 
+type OutboxItem = Awaited<ReturnType<typeof prisma.syncOutbox.findMany>>[number]
+
 /**
- * Sync subscription status to a single app
+ * Build auth headers for a request body
+ * Apps with a signing secret get an HMAC signature; the rest fall back to the shared key.
+ */
+function getAuthHeaders(
+  app: { signingSecret: string | null },
+  body: string
+): Record<string, string> | null {
+  if (app.signingSecret) {
+    return { [SIGNATURE_HEADER]: signPayload(app.signingSecret, body) }
+  }
+
+  if (ADMIN_API_KEY) {
+    return { 'X-Admin-Api-Key': ADMIN_API_KEY }
+  }
+
+  return null
+}
+
+/**
+ * Deliver an outbox payload to a single app
  */
 async function syncToApp(
   appKey: string,
-  options: SyncOptions
+  payload: Prisma.JsonValue,
+  kind: string = 'sync'
 ): Promise<SyncResult> {
-  const config = APP_CONFIG[appKey]
+  const config = await getActiveConnectedApp(appKey)
 
   if (!config) {
-    return { app: appKey, success: false, error: `Unknown app: ${appKey}` }
+    return { app: appKey, success: false, error: `Unknown or disabled app: ${appKey}` }
   }
 
-  if (!ADMIN_API_KEY) {
+  const body = JSON.stringify(payload)
+  const authHeaders = getAuthHeaders(config, body)
+
+  if (!authHeaders) {
     console.error(
-      `[AppSync] CENTRAL_DASHBOARD_API_KEY not configured - cannot sync to ${config.name}`
+      `[AppSync] No signing secret or CENTRAL_DASHBOARD_API_KEY - cannot sync to ${config.name}`
     )
-    return { app: config.name, success: false, error: 'API key not configured' }
+    return { app: config.name, success: false, error: 'No signing secret or API key configured' }
   }
 
   try {
     const response = await fetch(
-      `${config.baseUrl}/api/admin/sync-subscription`,
+      `${config.baseUrl}${kind === 'delete' ? config.deleteUserPath : config.syncPath}`,
       {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Admin-Api-Key': ADMIN_API_KEY,
+          ...authHeaders,
         },
-        body: JSON.stringify({
-          email: options.email,
-          tier: options.tier,
-          source: options.source,
-          reason: options.reason,
-        }),
+        body,
         signal: AbortSignal.timeout(10000), // 10 second timeout
       }
     )
@@ -108,6 +122,7 @@ async function syncToApp(
         app: config.name,
         success: false,
         error: `HTTP ${response.status}: ${errorText}`,
+        status: response.status,
       }
     }
 
@@ -124,76 +139,364 @@ async function syncToApp(
 }
 
 /**
- * Sync subscription status to multiple apps based on product IDs
+ * Queue subscription status syncs for every app serving the given products
+ *
+ * Pass the transaction client used for the entitlement change so the outbox
+ * rows commit (or roll back) together with it. Returns the outbox row IDs.
  */
-export async function syncToApps(
+export async function enqueueAppSync(
+  db: DbClient,
   productIds: string[],
   options: Omit<SyncOptions, 'source'> & { source?: SyncOptions['source'] }
-): Promise<SyncResult[]> {
-  const results: SyncResult[] = []
-
-  // Determine which apps to sync based on product IDs
-  const appsToSync = new Set<string>()
+): Promise<number[]> {
+  const apps = await getAppsForProducts(productIds, db)
 
-  for (const productId of productIds) {
-    const appKey = productId.toLowerCase()
-    if (APP_CONFIG[appKey]) {
-      appsToSync.add(appKey)
-    }
-  }
-
-  if (appsToSync.size === 0) {
+  if (apps.length === 0) {
     console.log(
       `[AppSync] No matching apps found for products: ${productIds.join(', ')}`
     )
-    return results
+    return []
   }
 
-  console.log(
-    `[AppSync] Syncing ${options.tier} access for ${options.email} to: ${Array.from(appsToSync).join(', ')}`
+  const payload = {
+    email: options.email,
+    tier: options.tier,
+    source: options.source || 'bundle',
+    reason: options.reason,
+  }
+
+  const rows = await Promise.all(
+    apps.map((app) =>
+      db.syncOutbox.create({
+        data: { appKey: app.id, email: options.email, payload },
+        select: { id: true },
+      })
+    )
   )
 
-  // Sync to all apps in parallel
-  const syncPromises = Array.from(appsToSync).map((appKey) =>
-    syncToApp(appKey, {
-      ...options,
-      source: options.source || 'bundle',
-    } as SyncOptions)
+  return rows.map((row) => row.id)
+}
+
+/**
+ * Queue a primary email change for every app serving the given products
+ * Apps that understand previousEmail move the user; the rest just see a grant for the new email.
+ */
+export async function enqueueRenameSync(
+  db: DbClient,
+  previousEmail: string,
+  email: string,
+  productIds: string[],
+  reason?: string
+): Promise<number[]> {
+  const apps = await getAppsForProducts(productIds, db)
+
+  const payload = {
+    email,
+    previousEmail,
+    tier: 'pro',
+    source: 'rename',
+    reason: reason || 'Email changed via Central Dashboard',
+  }
+
+  const rows = await Promise.all(
+    apps.map((app) =>
+      db.syncOutbox.create({
+        data: { appKey: app.id, kind: 'rename', email, payload },
+        select: { id: true },
+      })
+    )
   )
 
-  const syncResults = await Promise.allSettled(syncPromises)
+  return rows.map((row) => row.id)
+}
 
-  for (const result of syncResults) {
-    if (result.status === 'fulfilled') {
-      results.push(result.value)
-    } else {
-      results.push({
-        app: 'unknown',
-        success: false,
-        error: result.reason?.message || 'Promise rejected',
+/**
+ * Queue a delete-user request for every enabled app
+ * Sent to all apps, not just those serving the customer's products, since any app may hold their data.
+ */
+export async function enqueueDeleteSync(
+  db: DbClient,
+  email: string,
+  reason?: string
+): Promise<number[]> {
+  const apps = await db.connectedApp.findMany({
+    where: { isActive: true },
+    select: { id: true },
+    orderBy: { id: 'asc' },
+  })
+
+  const payload = {
+    email,
+    reason: reason || 'Customer data erased via Central Dashboard',
+  }
+
+  const rows = await Promise.all(
+    apps.map((app) =>
+      db.syncOutbox.create({
+        data: { appKey: app.id, kind: 'delete', email, payload },
+        select: { id: true },
       })
+    )
+  )
+
+  return rows.map((row) => row.id)
+}
+
+/**
+ * Exponential backoff delay before the next attempt
+ */
+function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Whether a failed delivery can never succeed, so retrying it would only
+ * hold the customer's later rows back
+ */
+function isPermanentFailure(result: SyncResult): boolean {
+  return !!result.status && result.status >= 400 && result.status < 500 &&
+    !RETRYABLE_CLIENT_STATUSES.includes(result.status)
+}
+
+/**
+ * Emails a row's delivery order matters for: renames touch the old address too
+ */
+function orderingEmails(item: OutboxItem): string[] {
+  const previousEmail = item.kind === 'rename' ? (item.payload as Prisma.JsonObject).previousEmail : null
+  return typeof previousEmail === 'string' ? [item.email, previousEmail] : [item.email]
+}
+
+/**
+ * Fields that strip the customer's address from a finished delete request,
+ * which would otherwise outlive the erasure it was sent for
+ */
+function erasedDeleteFields(item: OutboxItem) {
+  return {
+    email: ERASED_EMAIL,
+    payload: { ...(item.payload as Prisma.JsonObject), email: ERASED_EMAIL },
+  }
+}
+
+/**
+ * Attempt one outbox delivery and record the outcome
+ * Returns null if another worker claimed the row first.
+ */
+async function deliverOutboxItem(item: OutboxItem): Promise<SyncResult | null> {
+  // Claim the row so concurrent workers don't deliver it twice
+  const claimed = await prisma.syncOutbox.updateMany({
+    where: { id: item.id, status: 'pending' },
+    data: { status: 'processing', lockedAt: new Date() },
+  })
+
+  if (claimed.count === 0) {
+    return null
+  }
+
+  const result = await syncToApp(item.appKey, item.payload, item.kind)
+  const attempts = item.attempts + 1
+
+  // Only record the outcome while the row is still ours; a row cancelled
+  // mid-delivery stays cancelled rather than going back in the queue
+  if (result.success) {
+    await prisma.syncOutbox.updateMany({
+      where: { id: item.id, status: 'processing' },
+      data: {
+        status: 'delivered',
+        attempts,
+        deliveredAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+        ...(item.kind === 'delete'
+          ? { ...erasedDeleteFields(item), lastResponse: Prisma.DbNull }
+          : { lastResponse: (result.response ?? null) as Prisma.InputJsonValue }),
+      },
+    })
+  } else {
+    const permanent = isPermanentFailure(result)
+    const dead = permanent || attempts >= item.maxAttempts
+    await prisma.syncOutbox.updateMany({
+      where: { id: item.id, status: 'processing' },
+      data: {
+        status: dead ? 'dead' : 'pending',
+        attempts,
+        lockedAt: null,
+        lastError: result.error,
+        ...(dead && item.kind === 'delete' && {
+          ...erasedDeleteFields(item),
+          lastError: result.error?.split(item.email).join(ERASED_EMAIL),
+        }),
+        nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+      },
+    })
+
+    if (dead) {
+      console.error(
+        permanent
+          ? `[AppSync] Outbox #${item.id} to ${item.appKey} dead-lettered: rejected with HTTP ${result.status}`
+          : `[AppSync] Outbox #${item.id} to ${item.appKey} dead-lettered after ${attempts} attempts`
+      )
     }
   }
 
-  // Log summary
-  const successCount = results.filter((r) => r.success).length
-  const failCount = results.length - successCount
-  console.log(
-    `[AppSync] Sync complete: ${successCount} succeeded, ${failCount} failed`
+  return { ...result, outboxId: item.id }
+}
+
+/**
+ * Drain due outbox rows
+ *
+ * Rows for the same app and customer email are delivered strictly in the
+ * order they were written: a row is held back while an older row for that
+ * app and email is still pending, so a stale grant can never overwrite a
+ * newer revoke. Other customers' rows carry on. Dead-lettered rows,
+ * including ones the app rejected outright, no longer block later ones.
+ */
+export async function processSyncOutbox(options: { ids?: number[]; limit?: number } = {}): Promise<SyncResult[]> {
+  const { ids, limit = 100 } = options
+
+  // Release rows left locked by a crashed worker
+  await prisma.syncOutbox.updateMany({
+    where: {
+      status: 'processing',
+      lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) },
+    },
+    data: { status: 'pending', lockedAt: null },
+  })
+
+  const due = await prisma.syncOutbox.findMany({
+    where: {
+      status: 'pending',
+      nextAttemptAt: { lte: new Date() },
+      ...(ids ? { id: { in: ids } } : {}),
+    },
+    orderBy: { id: 'asc' },
+    take: limit,
+  })
+
+  const byApp = new Map<string, OutboxItem[]>()
+  for (const item of due) {
+    byApp.set(item.appKey, [...(byApp.get(item.appKey) || []), item])
+  }
+
+  // Apps are independent, so deliver to them in parallel
+  const perApp = await Promise.all(
+    Array.from(byApp.entries()).map(async ([appKey, items]) => {
+      const results: SyncResult[] = []
+      // Emails with a row held back or failed in this run
+      const blocked = new Set<string>()
+
+      for (const item of items) {
+        const emails = orderingEmails(item)
+
+        if (emails.some((email) => blocked.has(email))) {
+          emails.forEach((email) => blocked.add(email))
+          continue
+        }
+
+        const olderUndelivered = await prisma.syncOutbox.count({
+          where: {
+            appKey,
+            email: { in: emails },
+            id: { lt: item.id },
+            status: { in: ['pending', 'processing'] },
+          },
+        })
+
+        const result = olderUndelivered === 0 ? await deliverOutboxItem(item) : null
+
+        if (result) {
+          results.push(result)
+        }
+
+        // Keep the customer's later rows behind this one until it is delivered,
+        // unless the app rejected it for good and it was dead-lettered
+        if (!result || (!result.success && !isPermanentFailure(result))) {
+          emails.forEach((email) => blocked.add(email))
+        }
+      }
+
+      return results
+    })
   )
 
+  const results = perApp.flat()
+
+  if (results.length > 0) {
+    const successCount = results.filter((r) => r.success).length
+    console.log(
+      `[AppSync] Outbox drained: ${successCount} delivered, ${results.length - successCount} failed`
+    )
+  }
+
   return results
 }
 
 /**
- * Grant access and sync to apps
+ * Put an outbox row back in the queue for immediate delivery
+ * Dead-lettered rows get one more attempt.
  */
-export async function grantAccessAndSync(
+export async function redeliverOutboxItem(id: number): Promise<SyncResult[]> {
+  const item = await prisma.syncOutbox.findUnique({ where: { id } })
+
+  if (!item) {
+    throw new Error('Outbox item not found')
+  }
+
+  if (item.status === 'processing') {
+    throw new Error('Outbox item is currently being delivered')
+  }
+
+  if (item.status === 'cancelled') {
+    throw new Error('Outbox item was cancelled')
+  }
+
+  if (item.kind === 'delete' && item.status === 'dead') {
+    throw new Error('Dead-lettered delete requests no longer hold the email to send')
+  }
+
+  await prisma.syncOutbox.update({
+    where: { id },
+    data: {
+      status: 'pending',
+      nextAttemptAt: new Date(),
+      lockedAt: null,
+      maxAttempts: Math.max(item.maxAttempts, item.attempts + 1),
+    },
+  })
+
+  return processSyncOutbox({ ids: [id] })
+}
+
+/**
+ * Sync subscription status to multiple apps based on product IDs
+ * Queues the syncs and attempts delivery right away; failures are retried by the worker.
+ */
+export async function syncToApps(
+  productIds: string[],
+  options: Omit<SyncOptions, 'source'> & { source?: SyncOptions['source'] }
+): Promise<SyncResult[]> {
+  const outboxIds = await enqueueAppSync(prisma, productIds, options)
+
+  if (outboxIds.length === 0) {
+    return []
+  }
+
+  console.log(
+    `[AppSync] Syncing ${options.tier} access for ${options.email} (outbox ${outboxIds.join(', ')})`
+  )
+
+  return processSyncOutbox({ ids: outboxIds })
+}
+
+/**
+ * Queue a grant sync inside an existing transaction
+ */
+export async function enqueueGrantSync(
+  db: DbClient,
   email: string,
   productIds: string[],
   reason?: string
-): Promise<SyncResult[]> {
-  return syncToApps(productIds, {
+): Promise<number[]> {
+  return enqueueAppSync(db, productIds, {
     email,
     tier: 'pro',
     source: 'bundle',
@@ -202,14 +505,15 @@ export async function grantAccessAndSync(
 }
 
 /**
- * Revoke access and sync to apps
+ * Queue a revoke sync inside an existing transaction
  */
-export async function revokeAccessAndSync(
+export async function enqueueRevokeSync(
+  db: DbClient,
   email: string,
   productIds: string[],
   reason?: string
-): Promise<SyncResult[]> {
-  return syncToApps(productIds, {
+): Promise<number[]> {
+  return enqueueAppSync(db, productIds, {
     email,
     tier: 'free',
     source: 'revoked',
@@ -217,6 +521,30 @@ export async function revokeAccessAndSync(
   })
 }
 
+/**
+ * Grant access and sync to apps
+ */
+export async function grantAccessAndSync(
+  email: string,
+  productIds: string[],
+  reason?: string
+): Promise<SyncResult[]> {
+  const outboxIds = await enqueueGrantSync(prisma, email, productIds, reason)
+  return processSyncOutbox({ ids: outboxIds })
+}
+
+/**
+ * Revoke access and sync to apps
+ */
+export async function revokeAccessAndSync(
+  email: string,
+  productIds: string[],
+  reason?: string
+): Promise<SyncResult[]> {
+  const outboxIds = await enqueueRevokeSync(prisma, email, productIds, reason)
+  return processSyncOutbox({ ids: outboxIds })
+}
+
 /**
  * Clear caches on all apps for a user
  */
@@ -226,29 +554,26 @@ export async function clearCachesOnApps(
 ): Promise<SyncResult[]> {
   const results: SyncResult[] = []
 
-  const appsToSync = new Set<string>()
-  for (const productId of productIds) {
-    const appKey = productId.toLowerCase()
-    if (APP_CONFIG[appKey]) {
-      appsToSync.add(appKey)
-    }
-  }
+  const appsToSync = await getAppsForProducts(productIds)
 
-  if (!ADMIN_API_KEY) {
-    console.error('[AppSync] CENTRAL_DASHBOARD_API_KEY not configured')
-    return results
-  }
+  for (const config of appsToSync) {
+    const body = JSON.stringify({ email })
+    const authHeaders = getAuthHeaders(config, body)
+
+    if (!authHeaders) {
+      console.error(`[AppSync] No signing secret or CENTRAL_DASHBOARD_API_KEY for ${config.name}`)
+      results.push({ app: config.name, success: false, error: 'No signing secret or API key configured' })
+      continue
+    }
 
-  for (const appKey of appsToSync) {
-    const config = APP_CONFIG[appKey]
     try {
-      const response = await fetch(`${config.baseUrl}/api/admin/clear-cache`, {
+      const response = await fetch(`${config.baseUrl}${config.cacheClearPath}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Admin-Api-Key': ADMIN_API_KEY,
+          ...authHeaders,
         },
-        body: JSON.stringify({ email }),
+        body,
         signal: AbortSignal.timeout(10000),
       })
 
@@ -1,53 +1,94 @@
 import bcrypt from 'bcryptjs'
-import jwt, { SignOptions } from 'jsonwebtoken'
+import jwt from 'jsonwebtoken'
 import prisma from '@/lib/db'
 import { AdminUser } from '@/lib/types'
+import { normalizeEmail } from '@/lib/email'
+import { AdminRole, isAdminRole } from '@/lib/permissions'
+import { revokeAdminSessions } from './admin-session.service'
 
+// Required in production; see instrumentation.ts
 const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-do-not-use-in-production'
-const JWT_EXPIRES_IN = (process.env.JWT_EXPIRES_IN || '7d') as SignOptions['expiresIn']
 
-export interface JwtPayload {
+// Customer sessions use their own key so they can never pass as a pre-auth token
+const CUSTOMER_JWT_SECRET = `${JWT_SECRET}:customer`
+const CUSTOMER_JWT_EXPIRES_IN = '12h'
+
+// Between the password and the second factor; only accepted by the 2FA endpoints
+const PRE_AUTH_JWT_SECRET = `${JWT_SECRET}:pre-auth`
+const PRE_AUTH_JWT_EXPIRES_IN = '10m'
+
+// 'verify': enter a TOTP or recovery code; 'enrol': set up 2FA an owner requires
+export type TwoFactorStep = 'verify' | 'enrol'
+
+export interface PreAuthJwtPayload {
   userId: number
+  step: TwoFactorStep
+}
+
+// Without a second step the caller starts a session (see admin-session.service)
+export type AdminLoginResult =
+  | { user: AdminUser }
+  | { user: AdminUser; preAuthToken: string; twoFactor: TwoFactorStep }
+
+export interface CustomerJwtPayload {
+  identityId: string
   email: string
 }
 
+export function toAdminUser(user: { id: number; email: string; name: string | null; role: string }): AdminUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    // An unrecognized role gets the least access
+    role: isAdminRole(user.role) ? user.role : 'analyst'
+  }
+}
+
+/**
+ * Hash an admin password for storage
+ */
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, 10)
+}
+
 /**
  * Create a new admin user
  */
 export async function createAdminUser(
   email: string,
   password: string,
-  name?: string
+  name?: string,
+  role: AdminRole = 'admin'
 ): Promise<AdminUser> {
-  const passwordHash = await bcrypt.hash(password, 10)
+  const passwordHash = await hashPassword(password)
 
   const user = await prisma.adminUser.create({
     data: {
-      email: email.toLowerCase(),
+      email: normalizeEmail(email),
       passwordHash,
-      name
+      name,
+      role
     }
   })
 
-  return {
-    id: user.id,
-    email: user.email,
-    name: user.name
-  }
+  return toAdminUser(user)
 }
 
 /**
  * Authenticate admin user
+ * Admins with 2FA enabled or required get a short-lived pre-auth token
+ * instead, to exchange for a session once the second step is done.
  */
 export async function authenticateAdmin(
   email: string,
   password: string
-): Promise<{ user: AdminUser; token: string } | null> {
+): Promise<AdminLoginResult | null> {
   const user = await prisma.adminUser.findUnique({
-    where: { email: email.toLowerCase() }
+    where: { email: normalizeEmail(email) }
   })
 
-  if (!user) {
+  if (!user || user.deactivatedAt) {
     return null
   }
 
@@ -56,29 +97,45 @@ export async function authenticateAdmin(
     return null
   }
 
-  const token = jwt.sign(
-    { userId: user.id, email: user.email } as JwtPayload,
-    JWT_SECRET,
-    { expiresIn: JWT_EXPIRES_IN }
-  )
+  if (user.totpEnabledAt || user.totpRequired) {
+    const twoFactor: TwoFactorStep = user.totpEnabledAt ? 'verify' : 'enrol'
 
-  return {
-    user: {
-      id: user.id,
-      email: user.email,
-      name: user.name
-    },
-    token
+    return {
+      user: toAdminUser(user),
+      preAuthToken: jwt.sign({ userId: user.id, step: twoFactor } as PreAuthJwtPayload, PRE_AUTH_JWT_SECRET, {
+        expiresIn: PRE_AUTH_JWT_EXPIRES_IN
+      }),
+      twoFactor
+    }
   }
+
+  return { user: toAdminUser(user) }
 }
 
 /**
- * Verify JWT token
+ * Verify a pre-auth token from the password step
  */
-export function verifyToken(token: string): JwtPayload | null {
+export function verifyPreAuthToken(token: string): PreAuthJwtPayload | null {
   try {
-    const payload = jwt.verify(token, JWT_SECRET) as JwtPayload
-    return payload
+    return jwt.verify(token, PRE_AUTH_JWT_SECRET) as PreAuthJwtPayload
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Sign a customer account session
+ */
+export function createCustomerToken(payload: CustomerJwtPayload): string {
+  return jwt.sign(payload, CUSTOMER_JWT_SECRET, { expiresIn: CUSTOMER_JWT_EXPIRES_IN })
+}
+
+/**
+ * Verify a customer account session token
+ */
+export function verifyCustomerToken(token: string): CustomerJwtPayload | null {
+  try {
+    return jwt.verify(token, CUSTOMER_JWT_SECRET) as CustomerJwtPayload
   } catch {
     return null
   }
@@ -86,25 +143,23 @@ export function verifyToken(token: string): JwtPayload | null {
 
 /**
  * Get admin user by ID
+ * Deactivated admins are treated as missing.
  */
 export async function getAdminById(id: number): Promise<AdminUser | null> {
   const user = await prisma.adminUser.findUnique({
     where: { id }
   })
 
-  if (!user) {
+  if (!user || user.deactivatedAt) {
     return null
   }
 
-  return {
-    id: user.id,
-    email: user.email,
-    name: user.name
-  }
+  return toAdminUser(user)
 }
 
 /**
  * Update admin password
+ * Every session for the account is signed out; the caller starts a fresh one.
  */
 export async function updateAdminPassword(
   userId: number,
@@ -124,10 +179,14 @@ export async function updateAdminPassword(
     return false
   }
 
-  const newPasswordHash = await bcrypt.hash(newPassword, 10)
-  await prisma.adminUser.update({
-    where: { id: userId },
-    data: { passwordHash: newPasswordHash }
+  const newPasswordHash = await hashPassword(newPassword)
+  await prisma.$transaction(async (tx) => {
+    await tx.adminUser.update({
+      where: { id: userId },
+      data: { passwordHash: newPasswordHash }
+    })
+
+    await revokeAdminSessions(userId, {}, tx)
   })
 
   return true
@@ -140,3 +199,46 @@ export async function hasAnyAdmin(): Promise<boolean> {
   const count = await prisma.adminUser.count()
   return count > 0
 }
+
+/**
+ * List admin users for the team page
+ */
+export async function listAdminUsers() {
+  const users = await prisma.adminUser.findMany({ orderBy: { createdAt: 'asc' } })
+  return users.map((user) => ({
+    ...toAdminUser(user),
+    deactivatedAt: user.deactivatedAt,
+    twoFactorEnabled: !!user.totpEnabledAt,
+    twoFactorRequired: user.totpRequired,
+    createdAt: user.createdAt
+  }))
+}
+
+/**
+ * Change an admin user's role
+ * There must always be at least one owner left to manage roles.
+ */
+export async function changeAdminRole(id: number, role: string): Promise<{ user: AdminUser; previousRole: string }> {
+  if (!isAdminRole(role)) {
+    throw new Error('Invalid role')
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const user = await tx.adminUser.findUnique({ where: { id } })
+
+    if (!user) {
+      throw new Error('Admin user not found')
+    }
+
+    if (user.role === 'owner' && role !== 'owner' && !user.deactivatedAt) {
+      const owners = await tx.adminUser.count({ where: { role: 'owner', deactivatedAt: null } })
+
+      if (owners <= 1) {
+        throw new Error('Cannot remove the last owner')
+      }
+    }
+
+    const updated = await tx.adminUser.update({ where: { id }, data: { role } })
+    return { user: toAdminUser(updated), previousRole: user.role }
+  })
+}
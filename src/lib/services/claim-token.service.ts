@@ -0,0 +1,258 @@
+import prisma, { DbClient } from '@/lib/db'
+import { sendClaimInvitationEmail } from './email.service'
+import { createClaimToken } from './entitlements.service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Messages thrown for admin actions the token's state doesn't allow
+export const CLAIM_TOKEN_ERRORS = [
+  'Token already claimed',
+  'Token has been voided',
+  'Token expired - extend or reissue it first',
+  'New expiry must be in the future'
+]
+
+// Default reminder schedule, in days before the claim link expires
+const DEFAULT_REMINDER_DAYS = [7, 3, 1]
+
+/**
+ * Reminder intervals from CLAIM_REMINDER_DAYS (comma-separated days before expiry)
+ */
+export function getClaimReminderDays(): number[] {
+  const configured = process.env.CLAIM_REMINDER_DAYS
+  if (!configured) {
+    return DEFAULT_REMINDER_DAYS
+  }
+
+  return configured
+    .split(',')
+    .map((value) => parseInt(value.trim(), 10))
+    .filter((days) => !isNaN(days) && days > 0)
+    .sort((a, b) => b - a)
+}
+
+/**
+ * Email the claim link for a token and record the send on the token
+ */
+export async function sendClaimEmail(
+  token: string,
+  options: { customerName?: string; reminder?: boolean } = {}
+): Promise<boolean> {
+  const claimToken = await prisma.claimToken.findUnique({
+    where: { token },
+    include: { bundle: true }
+  })
+
+  if (!claimToken) {
+    throw new Error('Claim token not found')
+  }
+
+  // Only list the products the buyer still has to activate
+  const pendingProductIds = claimToken.bundle.productIds.filter(
+    (id) => !claimToken.claimedProductIds.includes(id)
+  )
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: pendingProductIds } },
+    orderBy: { displayOrder: 'asc' },
+    select: { name: true }
+  })
+
+  const sent = await sendClaimInvitationEmail({
+    customerEmail: claimToken.purchaseEmail,
+    customerName: options.customerName,
+    bundleName: claimToken.bundle.name,
+    productNames: products.map((p) => p.name),
+    token: claimToken.token,
+    expiresAt: claimToken.expiresAt,
+    reminder: options.reminder
+  })
+
+  if (sent) {
+    await prisma.claimToken.update({
+      where: { token },
+      data: {
+        emailSentCount: { increment: 1 },
+        lastEmailSentAt: new Date()
+      }
+    })
+  }
+
+  return sent
+}
+
+/**
+ * Send reminder emails for unclaimed tokens that have reached a reminder interval
+ *
+ * Each interval is sent at most once per token. When several intervals are due
+ * at once (e.g. the job missed a run), only one reminder goes out.
+ */
+export async function sendClaimReminders(now: Date = new Date()) {
+  const reminderDays = getClaimReminderDays()
+
+  if (reminderDays.length === 0) {
+    return { checked: 0, sent: 0, failed: 0 }
+  }
+
+  const tokens = await prisma.claimToken.findMany({
+    where: {
+      claimed: false,
+      voidedAt: null,
+      expiresAt: {
+        gt: now,
+        lte: new Date(now.getTime() + Math.max(...reminderDays) * DAY_MS)
+      }
+    },
+    select: { token: true, expiresAt: true, remindersSent: true, lastEmailSentAt: true }
+  })
+
+  let sent = 0
+  let failed = 0
+
+  for (const claimToken of tokens) {
+    const daysLeft = (claimToken.expiresAt.getTime() - now.getTime()) / DAY_MS
+    const due = reminderDays.filter(
+      (days) => daysLeft <= days && !claimToken.remindersSent.includes(days)
+    )
+
+    if (due.length === 0) continue
+
+    // Don't follow an email sent in the last day with a reminder
+    if (claimToken.lastEmailSentAt && now.getTime() - claimToken.lastEmailSentAt.getTime() < DAY_MS) {
+      continue
+    }
+
+    // Mark the intervals first so overlapping runs can't send the same reminder
+    const marked = await prisma.claimToken.updateMany({
+      where: {
+        token: claimToken.token,
+        claimed: false,
+        voidedAt: null,
+        remindersSent: { equals: claimToken.remindersSent }
+      },
+      data: {
+        remindersSent: { set: [...claimToken.remindersSent, ...due] }
+      }
+    })
+
+    if (marked.count === 0) continue
+
+    if (await sendClaimEmail(claimToken.token, { reminder: true })) {
+      sent++
+    } else {
+      failed++
+    }
+  }
+
+  console.log(`[Claim] Reminders: ${sent} sent, ${failed} failed (${tokens.length} checked)`)
+
+  return { checked: tokens.length, sent, failed }
+}
+
+/**
+ * Load a token that admin actions can still change (not claimed or voided)
+ */
+async function getOpenClaimToken(token: string, db: DbClient = prisma) {
+  const claimToken = await db.claimToken.findUnique({ where: { token } })
+
+  if (!claimToken) {
+    throw new Error('Claim token not found')
+  }
+
+  if (claimToken.claimed) {
+    throw new Error('Token already claimed')
+  }
+
+  if (claimToken.voidedAt) {
+    throw new Error('Token has been voided')
+  }
+
+  return claimToken
+}
+
+/**
+ * Void a token admin actions can still change, throwing why if it can't be
+ */
+async function voidOpenClaimToken(token: string, reason: string, db: DbClient = prisma) {
+  // The lock: a claim that commits after the caller's check is never voided out from under the buyer
+  const voided = await db.claimToken.updateMany({
+    where: { token, claimed: false, voidedAt: null },
+    data: { voidedAt: new Date(), voidReason: reason }
+  })
+
+  if (voided.count === 0) {
+    // Lost the race: re-read to report why
+    await getOpenClaimToken(token, db)
+    throw new Error('Token has been voided')
+  }
+
+  return db.claimToken.findUniqueOrThrow({ where: { token } })
+}
+
+/**
+ * Resend the claim email for an open, unexpired token
+ */
+export async function resendClaimEmail(token: string) {
+  const claimToken = await getOpenClaimToken(token)
+
+  if (claimToken.expiresAt < new Date()) {
+    throw new Error('Token expired - extend or reissue it first')
+  }
+
+  const emailSent = await sendClaimEmail(token)
+
+  return { claimToken, emailSent }
+}
+
+/**
+ * Move a token's expiry and restart its reminder schedule
+ */
+export async function extendClaimToken(token: string, expiresAt: Date) {
+  const claimToken = await getOpenClaimToken(token)
+
+  if (expiresAt <= new Date()) {
+    throw new Error('New expiry must be in the future')
+  }
+
+  const updated = await prisma.claimToken.update({
+    where: { token },
+    data: { expiresAt, remindersSent: [] }
+  })
+
+  return { previousExpiresAt: claimToken.expiresAt, claimToken: updated }
+}
+
+/**
+ * Replace a token with a new one (fresh 30-day expiry) and email the new link
+ * The old link stops working immediately. Products already activated stay
+ * claimed on the new token, so they can't be activated twice.
+ */
+export async function reissueClaimToken(token: string) {
+  await getOpenClaimToken(token)
+
+  const newToken = await prisma.$transaction(async (tx) => {
+    // Read after the void holds the row lock, so a staged claim that just committed is carried over
+    const claimToken = await voidOpenClaimToken(token, 'Reissued', tx)
+
+    return createClaimToken({
+      identityId: claimToken.identityId,
+      bundleId: claimToken.bundleId,
+      purchaseEmail: claimToken.purchaseEmail,
+      stripeSessionId: claimToken.stripeSessionId || undefined,
+      claimedProductIds: claimToken.claimedProductIds
+    }, tx)
+  })
+
+  const emailSent = await sendClaimEmail(newToken.token)
+
+  return { claimToken: newToken, emailSent }
+}
+
+/**
+ * Void a token so it can no longer be claimed
+ */
+export async function voidClaimToken(token: string, reason: string) {
+  await getOpenClaimToken(token)
+
+  return voidOpenClaimToken(token, reason)
+}
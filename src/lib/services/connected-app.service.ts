@@ -0,0 +1,135 @@
+import { randomBytes } from 'crypto'
+import { ConnectedApp, Prisma } from '@prisma/client'
+import prisma, { DbClient } from '@/lib/db'
+import { DEFAULT_TOLERANCE_SECONDS } from '@/lib/webhook-signature'
+
+const SIGNING_SECRET_PREFIX = 'cdsig_'
+
+/**
+ * Generate a new random signing secret
+ */
+export function generateSigningSecret(): string {
+  return `${SIGNING_SECRET_PREFIX}${randomBytes(32).toString('hex')}`
+}
+
+/**
+ * Strip the signing secret before returning an app to the admin UI
+ */
+export function toConnectedAppSummary(app: ConnectedApp) {
+  const { signingSecret, ...rest } = app
+  return { ...rest, hasSigningSecret: !!signingSecret }
+}
+
+/**
+ * Get an enabled connected app by key
+ */
+export async function getActiveConnectedApp(appKey: string, db: DbClient = prisma) {
+  const app = await db.connectedApp.findUnique({ where: { id: appKey } })
+  return app?.isActive ? app : null
+}
+
+/**
+ * Get the enabled connected apps that serve any of the given products
+ */
+export async function getAppsForProducts(productIds: string[], db: DbClient = prisma) {
+  if (productIds.length === 0) {
+    return []
+  }
+
+  return db.connectedApp.findMany({
+    where: {
+      isActive: true,
+      productIds: { hasSome: productIds.map((id) => id.toLowerCase()) }
+    },
+    orderBy: { id: 'asc' }
+  })
+}
+
+/**
+ * Keys of every enabled connected app
+ */
+export async function listActiveAppKeys(): Promise<string[]> {
+  const apps = await prisma.connectedApp.findMany({
+    where: { isActive: true },
+    select: { id: true },
+    orderBy: { id: 'asc' }
+  })
+  return apps.map((app) => app.id)
+}
+
+/**
+ * Validate connected app fields shared by create and update
+ */
+export function validateConnectedAppFields(fields: {
+  id?: unknown
+  baseUrl?: unknown
+  syncPath?: unknown
+  cacheClearPath?: unknown
+  deleteUserPath?: unknown
+  productIds?: unknown
+}): string | null {
+  if (fields.id !== undefined && (typeof fields.id !== 'string' || !/^[a-z0-9-]+$/.test(fields.id))) {
+    return 'ID must contain only lowercase letters, numbers and dashes'
+  }
+
+  if (fields.baseUrl !== undefined) {
+    try {
+      const url = new URL(String(fields.baseUrl))
+      if (!['http:', 'https:'].includes(url.protocol)) {
+        return 'Base URL must be http or https'
+      }
+    } catch {
+      return 'Base URL is not a valid URL'
+    }
+  }
+
+  for (const path of [fields.syncPath, fields.cacheClearPath, fields.deleteUserPath]) {
+    if (path && (typeof path !== 'string' || !path.startsWith('/'))) {
+      return 'Paths must start with /'
+    }
+  }
+
+  if (
+    fields.productIds !== undefined &&
+    (!Array.isArray(fields.productIds) || fields.productIds.some((id) => typeof id !== 'string'))
+  ) {
+    return 'productIds must be an array of product IDs'
+  }
+
+  return null
+}
+
+/**
+ * Replace an app's signing secret, invalidating the old one immediately
+ */
+export async function rotateSigningSecret(appKey: string): Promise<{ app: ConnectedApp; signingSecret: string }> {
+  const signingSecret = generateSigningSecret()
+
+  const app = await prisma.connectedApp.update({
+    where: { id: appKey },
+    data: { signingSecret }
+  })
+
+  return { app, signingSecret }
+}
+
+/**
+ * Record a signature as used
+ * Returns false if it was already seen, i.e. the request is a replay.
+ */
+export async function recordSignatureNonce(appKey: string, signature: string): Promise<boolean> {
+  // Signatures older than the tolerance window are rejected anyway, so drop them
+  await prisma.signatureNonce.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - DEFAULT_TOLERANCE_SECONDS * 2 * 1000) } }
+  })
+
+  try {
+    await prisma.signatureNonce.create({ data: { signature, appKey } })
+    return true
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false
+    }
+    throw error
+  }
+}
@@ -0,0 +1,302 @@
+import { randomInt } from 'crypto'
+import { nanoid } from 'nanoid'
+import { EmailVerification } from '@prisma/client'
+import prisma, { DbClient } from '@/lib/db'
+import { foldEmailAliases, normalizeEmail } from '@/lib/email'
+import { sendEmailVerificationEmail } from './email.service'
+import { enqueueGrantSync, processSyncOutbox } from './app-sync.service'
+import { processPendingSubmissions } from './zapier.service'
+import { activeEntitlementWhere } from './entitlements.service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// How long a verification link and code stay valid
+const VERIFICATION_TTL_DAYS = 7
+
+// Wrong code entries allowed before a verification is locked
+const MAX_CODE_ATTEMPTS = 5
+
+/**
+ * Start verification of an email a buyer entered for some products
+ * Replaces any pending verification for the same identity and email.
+ */
+export async function createEmailVerification(
+  params: { identityId: string; email: string; productIds: string[] },
+  db: DbClient = prisma
+) {
+  const email = normalizeEmail(params.email)
+
+  const pending = await db.emailVerification.findMany({
+    where: { identityId: params.identityId, email, verifiedAt: null }
+  })
+  const productIds = [...new Set([...pending.flatMap((v) => v.productIds), ...params.productIds])]
+
+  await db.emailVerification.deleteMany({
+    where: { id: { in: pending.map((v) => v.id) } }
+  })
+
+  return db.emailVerification.create({
+    data: {
+      identityId: params.identityId,
+      email,
+      productIds,
+      token: nanoid(32),
+      requestKey: nanoid(32),
+      code: randomInt(0, 1000000).toString().padStart(6, '0'),
+      expiresAt: new Date(Date.now() + VERIFICATION_TTL_DAYS * DAY_MS)
+    }
+  })
+}
+
+/**
+ * Email the verification link and code
+ */
+export async function sendVerificationEmail(verification: EmailVerification): Promise<boolean> {
+  const products = await prisma.product.findMany({
+    where: { id: { in: verification.productIds } },
+    orderBy: { displayOrder: 'asc' },
+    select: { name: true }
+  })
+
+  return sendEmailVerificationEmail({
+    email: verification.email,
+    productName: products.map((p) => p.name).join(', ') || 'your products',
+    token: verification.token,
+    code: verification.code,
+    expiresAt: verification.expiresAt
+  })
+}
+
+/**
+ * Create and send verifications for the unverified emails from a claim
+ * Each result carries the request key the requester needs to enter the code.
+ */
+export async function requestEmailVerifications(
+  identityId: string,
+  unverifiedEmails: { email: string; productIds: string[] }[]
+) {
+  const results: { email: string; requestKey: string | null; emailSent: boolean }[] = []
+
+  for (const { email, productIds } of unverifiedEmails) {
+    const verification = await createEmailVerification({ identityId, email, productIds })
+    results.push({
+      email: verification.email,
+      requestKey: verification.requestKey,
+      emailSent: await sendVerificationEmail(verification)
+    })
+  }
+
+  return results
+}
+
+// What a verification released, to send once its transaction commits
+interface ReleasedWork {
+  outboxIds: number[]
+  submissionIds: number[]
+}
+
+/**
+ * Mark an identity's links for an email verified and sync the products it has access to
+ * Runs inside the caller's transaction; returns the outbox rows and Zapier
+ * submissions to send after commit.
+ *
+ * A link another identity has already verified is left with its owner:
+ * anyone can enter someone else's address, and the owner clicking the
+ * confirmation mail mustn't hand their access to the requester. Those
+ * products are logged as a conflict for an admin to review instead.
+ */
+async function markEmailVerified(
+  tx: DbClient,
+  params: { identityId: string; email: string; productIds: string[]; verifiedBy: string }
+): Promise<ReleasedWork> {
+  const { identityId, email, productIds, verifiedBy } = params
+  const verifiedAt = new Date()
+  const linkedIds: string[] = []
+  const conflicts: { productId: string; ownerIdentityId: string }[] = []
+
+  for (const productId of productIds) {
+    const existing = await tx.identityEmail.findUnique({
+      where: { email_productId: { email, productId } }
+    })
+
+    if (existing && existing.identityId !== identityId && existing.verified) {
+      conflicts.push({ productId, ownerIdentityId: existing.identityId })
+      continue
+    }
+
+    linkedIds.push(productId)
+    await tx.identityEmail.upsert({
+      where: { email_productId: { email, productId } },
+      create: { identityId, email, emailKey: foldEmailAliases(email), productId, verified: true, verifiedAt, verifiedBy },
+      update: { identityId, verified: true, verifiedAt, verifiedBy }
+    })
+  }
+
+  if (conflicts.length > 0) {
+    await tx.auditLog.create({
+      data: {
+        action: 'email_verification_conflict',
+        identityId,
+        productIds: conflicts.map((c) => c.productId),
+        details: { email, verifiedBy, owners: conflicts }
+      }
+    })
+  }
+
+  // Access that was held back while the email was unverified
+  const entitlements = await tx.entitlement.findMany({
+    where: { identityId, productId: { in: linkedIds }, ...activeEntitlementWhere() },
+    select: { productId: true }
+  })
+  const grantedIds = [...new Set(entitlements.map((e) => e.productId))]
+
+  // Form submissions held back from Zapier for the same reason
+  const held = await tx.productSubmission.findMany({
+    where: { identityId, email, productId: { in: linkedIds }, awaitingVerification: true },
+    select: { id: true }
+  })
+  const submissionIds = held.map((s) => s.id)
+
+  if (submissionIds.length > 0) {
+    await tx.productSubmission.updateMany({
+      where: { id: { in: submissionIds } },
+      data: { awaitingVerification: false }
+    })
+  }
+
+  return {
+    outboxIds: grantedIds.length > 0 ? await enqueueGrantSync(tx, email, grantedIds, 'Email verified') : [],
+    submissionIds
+  }
+}
+
+/**
+ * Send the app syncs and Zapier submissions a committed verification released
+ */
+async function sendReleasedWork({ outboxIds, submissionIds }: ReleasedWork) {
+  if (outboxIds.length > 0) {
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
+    console.log('[Verification] App sync results:', syncResults)
+  }
+
+  if (submissionIds.length > 0) {
+    const { results } = await processPendingSubmissions({ ids: submissionIds })
+    console.log(`[Verification] Zapier submissions: ${results.filter((r) => r.status === 'rejected').length} of ${results.length} failed`)
+  }
+}
+
+/**
+ * Complete a pending verification exactly once
+ */
+async function completeVerification(verification: EmailVerification, method: 'link' | 'code') {
+  const released = await prisma.$transaction(async (tx) => {
+    const marked = await tx.emailVerification.updateMany({
+      where: { id: verification.id, verifiedAt: null },
+      data: { verifiedAt: new Date() }
+    })
+
+    if (marked.count === 0) {
+      throw new Error('Email already verified')
+    }
+
+    await tx.auditLog.create({
+      data: {
+        action: 'email_verified',
+        identityId: verification.identityId,
+        productIds: verification.productIds,
+        details: { email: verification.email, method }
+      }
+    })
+
+    return markEmailVerified(tx, {
+      identityId: verification.identityId,
+      email: verification.email,
+      productIds: verification.productIds,
+      verifiedBy: method
+    })
+  })
+
+  await sendReleasedWork(released)
+
+  return { email: verification.email, productIds: verification.productIds }
+}
+
+/**
+ * Verify an email from the one-time link
+ */
+export async function verifyEmailByToken(token: string) {
+  const verification = await prisma.emailVerification.findUnique({ where: { token } })
+
+  if (!verification) {
+    throw new Error('Invalid verification link')
+  }
+
+  if (verification.verifiedAt) {
+    throw new Error('Email already verified')
+  }
+
+  if (verification.expiresAt < new Date()) {
+    throw new Error('Verification link expired')
+  }
+
+  return completeVerification(verification, 'link')
+}
+
+/**
+ * Verify an email with the code from the verification email
+ *
+ * The request key ties the code to the verification it was sent for, so
+ * wrong guesses only count against the requester's own verification and
+ * nobody else can use up its attempts.
+ */
+export async function verifyEmailByCode(requestKey: string, code: string) {
+  const verification = await prisma.emailVerification.findUnique({ where: { requestKey } })
+
+  if (!verification || verification.verifiedAt || verification.expiresAt < new Date()) {
+    throw new Error('No pending verification for this email')
+  }
+
+  if (verification.attempts >= MAX_CODE_ATTEMPTS) {
+    throw new Error('Too many wrong codes; use the link in the verification email')
+  }
+
+  if (verification.code !== code.trim()) {
+    // The lock: concurrent guesses can't go past the attempt limit
+    const counted = await prisma.emailVerification.updateMany({
+      where: { id: verification.id, attempts: { lt: MAX_CODE_ATTEMPTS } },
+      data: { attempts: { increment: 1 } }
+    })
+
+    throw new Error(counted.count > 0 ? 'Invalid verification code' : 'Too many wrong codes; use the link in the verification email')
+  }
+
+  return completeVerification(verification, 'code')
+}
+
+/**
+ * Verify an identity email on an admin's word
+ */
+export async function forceVerifyIdentityEmail(id: number, adminEmail: string) {
+  const identityEmail = await prisma.identityEmail.findUnique({ where: { id } })
+
+  if (!identityEmail) {
+    throw new Error('Identity email not found')
+  }
+
+  if (identityEmail.verified) {
+    throw new Error('Email already verified')
+  }
+
+  const released = await prisma.$transaction((tx) =>
+    markEmailVerified(tx, {
+      identityId: identityEmail.identityId,
+      email: identityEmail.email,
+      productIds: [identityEmail.productId],
+      verifiedBy: adminEmail
+    })
+  )
+
+  await sendReleasedWork(released)
+
+  return identityEmail
+}
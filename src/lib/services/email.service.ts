@@ -76,6 +76,298 @@ export async function sendBundlePurchaseEmail(data: BundlePurchaseEmailData): Pr
   }
 }
 
+interface PaymentFailedEmailData {
+  customerEmail: string
+  customerName?: string
+  bundleName: string
+  graceEndsAt: Date
+  invoiceUrl?: string
+  actionRequired?: boolean
+}
+
+/**
+ * Send a "payment failed" email when a subscription renewal can't be charged
+ * Also used when the bank requires the customer to authenticate the payment.
+ */
+export async function sendPaymentFailedEmail(data: PaymentFailedEmailData): Promise<boolean> {
+  const resend = getResend()
+
+  if (!resend) {
+    console.warn('[Email] Resend not configured, skipping payment failed email')
+    return false
+  }
+
+  const { customerEmail, bundleName, actionRequired } = data
+
+  try {
+    const { error } = await resend.emails.send({
+      from: `${EMAIL_FROM_NAME} <${EMAIL_FROM}>`,
+      to: customerEmail,
+      subject: actionRequired
+        ? `Action needed to renew your ${bundleName}`
+        : `Payment failed for your ${bundleName}`,
+      html: generatePaymentFailedEmailHtml(data)
+    })
+
+    if (error) {
+      console.error('[Email] Failed to send payment failed email:', error)
+      return false
+    }
+
+    console.log(`[Email] Payment failed email sent to ${customerEmail}`)
+    return true
+  } catch (error) {
+    console.error('[Email] Error sending payment failed email:', error)
+    return false
+  }
+}
+
+interface ClaimInvitationEmailData {
+  customerEmail: string
+  customerName?: string
+  bundleName: string
+  productNames: string[]
+  token: string
+  expiresAt: Date
+  reminder?: boolean
+}
+
+/**
+ * Send the link a buyer uses to claim a bundle with form-based products
+ * The same template is used for reminders while the token is unclaimed.
+ */
+export async function sendClaimInvitationEmail(data: ClaimInvitationEmailData): Promise<boolean> {
+  const resend = getResend()
+
+  if (!resend) {
+    console.warn('[Email] Resend not configured, skipping claim invitation email')
+    return false
+  }
+
+  const { customerEmail, bundleName, reminder } = data
+
+  try {
+    const { error } = await resend.emails.send({
+      from: `${EMAIL_FROM_NAME} <${EMAIL_FROM}>`,
+      to: customerEmail,
+      subject: reminder
+        ? `Reminder: claim your ${bundleName} before your link expires`
+        : `Claim your ${bundleName}`,
+      html: generateClaimInvitationEmailHtml(data)
+    })
+
+    if (error) {
+      console.error('[Email] Failed to send claim invitation email:', error)
+      return false
+    }
+
+    console.log(`[Email] Claim ${reminder ? 'reminder' : 'invitation'} email sent to ${customerEmail}`)
+    return true
+  } catch (error) {
+    console.error('[Email] Error sending claim invitation email:', error)
+    return false
+  }
+}
+
+interface EmailVerificationEmailData {
+  email: string
+  productName: string
+  token: string
+  code: string
+  expiresAt: Date
+}
+
+/**
+ * Send the one-time link and code that prove a buyer owns a product email
+ */
+export async function sendEmailVerificationEmail(data: EmailVerificationEmailData): Promise<boolean> {
+  const resend = getResend()
+
+  if (!resend) {
+    console.warn('[Email] Resend not configured, skipping email verification email')
+    return false
+  }
+
+  const { email, productName } = data
+
+  try {
+    const { error } = await resend.emails.send({
+      from: `${EMAIL_FROM_NAME} <${EMAIL_FROM}>`,
+      to: email,
+      subject: `Confirm your email for ${productName}`,
+      html: generateEmailVerificationEmailHtml(data)
+    })
+
+    if (error) {
+      console.error('[Email] Failed to send email verification email:', error)
+      return false
+    }
+
+    console.log(`[Email] Verification email sent to ${email}`)
+    return true
+  } catch (error) {
+    console.error('[Email] Error sending email verification email:', error)
+    return false
+  }
+}
+
+interface AccountLoginEmailData {
+  email: string
+  token: string
+  expiresInMinutes: number
+}
+
+/**
+ * Send the magic link that signs a customer in to their account page
+ */
+export async function sendAccountLoginEmail(data: AccountLoginEmailData): Promise<boolean> {
+  const resend = getResend()
+
+  if (!resend) {
+    console.warn('[Email] Resend not configured, skipping account login email')
+    return false
+  }
+
+  try {
+    const { error } = await resend.emails.send({
+      from: `${EMAIL_FROM_NAME} <${EMAIL_FROM}>`,
+      to: data.email,
+      subject: 'Your sign-in link',
+      html: generateAccountLoginEmailHtml(data)
+    })
+
+    if (error) {
+      console.error('[Email] Failed to send account login email:', error)
+      return false
+    }
+
+    console.log(`[Email] Account login email sent to ${data.email}`)
+    return true
+  } catch (error) {
+    console.error('[Email] Error sending account login email:', error)
+    return false
+  }
+}
+
+interface AdminInviteEmailData {
+  email: string
+  token: string
+  roleLabel: string
+  invitedBy: string
+  expiresAt: Date
+}
+
+/**
+ * Send an invitation to join the admin team
+ */
+export async function sendAdminInviteEmail(data: AdminInviteEmailData): Promise<boolean> {
+  const resend = getResend()
+
+  if (!resend) {
+    console.warn('[Email] Resend not configured, skipping admin invite email')
+    return false
+  }
+
+  try {
+    const { error } = await resend.emails.send({
+      from: `${EMAIL_FROM_NAME} <${EMAIL_FROM}>`,
+      to: data.email,
+      subject: 'You have been invited to the Entitlements Admin',
+      html: generateAdminInviteEmailHtml(data)
+    })
+
+    if (error) {
+      console.error('[Email] Failed to send admin invite email:', error)
+      return false
+    }
+
+    console.log(`[Email] Admin invite email sent to ${data.email}`)
+    return true
+  } catch (error) {
+    console.error('[Email] Error sending admin invite email:', error)
+    return false
+  }
+}
+
+interface AdminPasswordResetEmailData {
+  email: string
+  token: string
+  requestedBy: string
+  expiresAt: Date
+}
+
+/**
+ * Send the link an admin uses to set a new password after a forced reset
+ */
+export async function sendAdminPasswordResetEmail(data: AdminPasswordResetEmailData): Promise<boolean> {
+  const resend = getResend()
+
+  if (!resend) {
+    console.warn('[Email] Resend not configured, skipping admin password reset email')
+    return false
+  }
+
+  try {
+    const { error } = await resend.emails.send({
+      from: `${EMAIL_FROM_NAME} <${EMAIL_FROM}>`,
+      to: data.email,
+      subject: 'Reset your Entitlements Admin password',
+      html: generateAdminPasswordResetEmailHtml(data)
+    })
+
+    if (error) {
+      console.error('[Email] Failed to send admin password reset email:', error)
+      return false
+    }
+
+    console.log(`[Email] Admin password reset email sent to ${data.email}`)
+    return true
+  } catch (error) {
+    console.error('[Email] Error sending admin password reset email:', error)
+    return false
+  }
+}
+
+interface SecurityAlertEmailData {
+  to: string[]
+  summary: string
+  email: string | null
+  ipAddress: string | null
+  occurredAt: Date
+}
+
+/**
+ * Alert owners to a security event, such as an admin sign-in lockout
+ */
+export async function sendSecurityAlertEmail(data: SecurityAlertEmailData): Promise<boolean> {
+  const resend = getResend()
+
+  if (!resend) {
+    console.warn('[Email] Resend not configured, skipping security alert email')
+    return false
+  }
+
+  try {
+    const { error } = await resend.emails.send({
+      from: `${EMAIL_FROM_NAME} <${EMAIL_FROM}>`,
+      to: data.to,
+      subject: 'Security alert: Entitlements Admin',
+      html: generateSecurityAlertEmailHtml(data)
+    })
+
+    if (error) {
+      console.error('[Email] Failed to send security alert email:', error)
+      return false
+    }
+
+    console.log(`[Email] Security alert email sent to ${data.to.join(', ')}`)
+    return true
+  } catch (error) {
+    console.error('[Email] Error sending security alert email:', error)
+    return false
+  }
+}
+
 interface EmailHtmlData {
   name: string
   bundleName: string
@@ -345,3 +637,465 @@ function generateBundleEmailHtml(data: EmailHtmlData): string {
     </html>
   `
 }
+
+function generatePaymentFailedEmailHtml(data: PaymentFailedEmailData): string {
+  const { customerName, bundleName, graceEndsAt, invoiceUrl, actionRequired } = data
+  const name = customerName || 'there'
+  const graceEndText = graceEndsAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+
+  const message = actionRequired
+    ? `Your bank needs you to confirm the renewal payment for your <span style="color: #DB1818; font-weight: 700;">${bundleName}</span>.`
+    : `We couldn't process the renewal payment for your <span style="color: #DB1818; font-weight: 700;">${bundleName}</span>.`
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Payment issue with ${bundleName}</title>
+    </head>
+    <body style="font-family: 'Lato', Arial, sans-serif; line-height: 1.5; color: #332D2D; background-color: #FFF9F5; margin: 0; padding: 0;">
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+        <!-- Header -->
+        <tr>
+          <td style="background-color: #DB1818; padding: 25px 30px 20px; text-align: center;">
+            <div style="background-color: #ffffff; padding: 12px 18px; border-radius: 8px; display: inline-block;">
+              <img src="${LOGOS.immigrantNetworks}" alt="Immigrant Networks" style="max-width: 150px; height: auto; display: block;">
+            </div>
+          </td>
+        </tr>
+
+        <!-- Main Content -->
+        <tr>
+          <td style="padding: 25px 30px;">
+            <h2 style="font-size: 22px; font-weight: 700; margin: 0 0 12px 0; color: #332D2D;">Hi ${name},</h2>
+
+            <p style="font-size: 15px; color: #332D2D; margin: 0 0 10px 0; line-height: 1.5;">${message}</p>
+
+            <div style="background-color: #FFF9F5; padding: 10px 15px; margin: 12px 0; border-radius: 6px; border-left: 4px solid #DB1818; font-size: 14px; line-height: 1.5;">
+              <strong style="color: #332D2D;">📅 Your access continues until ${graceEndText}.</strong>
+              Please update your payment details before then to keep using all products in your bundle.
+            </div>
+
+            ${invoiceUrl ? `
+            <div style="text-align: center; margin: 25px 0;">
+              <a href="${invoiceUrl}" style="background-color: #DB1818; color: #ffffff; padding: 12px 28px; border-radius: 6px; text-decoration: none; font-weight: 700; font-size: 15px; display: inline-block;">
+                ${actionRequired ? 'Confirm Payment' : 'Update Payment'}
+              </a>
+            </div>
+            ` : ''}
+
+            <!-- Support -->
+            <div style="text-align: center; padding: 20px; background-color: #FFF9F5; margin-top: 20px; border-radius: 8px;">
+              <h3 style="color: #332D2D; margin: 0 0 8px 0; font-weight: 700; font-size: 17px;">Need help? We're here for you!</h3>
+              <p style="color: #666; font-size: 14px; margin: 0;">
+                Reply to this email or contact us at
+                <a href="mailto:support@immnet.ca" style="color: #DB1818; text-decoration: none; font-weight: 600;">support@immnet.ca</a>
+              </p>
+            </div>
+          </td>
+        </tr>
+
+        <!-- Footer -->
+        <tr>
+          <td style="background-color: #f5f5f5; color: #666; padding: 20px 30px; text-align: center; font-size: 12px;">
+            <p style="margin: 5px 0; line-height: 1.5;">You're receiving this email because you subscribe to the ${bundleName}.</p>
+            <p style="margin: 5px 0; line-height: 1.5;">© ${new Date().getFullYear()} Immigrant Networks - All rights reserved.</p>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `
+}
+
+function generateClaimInvitationEmailHtml(data: ClaimInvitationEmailData): string {
+  const { customerName, bundleName, productNames, token, expiresAt, reminder } = data
+  const name = customerName || 'there'
+  const claimUrl = `${APP_URL}/claim/${token}`
+  const expiryText = expiresAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+
+  const message = reminder
+    ? `You haven't claimed your <span style="color: #DB1818; font-weight: 700;">${bundleName}</span> yet.`
+    : `Thank you for purchasing the <span style="color: #DB1818; font-weight: 700;">${bundleName}</span>!`
+
+  const productItems = productNames
+    .map((productName) => `<li style="margin: 4px 0;">${productName}</li>`)
+    .join('')
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Claim your ${bundleName}</title>
+    </head>
+    <body style="font-family: 'Lato', Arial, sans-serif; line-height: 1.5; color: #332D2D; background-color: #FFF9F5; margin: 0; padding: 0;">
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+        <!-- Header -->
+        <tr>
+          <td style="background-color: #DB1818; padding: 25px 30px 20px; text-align: center;">
+            <div style="background-color: #ffffff; padding: 12px 18px; border-radius: 8px; display: inline-block;">
+              <img src="${LOGOS.immigrantNetworks}" alt="Immigrant Networks" style="max-width: 150px; height: auto; display: block;">
+            </div>
+          </td>
+        </tr>
+
+        <!-- Main Content -->
+        <tr>
+          <td style="padding: 25px 30px;">
+            <h2 style="font-size: 22px; font-weight: 700; margin: 0 0 12px 0; color: #332D2D;">Hi ${name},</h2>
+
+            <p style="font-size: 15px; color: #332D2D; margin: 0 0 10px 0; line-height: 1.5;">${message}</p>
+
+            <p style="font-size: 15px; color: #332D2D; margin: 0 0 10px 0; line-height: 1.5;">
+              Some products need a few details before we can set them up. Use the link below to choose the email for each product and complete any forms.
+            </p>
+
+            <p style="font-size: 15px; color: #332D2D; margin: 15px 0 5px 0; font-weight: 700;">Your bundle includes:</p>
+            <ul style="font-size: 15px; color: #332D2D; margin: 0 0 10px 0; padding-left: 20px;">
+              ${productItems}
+            </ul>
+
+            <div style="text-align: center; margin: 25px 0;">
+              <a href="${claimUrl}" style="background-color: #DB1818; color: #ffffff; padding: 12px 28px; border-radius: 6px; text-decoration: none; font-weight: 700; font-size: 15px; display: inline-block;">
+                Claim Your Bundle
+              </a>
+            </div>
+
+            <div style="background-color: #FFF9F5; padding: 10px 15px; margin: 12px 0; border-radius: 6px; border-left: 4px solid #DB1818; font-size: 14px; line-height: 1.5;">
+              <strong style="color: #332D2D;">📅 This link expires on ${expiryText}.</strong>
+              If the button doesn't work, copy this link into your browser:<br>
+              <a href="${claimUrl}" style="color: #DB1818; word-break: break-all;">${claimUrl}</a>
+            </div>
+
+            <!-- Support -->
+            <div style="text-align: center; padding: 20px; background-color: #FFF9F5; margin-top: 20px; border-radius: 8px;">
+              <h3 style="color: #332D2D; margin: 0 0 8px 0; font-weight: 700; font-size: 17px;">Need help? We're here for you!</h3>
+              <p style="color: #666; font-size: 14px; margin: 0;">
+                Reply to this email or contact us at
+                <a href="mailto:support@immnet.ca" style="color: #DB1818; text-decoration: none; font-weight: 600;">support@immnet.ca</a>
+              </p>
+            </div>
+          </td>
+        </tr>
+
+        <!-- Footer -->
+        <tr>
+          <td style="background-color: #f5f5f5; color: #666; padding: 20px 30px; text-align: center; font-size: 12px;">
+            <p style="margin: 5px 0; line-height: 1.5;">You're receiving this email because you purchased the ${bundleName}.</p>
+            <p style="margin: 5px 0; line-height: 1.5;">© ${new Date().getFullYear()} Immigrant Networks - All rights reserved.</p>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `
+}
+
+function generateEmailVerificationEmailHtml(data: EmailVerificationEmailData): string {
+  const { productName, token, code, expiresAt } = data
+  const verifyUrl = `${APP_URL}/verify-email/${token}`
+  const expiryText = expiresAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Confirm your email for ${productName}</title>
+    </head>
+    <body style="font-family: 'Lato', Arial, sans-serif; line-height: 1.5; color: #332D2D; background-color: #FFF9F5; margin: 0; padding: 0;">
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+        <!-- Header -->
+        <tr>
+          <td style="background-color: #DB1818; padding: 25px 30px 20px; text-align: center;">
+            <div style="background-color: #ffffff; padding: 12px 18px; border-radius: 8px; display: inline-block;">
+              <img src="${LOGOS.immigrantNetworks}" alt="Immigrant Networks" style="max-width: 150px; height: auto; display: block;">
+            </div>
+          </td>
+        </tr>
+
+        <!-- Main Content -->
+        <tr>
+          <td style="padding: 25px 30px;">
+            <h2 style="font-size: 22px; font-weight: 700; margin: 0 0 12px 0; color: #332D2D;">Confirm your email</h2>
+
+            <p style="font-size: 15px; color: #332D2D; margin: 0 0 10px 0; line-height: 1.5;">
+              This address was entered to activate <span style="color: #DB1818; font-weight: 700;">${productName}</span>.
+              Access is enabled for it once you confirm it's yours.
+            </p>
+
+            <div style="text-align: center; margin: 25px 0;">
+              <a href="${verifyUrl}" style="background-color: #DB1818; color: #ffffff; padding: 12px 28px; border-radius: 6px; text-decoration: none; font-weight: 700; font-size: 15px; display: inline-block;">
+                Confirm Email
+              </a>
+            </div>
+
+            <p style="font-size: 15px; color: #332D2D; margin: 0 0 10px 0; line-height: 1.5; text-align: center;">
+              Or enter this code on the activation page:
+            </p>
+            <p style="font-size: 28px; font-weight: 700; letter-spacing: 6px; text-align: center; margin: 0 0 20px 0; color: #332D2D;">${code}</p>
+
+            <div style="background-color: #FFF9F5; padding: 10px 15px; margin: 12px 0; border-radius: 6px; border-left: 4px solid #DB1818; font-size: 14px; line-height: 1.5;">
+              <strong style="color: #332D2D;">📅 This link and code expire on ${expiryText}.</strong>
+              If you didn't request this, you can ignore this email.
+            </div>
+          </td>
+        </tr>
+
+        <!-- Footer -->
+        <tr>
+          <td style="background-color: #f5f5f5; color: #666; padding: 20px 30px; text-align: center; font-size: 12px;">
+            <p style="margin: 5px 0; line-height: 1.5;">© ${new Date().getFullYear()} Immigrant Networks - All rights reserved.</p>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `
+}
+
+function generateAccountLoginEmailHtml(data: AccountLoginEmailData): string {
+  const { token, expiresInMinutes } = data
+  const loginUrl = `${APP_URL}/account/login/${token}`
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Your sign-in link</title>
+    </head>
+    <body style="font-family: 'Lato', Arial, sans-serif; line-height: 1.5; color: #332D2D; background-color: #FFF9F5; margin: 0; padding: 0;">
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+        <!-- Header -->
+        <tr>
+          <td style="background-color: #DB1818; padding: 25px 30px 20px; text-align: center;">
+            <div style="background-color: #ffffff; padding: 12px 18px; border-radius: 8px; display: inline-block;">
+              <img src="${LOGOS.immigrantNetworks}" alt="Immigrant Networks" style="max-width: 150px; height: auto; display: block;">
+            </div>
+          </td>
+        </tr>
+
+        <!-- Main Content -->
+        <tr>
+          <td style="padding: 25px 30px;">
+            <h2 style="font-size: 22px; font-weight: 700; margin: 0 0 12px 0; color: #332D2D;">Sign in to your account</h2>
+
+            <p style="font-size: 15px; color: #332D2D; margin: 0 0 10px 0; line-height: 1.5;">
+              Use the button below to see your products, manage the emails you use for them and
+              download your receipts.
+            </p>
+
+            <div style="text-align: center; margin: 25px 0;">
+              <a href="${loginUrl}" style="background-color: #DB1818; color: #ffffff; padding: 12px 28px; border-radius: 6px; text-decoration: none; font-weight: 700; font-size: 15px; display: inline-block;">
+                Sign In
+              </a>
+            </div>
+
+            <div style="background-color: #FFF9F5; padding: 10px 15px; margin: 12px 0; border-radius: 6px; border-left: 4px solid #DB1818; font-size: 14px; line-height: 1.5;">
+              <strong style="color: #332D2D;">🔒 This link works once and expires in ${expiresInMinutes} minutes.</strong>
+              If you didn't request it, you can ignore this email.
+            </div>
+          </td>
+        </tr>
+
+        <!-- Footer -->
+        <tr>
+          <td style="background-color: #f5f5f5; color: #666; padding: 20px 30px; text-align: center; font-size: 12px;">
+            <p style="margin: 5px 0; line-height: 1.5;">© ${new Date().getFullYear()} Immigrant Networks - All rights reserved.</p>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `
+}
+
+function generateAdminInviteEmailHtml(data: AdminInviteEmailData): string {
+  const { token, roleLabel, invitedBy, expiresAt } = data
+  const url = `${APP_URL}/admin/invite/${token}`
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Admin invitation</title>
+    </head>
+    <body style="font-family: 'Lato', Arial, sans-serif; line-height: 1.5; color: #332D2D; background-color: #FFF9F5; margin: 0; padding: 0;">
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+        <!-- Header -->
+        <tr>
+          <td style="background-color: #DB1818; padding: 25px 30px 20px; text-align: center;">
+            <div style="background-color: #ffffff; padding: 12px 18px; border-radius: 8px; display: inline-block;">
+              <img src="${LOGOS.immigrantNetworks}" alt="Immigrant Networks" style="max-width: 150px; height: auto; display: block;">
+            </div>
+          </td>
+        </tr>
+
+        <!-- Main Content -->
+        <tr>
+          <td style="padding: 25px 30px;">
+            <h2 style="font-size: 22px; font-weight: 700; margin: 0 0 12px 0; color: #332D2D;">Join the admin team</h2>
+
+            <p style="font-size: 15px; color: #332D2D; margin: 0 0 10px 0; line-height: 1.5;">
+              ${invitedBy} invited you to the Entitlements Admin as <strong>${roleLabel}</strong>.
+              Choose a password to activate your account.
+            </p>
+
+            <div style="text-align: center; margin: 25px 0;">
+              <a href="${url}" style="background-color: #DB1818; color: #ffffff; padding: 12px 28px; border-radius: 6px; text-decoration: none; font-weight: 700; font-size: 15px; display: inline-block;">
+                Accept Invitation
+              </a>
+            </div>
+
+            <div style="background-color: #FFF9F5; padding: 10px 15px; margin: 12px 0; border-radius: 6px; border-left: 4px solid #DB1818; font-size: 14px; line-height: 1.5;">
+              <strong style="color: #332D2D;">🔒 This invitation expires on ${expiresAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}.</strong>
+              If you weren't expecting it, you can ignore this email.
+            </div>
+          </td>
+        </tr>
+
+        <!-- Footer -->
+        <tr>
+          <td style="background-color: #f5f5f5; color: #666; padding: 20px 30px; text-align: center; font-size: 12px;">
+            <p style="margin: 5px 0; line-height: 1.5;">© ${new Date().getFullYear()} Immigrant Networks - All rights reserved.</p>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `
+}
+
+function generateAdminPasswordResetEmailHtml(data: AdminPasswordResetEmailData): string {
+  const { token, requestedBy, expiresAt } = data
+  const url = `${APP_URL}/admin/reset-password/${token}`
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Reset your password</title>
+    </head>
+    <body style="font-family: 'Lato', Arial, sans-serif; line-height: 1.5; color: #332D2D; background-color: #FFF9F5; margin: 0; padding: 0;">
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+        <!-- Header -->
+        <tr>
+          <td style="background-color: #DB1818; padding: 25px 30px 20px; text-align: center;">
+            <div style="background-color: #ffffff; padding: 12px 18px; border-radius: 8px; display: inline-block;">
+              <img src="${LOGOS.immigrantNetworks}" alt="Immigrant Networks" style="max-width: 150px; height: auto; display: block;">
+            </div>
+          </td>
+        </tr>
+
+        <!-- Main Content -->
+        <tr>
+          <td style="padding: 25px 30px;">
+            <h2 style="font-size: 22px; font-weight: 700; margin: 0 0 12px 0; color: #332D2D;">Reset your password</h2>
+
+            <p style="font-size: 15px; color: #332D2D; margin: 0 0 10px 0; line-height: 1.5;">
+              ${requestedBy} reset the password on your Entitlements Admin account, and you have
+              been signed out everywhere. Choose a new password to sign in again.
+            </p>
+
+            <div style="text-align: center; margin: 25px 0;">
+              <a href="${url}" style="background-color: #DB1818; color: #ffffff; padding: 12px 28px; border-radius: 6px; text-decoration: none; font-weight: 700; font-size: 15px; display: inline-block;">
+                Choose a New Password
+              </a>
+            </div>
+
+            <div style="background-color: #FFF9F5; padding: 10px 15px; margin: 12px 0; border-radius: 6px; border-left: 4px solid #DB1818; font-size: 14px; line-height: 1.5;">
+              <strong style="color: #332D2D;">🔒 This link works once and expires on ${expiresAt.toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' })}.</strong>
+              If you didn't expect this, contact your team's owner.
+            </div>
+          </td>
+        </tr>
+
+        <!-- Footer -->
+        <tr>
+          <td style="background-color: #f5f5f5; color: #666; padding: 20px 30px; text-align: center; font-size: 12px;">
+            <p style="margin: 5px 0; line-height: 1.5;">© ${new Date().getFullYear()} Immigrant Networks - All rights reserved.</p>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `
+}
+
+// The account and IP in security alerts come straight from whoever made the attempt
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function generateSecurityAlertEmailHtml(data: SecurityAlertEmailData): string {
+  const { summary, occurredAt } = data
+  const email = data.email && escapeHtml(data.email)
+  const ipAddress = data.ipAddress && escapeHtml(data.ipAddress)
+  const url = `${APP_URL}/admin/logs`
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Security alert</title>
+    </head>
+    <body style="font-family: 'Lato', Arial, sans-serif; line-height: 1.5; color: #332D2D; background-color: #FFF9F5; margin: 0; padding: 0;">
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+        <!-- Header -->
+        <tr>
+          <td style="background-color: #DB1818; padding: 25px 30px 20px; text-align: center;">
+            <div style="background-color: #ffffff; padding: 12px 18px; border-radius: 8px; display: inline-block;">
+              <img src="${LOGOS.immigrantNetworks}" alt="Immigrant Networks" style="max-width: 150px; height: auto; display: block;">
+            </div>
+          </td>
+        </tr>
+
+        <!-- Main Content -->
+        <tr>
+          <td style="padding: 25px 30px;">
+            <h2 style="font-size: 22px; font-weight: 700; margin: 0 0 12px 0; color: #332D2D;">Security alert</h2>
+
+            <p style="font-size: 15px; color: #332D2D; margin: 0 0 10px 0; line-height: 1.5;">${summary}.</p>
+
+            <div style="background-color: #FFF9F5; padding: 10px 15px; margin: 12px 0; border-radius: 6px; border-left: 4px solid #DB1818; font-size: 14px; line-height: 1.5;">
+              ${email ? `<strong style="color: #332D2D;">Account:</strong> ${email}<br>` : ''}
+              <strong style="color: #332D2D;">IP address:</strong> ${ipAddress || 'unknown'}<br>
+              <strong style="color: #332D2D;">Time:</strong> ${occurredAt.toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' })}
+            </div>
+
+            <p style="font-size: 15px; color: #332D2D; margin: 0 0 10px 0; line-height: 1.5;">
+              If this wasn't one of your team, review the Security tab of the admin logs.
+            </p>
+
+            <div style="text-align: center; margin: 25px 0;">
+              <a href="${url}" style="background-color: #DB1818; color: #ffffff; padding: 12px 28px; border-radius: 6px; text-decoration: none; font-weight: 700; font-size: 15px; display: inline-block;">
+                View Security Events
+              </a>
+            </div>
+          </td>
+        </tr>
+
+        <!-- Footer -->
+        <tr>
+          <td style="background-color: #f5f5f5; color: #666; padding: 20px 30px; text-align: center; font-size: 12px;">
+            <p style="margin: 5px 0; line-height: 1.5;">© ${new Date().getFullYear()} Immigrant Networks - All rights reserved.</p>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `
+}
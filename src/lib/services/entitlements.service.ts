@@ -1,8 +1,11 @@
-import prisma from '@/lib/db'
+import prisma, { DbClient } from '@/lib/db'
+import { foldEmailAliases, INVALID_EMAIL_ERROR, isValidEmail, normalizeEmail, requireEmail } from '@/lib/email'
 import { calculateExpiryDate, DurationType } from '@/lib/types'
 import { nanoid } from 'nanoid'
 import { Prisma } from '@prisma/client'
-import { revokeAccessAndSync } from './app-sync.service'
+import { enqueueGrantSync, enqueueRevokeSync, processSyncOutbox } from './app-sync.service'
+import { triggerClaimWebhooks } from './zapier.service'
+import { ERASED_EMAIL_ERROR, isEmailErased } from './privacy.service'
 
 interface AccessResult {
   hasAccess: boolean
@@ -11,6 +14,24 @@ interface AccessResult {
   bundleName?: string
   expires?: string | null
   grantedAt?: string
+  graceEndsAt?: string
+}
+
+// Revocation reason used when a dunning grace period runs out
+export const GRACE_PERIOD_ENDED_REASON = 'Payment grace period ended'
+
+/**
+ * Filter for entitlements that currently give access:
+ * not revoked, not expired and not past a dunning grace period
+ */
+export function activeEntitlementWhere(now: Date = new Date()): Prisma.EntitlementWhereInput {
+  return {
+    revokedAt: null,
+    AND: [
+      { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+      { OR: [{ graceEndsAt: null }, { graceEndsAt: { gt: now } }] }
+    ]
+  }
 }
 
 /**
@@ -18,73 +39,137 @@ interface AccessResult {
  * Filters to only check non-revoked, non-expired entitlements
  */
 export async function checkAccess(email: string, productId: string): Promise<AccessResult> {
-  // Find identity email for this product
-  const identityEmail = await prisma.identityEmail.findUnique({
-    where: {
-      email_productId: { email: email.toLowerCase(), productId }
-    },
-    include: {
-      identity: {
-        include: {
-          entitlements: {
-            where: {
-              productId,
-              revokedAt: null, // Only non-revoked entitlements
-              OR: [
-                { expiresAt: null }, // Never expires
-                { expiresAt: { gt: new Date() } } // Not yet expired
-              ]
-            },
-            include: {
-              bundle: true
-            },
-            orderBy: { grantedAt: 'desc' } // Most recent first
-          }
-        }
-      }
-    }
-  })
+  const [result] = await checkAccessBatch([{ email, product: productId }])
+  return result
+}
 
-  if (!identityEmail) {
-    // Check if there's an entitlement by primary email
-    const identity = await prisma.identity.findFirst({
-      where: { primaryEmail: email.toLowerCase() },
-      include: {
-        entitlements: {
-          where: {
-            productId,
-            revokedAt: null, // Only non-revoked entitlements
-            OR: [
-              { expiresAt: null }, // Never expires
-              { expiresAt: { gt: new Date() } } // Not yet expired
-            ]
-          },
-          include: { bundle: true },
-          orderBy: { grantedAt: 'desc' } // Most recent first
-        }
-      }
-    })
+/**
+ * Check access for many email/product pairs at once
+ * Resolves every pair in a fixed number of queries, regardless of batch size.
+ * Results are returned in the same order as the input pairs.
+ * Products with foldEmailAliases also match +tag and Gmail-dot variants.
+ */
+export async function checkAccessBatch(
+  checks: { email: string; product: string }[]
+): Promise<(AccessResult & { email: string })[]> {
+  if (checks.length === 0) {
+    return []
+  }
 
-    if (!identity || identity.entitlements.length === 0) {
-      return { hasAccess: false, product: productId }
+  const productIds = [...new Set(checks.map((check) => check.product))]
+  const foldingProducts = await prisma.product.findMany({
+    where: { id: { in: productIds }, foldEmailAliases: true },
+    select: { id: true }
+  })
+  const foldingProductIds = foldingProducts.map((p) => p.id)
+
+  const pairs = checks.map((check) => ({
+    email: normalizeEmail(check.email),
+    emailKey: foldingProductIds.includes(check.product) ? foldEmailAliases(check.email) : null,
+    productId: check.product
+  }))
+  const emails = [...new Set(pairs.map((p) => p.email))]
+  const emailKeys = [...new Set(pairs.flatMap((p) => (p.emailKey ? [p.emailKey] : [])))]
+
+  // Product-specific email links and primary-email identities, in one round trip
+  // Unverified links are ignored until the owner confirms the address
+  const [identityEmails, primaryIdentities] = await Promise.all([
+    prisma.identityEmail.findMany({
+      where: {
+        OR: [
+          { email: { in: emails }, productId: { in: productIds } },
+          ...(emailKeys.length > 0 ? [{ emailKey: { in: emailKeys }, productId: { in: foldingProductIds } }] : [])
+        ],
+        verified: true
+      },
+      select: { email: true, emailKey: true, productId: true, identityId: true },
+      orderBy: { addedAt: 'asc' }
+    }),
+    prisma.identity.findMany({
+      where: {
+        OR: [
+          { primaryEmail: { in: emails } },
+          ...(emailKeys.length > 0 ? [{ primaryEmailKey: { in: emailKeys } }] : [])
+        ]
+      },
+      select: { id: true, primaryEmail: true, primaryEmailKey: true, mergedIntoId: true },
+      orderBy: { createdAt: 'asc' }
+    })
+  ])
+
+  // Exact matches first; folded keys only fill in for alias-folding products
+  const linkedIdentity = new Map<string, string>()
+  const linkedByKey = new Map<string, string>()
+  for (const row of identityEmails) {
+    linkedIdentity.set(`${row.email}:${row.productId}`, row.identityId)
+    if (row.emailKey && !linkedByKey.has(`${row.emailKey}:${row.productId}`)) {
+      linkedByKey.set(`${row.emailKey}:${row.productId}`, row.identityId)
     }
+  }
 
-    const entitlement = identity.entitlements[0]
-    return checkEntitlementAccess(entitlement, productId)
+  const primaryIdentity = new Map<string, string>()
+  const primaryByKey = new Map<string, string>()
+  for (const identity of primaryIdentities) {
+    // Keep the oldest identity if several share a primary email
+    // A merged identity answers for its survivor
+    if (!primaryIdentity.has(identity.primaryEmail)) {
+      primaryIdentity.set(identity.primaryEmail, identity.mergedIntoId ?? identity.id)
+    }
+    if (identity.primaryEmailKey && !primaryByKey.has(identity.primaryEmailKey)) {
+      primaryByKey.set(identity.primaryEmailKey, identity.mergedIntoId ?? identity.id)
+    }
   }
 
-  if (identityEmail.identity.entitlements.length === 0) {
-    return { hasAccess: false, product: productId }
+  // A product-specific link takes precedence over the primary email
+  const resolvedIdentityIds = pairs.map(
+    (p) =>
+      linkedIdentity.get(`${p.email}:${p.productId}`) ??
+      (p.emailKey ? linkedByKey.get(`${p.emailKey}:${p.productId}`) : undefined) ??
+      primaryIdentity.get(p.email) ??
+      (p.emailKey ? primaryByKey.get(p.emailKey) : undefined)
+  )
+  const identityIds = [...new Set(resolvedIdentityIds.filter((id): id is string => !!id))]
+
+  const entitlements = identityIds.length > 0
+    ? await prisma.entitlement.findMany({
+        where: {
+          identityId: { in: identityIds },
+          productId: { in: productIds },
+          ...activeEntitlementWhere()
+        },
+        include: { bundle: true },
+        orderBy: { grantedAt: 'desc' } // Most recent first
+      })
+    : []
+
+  // Most recent entitlement per identity/product
+  const latestEntitlement = new Map<string, (typeof entitlements)[number]>()
+  for (const entitlement of entitlements) {
+    const key = `${entitlement.identityId}:${entitlement.productId}`
+    if (!latestEntitlement.has(key)) {
+      latestEntitlement.set(key, entitlement)
+    }
   }
 
-  const entitlement = identityEmail.identity.entitlements[0]
-  return checkEntitlementAccess(entitlement, productId)
+  return pairs.map((pair, index) => {
+    const identityId = resolvedIdentityIds[index]
+    const entitlement = identityId
+      ? latestEntitlement.get(`${identityId}:${pair.productId}`)
+      : undefined
+
+    if (!entitlement) {
+      return { email: pair.email, hasAccess: false, product: pair.productId }
+    }
+
+    return { email: pair.email, ...checkEntitlementAccess(entitlement, pair.productId) }
+  })
 }
 
 function checkEntitlementAccess(
   entitlement: {
     revokedAt: Date | null
     expiresAt: Date | null
+    graceEndsAt: Date | null
     grantedAt: Date
     source: string
     bundle?: { name: string } | null
@@ -101,13 +186,19 @@ function checkEntitlementAccess(
     return { hasAccess: false, product: productId }
   }
 
+  // Check if a failed-payment grace period has run out
+  if (entitlement.graceEndsAt && entitlement.graceEndsAt < new Date()) {
+    return { hasAccess: false, product: productId }
+  }
+
   return {
     hasAccess: true,
     product: productId,
     source: entitlement.source,
     bundleName: entitlement.bundle?.name,
     expires: entitlement.expiresAt?.toISOString() || null,
-    grantedAt: entitlement.grantedAt.toISOString()
+    grantedAt: entitlement.grantedAt.toISOString(),
+    ...(entitlement.graceEndsAt && { graceEndsAt: entitlement.graceEndsAt.toISOString() })
   }
 }
 
@@ -120,19 +211,21 @@ export async function getEntitlements(email: string) {
     orderBy: { displayOrder: 'asc' }
   })
 
-  const results = await Promise.all(
-    products.map(async (product) => {
-      const access = await checkAccess(email, product.id)
-      return {
-        id: product.id,
-        name: product.name,
-        hasAccess: access.hasAccess,
-        source: access.source,
-        expires: access.expires
-      }
-    })
+  const accessResults = await checkAccessBatch(
+    products.map((product) => ({ email, product: product.id }))
   )
 
+  const results = products.map((product, index) => {
+    const access = accessResults[index]
+    return {
+      id: product.id,
+      name: product.name,
+      hasAccess: access.hasAccess,
+      source: access.source,
+      expires: access.expires
+    }
+  })
+
   return {
     email,
     products: results
@@ -141,20 +234,23 @@ export async function getEntitlements(email: string) {
 
 /**
  * Grant access to products for an identity
+ * Pass expiresAt to override the bundle duration (e.g. a Stripe billing period end).
+ * Pass a transaction client to run the writes inside an existing transaction.
  */
 export async function grantAccess(params: {
   identityId: string
   productIds: string[]
   source: 'bundle' | 'direct' | 'promo' | 'manual'
-  sourceApp?: 'central' | 'rezume' | 'aicoach' | '123jobs-resume' | '123jobs-interview'
+  sourceApp?: string // 'central' or a connected app key
   bundleId?: number
   durationType?: DurationType
   durationValue?: number | null
+  expiresAt?: Date | null
   stripeSubscriptionId?: string
   stripePriceId?: string
   amountPaid?: number
   currency?: string
-}) {
+}, db: DbClient = prisma) {
   const {
     identityId,
     productIds,
@@ -169,13 +265,15 @@ export async function grantAccess(params: {
     currency
   } = params
 
-  const expiresAt = calculateExpiryDate(durationType, durationValue)
+  const expiresAt = params.expiresAt !== undefined
+    ? params.expiresAt
+    : calculateExpiryDate(durationType, durationValue)
 
   const entitlements = await Promise.all(
     productIds.map(async (productId) => {
       // Use a composite key that includes source and sourceApp
       // This allows multiple entitlements from different sources
-      const existingEntitlement = await prisma.entitlement.findFirst({
+      const existingEntitlement = await db.entitlement.findFirst({
         where: {
           identityId,
           productId,
@@ -185,7 +283,7 @@ export async function grantAccess(params: {
       })
 
       if (existingEntitlement) {
-        return prisma.entitlement.update({
+        return db.entitlement.update({
           where: { id: existingEntitlement.id },
           data: {
             bundleId,
@@ -195,12 +293,13 @@ export async function grantAccess(params: {
             amountPaid,
             currency,
             revokedAt: null,
-            revokedReason: null
+            revokedReason: null,
+            graceEndsAt: null
           }
         })
       }
 
-      return prisma.entitlement.create({
+      return db.entitlement.create({
         data: {
           identityId,
           productId,
@@ -218,7 +317,7 @@ export async function grantAccess(params: {
   )
 
   // Log the action
-  await prisma.auditLog.create({
+  await db.auditLog.create({
     data: {
       action: 'grant',
       identityId,
@@ -238,7 +337,7 @@ export async function reportExternalSubscription(params: {
   email: string
   productId: string
   action: 'grant' | 'revoke'
-  sourceApp: 'rezume' | 'aicoach' | '123jobs-resume' | '123jobs-interview'
+  sourceApp: string // Connected app key
   stripeSubscriptionId?: string
   stripePriceId?: string
   amountPaid?: number
@@ -259,12 +358,17 @@ export async function reportExternalSubscription(params: {
     reason
   } = params
 
-  const normalizedEmail = email.toLowerCase()
+  const normalizedEmail = requireEmail(email)
+
+  // Erased customers stay erased, whatever the apps still have on file
+  if (await isEmailErased(normalizedEmail)) {
+    throw new Error(ERASED_EMAIL_ERROR)
+  }
 
   // Get or create identity
   const identity = await getOrCreateIdentity(normalizedEmail)
 
-  // Link email to identity for this product
+  // Link email to identity for this product (reported by a trusted API client)
   await prisma.identityEmail.upsert({
     where: {
       email_productId: { email: normalizedEmail, productId }
@@ -272,7 +376,11 @@ export async function reportExternalSubscription(params: {
     create: {
       identityId: identity.id,
       email: normalizedEmail,
-      productId
+      emailKey: foldEmailAliases(normalizedEmail),
+      productId,
+      verified: true,
+      verifiedAt: new Date(),
+      verifiedBy: 'api'
     },
     update: {}
   })
@@ -381,50 +489,53 @@ export async function revokeEntitlementById(params: {
     throw new Error('Entitlement not found')
   }
 
-  // Revoke in database
-  await prisma.entitlement.update({
-    where: { id: entitlementId },
-    data: {
-      revokedAt: new Date(),
-      revokedReason: reason
-    }
-  })
+  const revocationReason =
+    reason || `Access revoked via Central Dashboard${adminEmail ? ` by ${adminEmail}` : ''}`
 
-  await prisma.auditLog.create({
-    data: {
-      action: 'revoke_single',
-      identityId: entitlement.identityId,
-      productIds: [entitlement.productId],
-      adminEmail,
-      details: {
-        reason,
-        source: entitlement.source,
-        sourceApp: entitlement.sourceApp,
-        entitlementId
+  // Revoke and queue the app sync in one transaction
+  const { remainingActive, outboxIds } = await prisma.$transaction(async (tx) => {
+    await tx.entitlement.update({
+      where: { id: entitlementId },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: reason
       }
-    }
-  })
+    })
 
-  // Check if there are other active entitlements for this product
-  const remainingActive = await prisma.entitlement.count({
-    where: {
-      identityId: entitlement.identityId,
-      productId: entitlement.productId,
-      revokedAt: null,
-      OR: [
-        { expiresAt: null },
-        { expiresAt: { gt: new Date() } }
-      ]
-    }
+    await tx.auditLog.create({
+      data: {
+        action: 'revoke_single',
+        identityId: entitlement.identityId,
+        productIds: [entitlement.productId],
+        adminEmail,
+        details: {
+          reason,
+          source: entitlement.source,
+          sourceApp: entitlement.sourceApp,
+          entitlementId
+        }
+      }
+    })
+
+    // Check if there are other active entitlements for this product
+    const remainingActive = await tx.entitlement.count({
+      where: {
+        identityId: entitlement.identityId,
+        productId: entitlement.productId,
+        ...activeEntitlementWhere()
+      }
+    })
+
+    // Only sync revocation to app if no other active entitlements remain
+    const outboxIds = remainingActive === 0 && entitlement.identity.primaryEmail
+      ? await enqueueRevokeSync(tx, entitlement.identity.primaryEmail, [entitlement.productId], revocationReason)
+      : []
+
+    return { remainingActive, outboxIds }
   })
 
-  // Only sync revocation to app if no other active entitlements remain
-  if (remainingActive === 0 && entitlement.identity.primaryEmail) {
-    const syncResults = await revokeAccessAndSync(
-      entitlement.identity.primaryEmail,
-      [entitlement.productId],
-      reason || `Access revoked via Central Dashboard${adminEmail ? ` by ${adminEmail}` : ''}`
-    )
+  if (outboxIds.length > 0) {
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
     console.log('[Entitlements] App sync results:', syncResults)
   }
 
@@ -448,36 +559,42 @@ export async function revokeAccess(params: {
     where: { id: identityId }
   })
 
-  // Revoke in database
-  await Promise.all(
-    productIds.map((productId) =>
-      prisma.entitlement.updateMany({
-        where: { identityId, productId },
-        data: {
-          revokedAt: new Date(),
-          revokedReason: reason
-        }
-      })
+  const revocationReason =
+    reason || `Access revoked via Central Dashboard${adminEmail ? ` by ${adminEmail}` : ''}`
+
+  // Revoke and queue the app sync in one transaction
+  const outboxIds = await prisma.$transaction(async (tx) => {
+    await Promise.all(
+      productIds.map((productId) =>
+        tx.entitlement.updateMany({
+          where: { identityId, productId },
+          data: {
+            revokedAt: new Date(),
+            revokedReason: reason
+          }
+        })
+      )
     )
-  )
 
-  await prisma.auditLog.create({
-    data: {
-      action: 'revoke',
-      identityId,
-      productIds,
-      adminEmail,
-      details: { reason }
-    }
+    await tx.auditLog.create({
+      data: {
+        action: 'revoke',
+        identityId,
+        productIds,
+        adminEmail,
+        details: { reason }
+      }
+    })
+
+    // Sync to apps - this will cancel any active Stripe subscriptions
+    return identity?.primaryEmail
+      ? enqueueRevokeSync(tx, identity.primaryEmail, productIds, revocationReason)
+      : []
   })
 
-  // Sync to apps - this will cancel any active Stripe subscriptions
-  if (identity?.primaryEmail) {
-    const syncResults = await revokeAccessAndSync(
-      identity.primaryEmail,
-      productIds,
-      reason || `Access revoked via Central Dashboard${adminEmail ? ` by ${adminEmail}` : ''}`
-    )
+  if (outboxIds.length > 0) {
+    // Deliver now; anything that fails stays in the outbox for retry
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
 
     // Log sync results
     console.log('[Entitlements] App sync results:', syncResults)
@@ -491,6 +608,7 @@ export async function revokeAccess(params: {
         adminEmail,
         details: {
           reason,
+          outboxIds,
           syncResults: syncResults.map(r => ({
             app: r.app,
             success: r.success,
@@ -503,26 +621,140 @@ export async function revokeAccess(params: {
 }
 
 /**
- * Create or get identity by email
+ * Revoke entitlements whose dunning grace period has ended and sync the change
+ * Run from the dunning cron; pass a subscription ID to limit it to one subscription.
  */
-export async function getOrCreateIdentity(email: string, stripeCustomerId?: string) {
-  const normalizedEmail = email.toLowerCase()
+export async function expireGracePeriods(options: { stripeSubscriptionId?: string } = {}) {
+  const now = new Date()
 
-  let identity = await prisma.identity.findFirst({
-    where: { primaryEmail: normalizedEmail }
+  const expired = await prisma.entitlement.findMany({
+    where: {
+      revokedAt: null,
+      graceEndsAt: { lte: now },
+      ...(options.stripeSubscriptionId && { stripeSubscriptionId: options.stripeSubscriptionId })
+    },
+    include: { identity: true }
   })
 
+  const byIdentity = new Map<string, typeof expired>()
+  for (const entitlement of expired) {
+    byIdentity.set(entitlement.identityId, [...(byIdentity.get(entitlement.identityId) || []), entitlement])
+  }
+
+  const outboxIds: number[] = []
+  let revokedCount = 0
+  let identityCount = 0
+
+  for (const [identityId, entitlements] of byIdentity) {
+    const { primaryEmail } = entitlements[0].identity
+
+    const { count, ids } = await prisma.$transaction(async (tx) => {
+      // graceEndsAt guard skips rows restored by invoice.paid since the read
+      const revoked = await tx.entitlement.updateMany({
+        where: {
+          id: { in: entitlements.map(e => e.id) },
+          revokedAt: null,
+          graceEndsAt: { lte: now }
+        },
+        data: { revokedAt: now, revokedReason: GRACE_PERIOD_ENDED_REASON }
+      })
+
+      if (revoked.count === 0) {
+        return { count: 0, ids: [] }
+      }
+
+      // Only the rows this update revoked, not ones restored since the read
+      const revokedRows = await tx.entitlement.findMany({
+        where: {
+          id: { in: entitlements.map(e => e.id) },
+          revokedAt: now,
+          revokedReason: GRACE_PERIOD_ENDED_REASON
+        },
+        select: { productId: true, stripeSubscriptionId: true }
+      })
+      const productIds = [...new Set(revokedRows.map(e => e.productId))]
+
+      // Products still covered by another purchase or grant keep their access in the apps
+      const stillActive = await tx.entitlement.findMany({
+        where: { identityId, productId: { in: productIds }, ...activeEntitlementWhere(now) },
+        select: { productId: true }
+      })
+      const lostIds = productIds.filter((id) => !stillActive.some((e) => e.productId === id))
+
+      await tx.auditLog.create({
+        data: {
+          action: 'dunning_revoke',
+          identityId,
+          productIds,
+          details: {
+            reason: GRACE_PERIOD_ENDED_REASON,
+            stripeSubscriptionIds: [...new Set(revokedRows.map(e => e.stripeSubscriptionId))]
+          }
+        }
+      })
+
+      return {
+        count: revoked.count,
+        ids: lostIds.length > 0
+          ? await enqueueRevokeSync(tx, primaryEmail, lostIds, GRACE_PERIOD_ENDED_REASON)
+          : []
+      }
+    })
+
+    if (count > 0) {
+      revokedCount += count
+      identityCount++
+    }
+
+    outboxIds.push(...ids)
+  }
+
+  if (outboxIds.length > 0) {
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
+    console.log('[Entitlements] Grace period revocation sync results:', syncResults)
+  }
+
+  return { revoked: revokedCount, identities: identityCount }
+}
+
+/**
+ * Find an identity, following a merge to the surviving identity
+ */
+export async function findIdentity(where: Prisma.IdentityWhereInput, db: DbClient = prisma) {
+  const identity = await db.identity.findFirst({ where })
+
+  if (identity?.mergedIntoId) {
+    return db.identity.findUnique({ where: { id: identity.mergedIntoId } })
+  }
+
+  return identity
+}
+
+/**
+ * Create or get identity by email
+ * Throws INVALID_EMAIL_ERROR for addresses that fail validation.
+ */
+export async function getOrCreateIdentity(email: string, stripeCustomerId?: string, name?: string) {
+  const normalizedEmail = requireEmail(email)
+
+  let identity = await findIdentity({ primaryEmail: normalizedEmail })
+
   if (!identity) {
     identity = await prisma.identity.create({
       data: {
         primaryEmail: normalizedEmail,
+        primaryEmailKey: foldEmailAliases(normalizedEmail),
+        name,
         stripeCustomerId
       }
     })
-  } else if (stripeCustomerId && !identity.stripeCustomerId) {
+  } else if ((stripeCustomerId && !identity.stripeCustomerId) || (name && !identity.name)) {
     identity = await prisma.identity.update({
       where: { id: identity.id },
-      data: { stripeCustomerId }
+      data: {
+        ...(stripeCustomerId && !identity.stripeCustomerId && { stripeCustomerId }),
+        ...(name && !identity.name && { name })
+      }
     })
   }
 
@@ -531,27 +763,52 @@ export async function getOrCreateIdentity(email: string, stripeCustomerId?: stri
 
 /**
  * Link an email to an identity for a specific product
+ *
+ * Pass verifiedBy for addresses we already trust (e.g. the purchase email).
+ * Other addresses are linked unverified and never take over a verified link
+ * held by another identity; the owner has to confirm them first.
+ * Returns whether the identity can use the email for the product right away.
  */
 export async function linkEmailToIdentity(
   identityId: string,
   email: string,
-  productId: string
-) {
-  const normalizedEmail = email.toLowerCase()
+  productId: string,
+  db: DbClient = prisma,
+  options: { verifiedBy?: string } = {}
+): Promise<{ verified: boolean }> {
+  const normalizedEmail = requireEmail(email)
+  const emailKey = foldEmailAliases(normalizedEmail)
+  const where = { email_productId: { email: normalizedEmail, productId } }
+
+  if (options.verifiedBy) {
+    const verification = { verified: true, verifiedAt: new Date(), verifiedBy: options.verifiedBy }
+    await db.identityEmail.upsert({
+      where,
+      create: { identityId, email: normalizedEmail, emailKey, productId, ...verification },
+      update: { identityId, ...verification }
+    })
+    return { verified: true }
+  }
 
-  return prisma.identityEmail.upsert({
-    where: {
-      email_productId: { email: normalizedEmail, productId }
-    },
-    create: {
-      identityId,
-      email: normalizedEmail,
-      productId
-    },
-    update: {
-      identityId
-    }
-  })
+  const existing = await db.identityEmail.findUnique({ where })
+
+  if (!existing) {
+    await db.identityEmail.create({
+      data: { identityId, email: normalizedEmail, emailKey, productId }
+    })
+    return { verified: false }
+  }
+
+  if (existing.identityId === identityId) {
+    return { verified: existing.verified }
+  }
+
+  // Someone else's unconfirmed link can move; a verified one stays put
+  if (!existing.verified) {
+    await db.identityEmail.update({ where, data: { identityId } })
+  }
+
+  return { verified: false }
 }
 
 /**
@@ -562,18 +819,20 @@ export async function createClaimToken(params: {
   bundleId: number
   purchaseEmail: string
   stripeSessionId?: string
-}) {
+  claimedProductIds?: string[] // Carried over when a partly claimed token is reissued
+}, db: DbClient = prisma) {
   const token = nanoid(32)
   const expiresAt = new Date()
   expiresAt.setDate(expiresAt.getDate() + 30) // 30 days to claim
 
-  return prisma.claimToken.create({
+  return db.claimToken.create({
     data: {
       token,
       identityId: params.identityId,
       bundleId: params.bundleId,
       purchaseEmail: params.purchaseEmail,
       stripeSessionId: params.stripeSessionId,
+      claimedProductIds: params.claimedProductIds,
       expiresAt
     }
   })
@@ -597,7 +856,42 @@ export async function getClaimToken(token: string) {
 }
 
 /**
- * Process a bundle claim
+ * Products a bundle claim must activate before the token counts as fully claimed
+ * (inactive products are hidden from the claim portal, so they can't be required)
+ */
+export async function getClaimableProductIds(bundleProductIds: string[]): Promise<string[]> {
+  const products = await prisma.product.findMany({
+    where: { id: { in: bundleProductIds }, isActive: true },
+    select: { id: true }
+  })
+  const activeIds = new Set(products.map((p) => p.id))
+
+  return bundleProductIds.filter((id) => activeIds.has(id))
+}
+
+// Opening words of every message processClaim throws for a claim that can't go ahead
+export const CLAIM_ERROR_PREFIXES = [
+  'Token already claimed',
+  'Token is no longer valid',
+  'Token expired',
+  'Not in this bundle',
+  'No products selected',
+  'Already activated',
+  INVALID_EMAIL_ERROR,
+  ERASED_EMAIL_ERROR
+]
+
+/**
+ * Process a bundle claim for some or all of the bundle's products
+ *
+ * Products can be activated in stages; the token is fully claimed once every
+ * claimable product is activated. Runs in one transaction that starts with a
+ * conditional update on the token, so concurrent submits can't activate the
+ * same product twice and a failure leaves the products unclaimed. Zapier and
+ * app sync run from their queues after commit.
+ *
+ * Product emails other than the purchase email are linked unverified and
+ * returned in unverifiedEmails so the caller can send verification requests.
  */
 export async function processClaim(
   token: string,
@@ -619,59 +913,173 @@ export async function processClaim(
     throw new Error('Token already claimed')
   }
 
+  if (claimToken.voidedAt) {
+    throw new Error('Token is no longer valid')
+  }
+
   if (claimToken.expiresAt < new Date()) {
     throw new Error('Token expired')
   }
 
   const { bundle, identity } = claimToken
 
-  // Link emails for each product
-  for (const productId of bundle.productIds) {
-    const productData = productEmails[productId]
-    if (productData?.email) {
-      await linkEmailToIdentity(identity.id, productData.email, productId)
+  const unknownIds = Object.keys(productEmails).filter((id) => !bundle.productIds.includes(id))
+  if (unknownIds.length > 0) {
+    throw new Error(`Not in this bundle: ${unknownIds.join(', ')}`)
+  }
+
+  const productIds = bundle.productIds.filter((id) => productEmails[id])
+  if (productIds.length === 0) {
+    throw new Error('No products selected')
+  }
+
+  const alreadyClaimed = productIds.filter((id) => claimToken.claimedProductIds.includes(id))
+  if (alreadyClaimed.length > 0) {
+    throw new Error(`Already activated: ${alreadyClaimed.join(', ')}`)
+  }
+
+  const invalidIds = productIds.filter((id) => productEmails[id].email && !isValidEmail(productEmails[id].email))
+  if (invalidIds.length > 0) {
+    throw new Error(`${INVALID_EMAIL_ERROR} for: ${invalidIds.join(', ')}`)
+  }
+
+  const claimableIds = await getClaimableProductIds(bundle.productIds)
+
+  // Emails the buyer already proved they own
+  const trustedEmails = [normalizeEmail(claimToken.purchaseEmail), normalizeEmail(identity.primaryEmail)]
+
+  const { outboxIds, remainingProductIds, unverifiedEmails } = await prisma.$transaction(async (tx) => {
+    const now = new Date()
+
+    // The lock: only one request can mark these products claimed
+    const locked = await tx.claimToken.updateMany({
+      where: {
+        token,
+        claimed: false,
+        voidedAt: null,
+        expiresAt: { gt: now },
+        NOT: { claimedProductIds: { hasSome: productIds } }
+      },
+      data: { claimedProductIds: { push: productIds } }
+    })
+
+    if (locked.count === 0) {
+      // Lost the race: re-read to report why
+      const current = await tx.claimToken.findUnique({ where: { token } })
+      if (current?.claimed) {
+        throw new Error('Token already claimed')
+      }
+      const overlap = productIds.filter((id) => current?.claimedProductIds.includes(id))
+      throw new Error(overlap.length > 0 ? `Already activated: ${overlap.join(', ')}` : 'Token is no longer valid')
     }
 
-    // Store form data if provided (for products like Career Pathways)
-    if (productData?.formData) {
-      await prisma.productSubmission.create({
-        data: {
-          identityId: identity.id,
-          productId,
-          formData: productData.formData as Prisma.InputJsonValue
-        }
+    // Our update holds the row lock, so this sees every product claimed so far
+    const updated = await tx.claimToken.findUniqueOrThrow({ where: { token } })
+    const remaining = claimableIds.filter((id) => !updated.claimedProductIds.includes(id))
+
+    if (remaining.length === 0) {
+      await tx.claimToken.update({
+        where: { token },
+        data: { claimed: true, claimedAt: now }
       })
     }
-  }
 
-  // Grant access to all products in the bundle
-  await grantAccess({
-    identityId: identity.id,
-    productIds: bundle.productIds,
-    source: 'bundle',
-    bundleId: bundle.id,
-    durationType: bundle.durationType as DurationType,
-    durationValue: bundle.durationValue
-  })
+    const ids: number[] = []
+    const unverified: Record<string, string[]> = {}
 
-  // Mark token as claimed
-  await prisma.claimToken.update({
-    where: { token },
-    data: {
-      claimed: true,
-      claimedAt: new Date()
+    // Link emails for each product
+    for (const productId of productIds) {
+      const productData = productEmails[productId]
+      let productEmail = identity.primaryEmail
+      let syncEmail: string | null = identity.primaryEmail
+
+      if (productData.email) {
+        const email = normalizeEmail(productData.email)
+        productEmail = email
+        const link = await linkEmailToIdentity(identity.id, email, productId, tx, {
+          verifiedBy: trustedEmails.includes(email) ? 'purchase' : undefined
+        })
+
+        if (link.verified) {
+          syncEmail = email
+        } else {
+          // Apps hear about this email once its owner verifies it
+          unverified[email] = [...(unverified[email] || []), productId]
+          syncEmail = null
+        }
+      }
+
+      // Store form data if provided (for products like Career Pathways)
+      // Untriggered submissions are the Zapier queue; ones for an unverified
+      // email are held until its owner verifies it
+      if (productData.formData) {
+        await tx.productSubmission.create({
+          data: {
+            identityId: identity.id,
+            productId,
+            formData: productData.formData as Prisma.InputJsonValue,
+            email: productEmail,
+            awaitingVerification: !syncEmail
+          }
+        })
+      }
+
+      if (syncEmail) {
+        ids.push(...await enqueueGrantSync(tx, syncEmail, [productId], `Bundle claimed: ${bundle.name}`))
+      }
     }
-  })
 
-  // Log the claim
-  await prisma.auditLog.create({
-    data: {
-      action: 'claim',
+    // Grant access to the products activated now
+    await grantAccess({
       identityId: identity.id,
-      productIds: bundle.productIds,
-      details: { bundleId: bundle.id, bundleName: bundle.name }
+      productIds,
+      source: 'bundle',
+      bundleId: bundle.id,
+      durationType: bundle.durationType as DurationType,
+      durationValue: bundle.durationValue,
+      stripePriceId: bundle.stripePriceId || undefined
+    }, tx)
+
+    // Log the claim
+    await tx.auditLog.create({
+      data: {
+        action: 'claim',
+        identityId: identity.id,
+        productIds,
+        details: {
+          bundleId: bundle.id,
+          bundleName: bundle.name,
+          complete: remaining.length === 0,
+          remainingProductIds: remaining
+        }
+      }
+    })
+
+    return {
+      outboxIds: ids,
+      remainingProductIds: remaining,
+      unverifiedEmails: Object.entries(unverified).map(([email, emailProductIds]) => ({ email, productIds: emailProductIds }))
     }
   })
 
-  return { success: true, bundle, identity }
+  // Side effects only after the claim is committed
+  const unverifiedIds = unverifiedEmails.flatMap((v) => v.productIds)
+  const webhookProductIds = await triggerClaimWebhooks(
+    productIds.filter((id) => !unverifiedIds.includes(id)),
+    productEmails,
+    identity.id
+  )
+  const syncResults = await processSyncOutbox({ ids: outboxIds })
+  console.log('[Claim] App sync results:', syncResults)
+
+  return {
+    success: true,
+    bundle,
+    identity,
+    activatedProductIds: productIds,
+    remainingProductIds,
+    complete: remainingProductIds.length === 0,
+    webhookProductIds,
+    unverifiedEmails
+  }
 }
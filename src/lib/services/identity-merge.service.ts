@@ -0,0 +1,454 @@
+import { Entitlement, Prisma } from '@prisma/client'
+import prisma, { DbClient } from '@/lib/db'
+import { activeEntitlementWhere } from './entitlements.service'
+import { enqueueGrantSync, enqueueRevokeSync, processSyncOutbox } from './app-sync.service'
+import { ERASED_EMAIL_ERROR } from './privacy.service'
+
+/**
+ * What a merge changed, stored on the IdentityMerge record so it can be split
+ */
+interface MergeSnapshot {
+  identityEmailIds: number[]
+  entitlementIds: number[] // Moved from the merged identity to the survivor
+  removedEntitlements: Record<string, unknown>[] // Lost a unique_entitlement_per_source clash
+  claimTokens: string[]
+  productSubmissionIds: number[]
+  emailVerificationIds: number[]
+  remergedIdentityIds: string[] // Previously merged into the merged identity
+  stripeCustomerIdMoved: string | null
+  nameCopied: string | null
+}
+
+export type DuplicateReason = 'stripe' | 'email' | 'name'
+
+// Groups larger than this share something too common to be a useful signal
+const MAX_DUPLICATE_GROUP_SIZE = 20
+
+/**
+ * Whether an entitlement should win a clash with another for the same product and source
+ * Active beats inactive, then the later expiry wins (no expiry is latest).
+ */
+function outranks(a: Entitlement, b: Entitlement, now: Date): boolean {
+  const isActive = (e: Entitlement) =>
+    !e.revokedAt && (!e.expiresAt || e.expiresAt > now) && (!e.graceEndsAt || e.graceEndsAt > now)
+
+  if (isActive(a) !== isActive(b)) {
+    return isActive(a)
+  }
+
+  return (a.expiresAt?.getTime() ?? Infinity) > (b.expiresAt?.getTime() ?? Infinity)
+}
+
+function toStoredEntitlement(entitlement: Entitlement): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(entitlement))
+}
+
+function fromStoredEntitlement(stored: Record<string, unknown>): Prisma.EntitlementCreateManyInput {
+  const toDate = (value: unknown) => (value ? new Date(value as string) : null)
+
+  return {
+    ...(stored as unknown as Prisma.EntitlementCreateManyInput),
+    grantedAt: new Date(stored.grantedAt as string),
+    expiresAt: toDate(stored.expiresAt),
+    revokedAt: toDate(stored.revokedAt),
+    graceEndsAt: toDate(stored.graceEndsAt)
+  }
+}
+
+async function activeProductIds(db: DbClient, identityId: string): Promise<string[]> {
+  const entitlements = await db.entitlement.findMany({
+    where: { identityId, ...activeEntitlementWhere() },
+    select: { productId: true }
+  })
+  return [...new Set(entitlements.map((e) => e.productId))]
+}
+
+/**
+ * Merge a duplicate identity into a survivor
+ *
+ * Moves emails, entitlements, claim tokens, submissions and pending email
+ * verifications onto the survivor. Entitlement clashes keep the better row
+ * and delete the other. The merged identity stays as an alias (mergedIntoId)
+ * so lookups by its email or Stripe customer reach the survivor, and the
+ * returned merge record holds what's needed to split them again.
+ */
+export async function mergeIdentities(survivorId: string, mergedId: string, adminEmail: string) {
+  if (survivorId === mergedId) {
+    throw new Error('Cannot merge an identity into itself')
+  }
+
+  const [survivor, merged] = await Promise.all([
+    prisma.identity.findUnique({ where: { id: survivorId } }),
+    prisma.identity.findUnique({ where: { id: mergedId } })
+  ])
+
+  if (!survivor || !merged) {
+    throw new Error('Identity not found')
+  }
+
+  if (survivor.mergedIntoId || merged.mergedIntoId) {
+    throw new Error('Identity has already been merged')
+  }
+
+  if (survivor.erasedAt || merged.erasedAt) {
+    throw new Error('Cannot merge an erased identity')
+  }
+
+  const { merge, outboxIds } = await prisma.$transaction(async (tx) => {
+    const now = new Date()
+
+    // The lock: only one request can merge this identity
+    const locked = await tx.identity.updateMany({
+      where: { id: mergedId, mergedIntoId: null },
+      data: { mergedIntoId: survivorId, mergedAt: now }
+    })
+
+    // ...and the survivor can't be merged away at the same time
+    const survivorLocked = await tx.identity.updateMany({
+      where: { id: survivorId, mergedIntoId: null },
+      data: { updatedAt: now }
+    })
+
+    if (locked.count === 0 || survivorLocked.count === 0) {
+      throw new Error('Identity has already been merged')
+    }
+
+    // Entitlements, resolving unique_entitlement_per_source clashes
+    const [survivorEntitlements, mergedEntitlements] = await Promise.all([
+      tx.entitlement.findMany({ where: { identityId: survivorId } }),
+      tx.entitlement.findMany({ where: { identityId: mergedId } })
+    ])
+
+    const removed: Entitlement[] = []
+    const movedIds: number[] = []
+
+    for (const entitlement of mergedEntitlements) {
+      const clash = survivorEntitlements.find((e) =>
+        e.productId === entitlement.productId &&
+        e.source === entitlement.source &&
+        e.sourceApp === entitlement.sourceApp
+      )
+
+      if (!clash) {
+        movedIds.push(entitlement.id)
+      } else if (outranks(entitlement, clash, now)) {
+        removed.push(clash)
+        movedIds.push(entitlement.id)
+      } else {
+        removed.push(entitlement)
+      }
+    }
+
+    await tx.entitlement.deleteMany({ where: { id: { in: removed.map((e) => e.id) } } })
+    await tx.entitlement.updateMany({
+      where: { id: { in: movedIds } },
+      data: { identityId: survivorId }
+    })
+
+    // Everything else moves as-is
+    const [identityEmails, claimTokens, productSubmissions, emailVerifications, remerged] = await Promise.all([
+      tx.identityEmail.findMany({ where: { identityId: mergedId }, select: { id: true } }),
+      tx.claimToken.findMany({ where: { identityId: mergedId }, select: { token: true } }),
+      tx.productSubmission.findMany({ where: { identityId: mergedId }, select: { id: true } }),
+      tx.emailVerification.findMany({ where: { identityId: mergedId }, select: { id: true } }),
+      tx.identity.findMany({ where: { mergedIntoId: mergedId }, select: { id: true } })
+    ])
+
+    await tx.identityEmail.updateMany({ where: { identityId: mergedId }, data: { identityId: survivorId } })
+    await tx.claimToken.updateMany({ where: { identityId: mergedId }, data: { identityId: survivorId } })
+    await tx.productSubmission.updateMany({ where: { identityId: mergedId }, data: { identityId: survivorId } })
+    await tx.emailVerification.updateMany({ where: { identityId: mergedId }, data: { identityId: survivorId } })
+    await tx.identity.updateMany({ where: { mergedIntoId: mergedId }, data: { mergedIntoId: survivorId } })
+
+    // Keep the Stripe customer and name on the survivor
+    const stripeCustomerIdMoved = !survivor.stripeCustomerId ? merged.stripeCustomerId : null
+    const nameCopied = !survivor.name ? merged.name : null
+
+    if (stripeCustomerIdMoved) {
+      await tx.identity.update({ where: { id: mergedId }, data: { stripeCustomerId: null } })
+    }
+
+    if (stripeCustomerIdMoved || nameCopied) {
+      await tx.identity.update({
+        where: { id: survivorId },
+        data: {
+          ...(stripeCustomerIdMoved && { stripeCustomerId: stripeCustomerIdMoved }),
+          ...(nameCopied && { name: nameCopied })
+        }
+      })
+    }
+
+    const snapshot: MergeSnapshot = {
+      identityEmailIds: identityEmails.map((e) => e.id),
+      entitlementIds: movedIds,
+      removedEntitlements: removed.map(toStoredEntitlement),
+      claimTokens: claimTokens.map((t) => t.token),
+      productSubmissionIds: productSubmissions.map((s) => s.id),
+      emailVerificationIds: emailVerifications.map((v) => v.id),
+      remergedIdentityIds: remerged.map((i) => i.id),
+      stripeCustomerIdMoved,
+      nameCopied
+    }
+
+    const merge = await tx.identityMerge.create({
+      data: {
+        survivorId,
+        mergedId,
+        adminEmail,
+        snapshot: snapshot as unknown as Prisma.InputJsonValue
+      }
+    })
+
+    // Both emails now answer for the survivor's access
+    const productIds = await activeProductIds(tx, survivorId)
+    const ids: number[] = []
+    if (productIds.length > 0) {
+      for (const email of new Set([survivor.primaryEmail, merged.primaryEmail])) {
+        ids.push(...await enqueueGrantSync(tx, email, productIds, 'Identities merged'))
+      }
+    }
+
+    return { merge, outboxIds: ids }
+  })
+
+  if (outboxIds.length > 0) {
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
+    console.log('[Merge] App sync results:', syncResults)
+  }
+
+  return merge
+}
+
+/**
+ * Undo a merge, moving the merged identity's rows back off the survivor
+ * Rows the survivor gained after the merge stay with the survivor.
+ */
+export async function splitIdentityMerge(mergeId: number, adminEmail: string) {
+  const merge = await prisma.identityMerge.findUnique({ where: { id: mergeId } })
+
+  if (!merge) {
+    throw new Error('Merge not found')
+  }
+
+  if (merge.splitAt) {
+    throw new Error('Merge has already been split')
+  }
+
+  const [survivor, merged] = await Promise.all([
+    prisma.identity.findUnique({ where: { id: merge.survivorId } }),
+    prisma.identity.findUnique({ where: { id: merge.mergedId } })
+  ])
+
+  if (!survivor || !merged) {
+    throw new Error('Identity not found')
+  }
+
+  if (survivor.mergedIntoId) {
+    throw new Error('The survivor has since been merged - split that merge first')
+  }
+
+  // Erased identities have nothing left to split, and their syncs would go to erased addresses
+  if (survivor.erasedAt || merged.erasedAt) {
+    throw new Error(ERASED_EMAIL_ERROR)
+  }
+
+  const snapshot = merge.snapshot as unknown as MergeSnapshot
+  const { survivorId, mergedId } = merge
+  const onSurvivor = { identityId: survivorId }
+
+  const { split, outboxIds } = await prisma.$transaction(async (tx) => {
+    const locked = await tx.identityMerge.updateMany({
+      where: { id: mergeId, splitAt: null },
+      data: { splitAt: new Date(), splitBy: adminEmail }
+    })
+
+    if (locked.count === 0) {
+      throw new Error('Merge has already been split')
+    }
+
+    await tx.identity.update({
+      where: { id: mergedId },
+      data: { mergedIntoId: null, mergedAt: null }
+    })
+    await tx.identity.updateMany({
+      where: { id: { in: snapshot.remergedIdentityIds }, mergedIntoId: survivorId },
+      data: { mergedIntoId: mergedId }
+    })
+
+    await tx.identityEmail.updateMany({
+      where: { id: { in: snapshot.identityEmailIds }, ...onSurvivor },
+      data: { identityId: mergedId }
+    })
+    await tx.entitlement.updateMany({
+      where: { id: { in: snapshot.entitlementIds }, ...onSurvivor },
+      data: { identityId: mergedId }
+    })
+    await tx.claimToken.updateMany({
+      where: { token: { in: snapshot.claimTokens }, ...onSurvivor },
+      data: { identityId: mergedId }
+    })
+    await tx.productSubmission.updateMany({
+      where: { id: { in: snapshot.productSubmissionIds }, ...onSurvivor },
+      data: { identityId: mergedId }
+    })
+    await tx.emailVerification.updateMany({
+      where: { id: { in: snapshot.emailVerificationIds }, ...onSurvivor },
+      data: { identityId: mergedId }
+    })
+
+    // Restore the entitlements that lost a clash to their original owners
+    if (snapshot.removedEntitlements.length > 0) {
+      await tx.entitlement.createMany({
+        data: snapshot.removedEntitlements.map(fromStoredEntitlement),
+        skipDuplicates: true
+      })
+    }
+
+    if (snapshot.stripeCustomerIdMoved) {
+      await tx.identity.updateMany({
+        where: { id: survivorId, stripeCustomerId: snapshot.stripeCustomerIdMoved },
+        data: { stripeCustomerId: null }
+      })
+      await tx.identity.update({
+        where: { id: mergedId },
+        data: { stripeCustomerId: snapshot.stripeCustomerIdMoved }
+      })
+    }
+
+    if (snapshot.nameCopied) {
+      await tx.identity.updateMany({
+        where: { id: survivorId, name: snapshot.nameCopied },
+        data: { name: null }
+      })
+    }
+
+    // Each email loses the access it only had through the other identity
+    const [survivorProducts, mergedProducts] = await Promise.all([
+      activeProductIds(tx, survivorId),
+      activeProductIds(tx, mergedId)
+    ])
+    const ids: number[] = []
+    const survivorOnly = survivorProducts.filter((id) => !mergedProducts.includes(id))
+    const mergedOnly = mergedProducts.filter((id) => !survivorProducts.includes(id))
+
+    if (survivor.primaryEmail !== merged.primaryEmail) {
+      if (survivorOnly.length > 0) {
+        ids.push(...await enqueueRevokeSync(tx, merged.primaryEmail, survivorOnly, 'Identities split'))
+      }
+      if (mergedOnly.length > 0) {
+        ids.push(...await enqueueRevokeSync(tx, survivor.primaryEmail, mergedOnly, 'Identities split'))
+      }
+    }
+
+    const split = await tx.identityMerge.findUniqueOrThrow({ where: { id: mergeId } })
+
+    return { split, outboxIds: ids }
+  })
+
+  if (outboxIds.length > 0) {
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
+    console.log('[Merge] App sync results:', syncResults)
+  }
+
+  return split
+}
+
+/**
+ * Find pairs of identities that are probably the same customer
+ *
+ * Signals: a shared Stripe subscription, an email on one that matches (or
+ * nearly matches) an email on the other, and the same customer name. Pairs
+ * that were merged and split again are left out.
+ */
+export async function findDuplicateIdentities(options: { limit?: number } = {}) {
+  const { limit = 50 } = options
+
+  // Identities sharing each signal, grouped in the database so only the
+  // groups come back. Emails match on the folded key where one was stored;
+  // names ignore accents, punctuation and word order, and single-word names
+  // are too common to match on.
+  const groups = await prisma.$queryRaw<{ reason: DuplicateReason; ids: string[] }[]>`
+    WITH active AS (
+      SELECT id, primary_email, primary_email_key, name FROM identities WHERE merged_into_id IS NULL
+    ),
+    signals AS (
+      SELECT 'stripe' AS reason, e.stripe_subscription_id AS key, e.identity_id
+      FROM entitlements e JOIN active a ON a.id = e.identity_id
+      WHERE e.stripe_subscription_id IS NOT NULL
+      UNION
+      SELECT 'email', COALESCE(primary_email_key, primary_email), id FROM active
+      UNION
+      SELECT 'email', COALESCE(ie.email_key, ie.email), ie.identity_id
+      FROM identity_emails ie JOIN active a ON a.id = ie.identity_id
+      UNION
+      SELECT 'name', array_to_string(words, ' '), id
+      FROM (
+        SELECT id, ARRAY(
+          SELECT word
+          FROM regexp_split_to_table(
+            regexp_replace(lower(normalize(name, NFKD)), '[^a-z[:space:]]', '', 'g'),
+            '[[:space:]]+'
+          ) AS word
+          WHERE word <> ''
+          ORDER BY word COLLATE "C"
+        ) AS words
+        FROM active
+        WHERE name IS NOT NULL
+      ) named
+      WHERE cardinality(words) >= 2
+    )
+    SELECT reason, array_agg(identity_id) AS ids
+    FROM signals
+    GROUP BY reason, key
+    HAVING COUNT(*) BETWEEN 2 AND ${MAX_DUPLICATE_GROUP_SIZE}`
+
+  // Pair key (sorted ids) -> reasons
+  const pairs = new Map<string, Set<DuplicateReason>>()
+  for (const { reason, ids } of groups) {
+    const sorted = [...ids].sort()
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const pairKey = `${sorted[i]}:${sorted[j]}`
+        pairs.set(pairKey, (pairs.get(pairKey) ?? new Set()).add(reason))
+      }
+    }
+  }
+
+  // Pairs an admin already split were judged not to be duplicates
+  const splitMerges = await prisma.identityMerge.findMany({
+    where: { splitAt: { not: null } },
+    select: { survivorId: true, mergedId: true }
+  })
+  for (const { survivorId, mergedId } of splitMerges) {
+    pairs.delete([survivorId, mergedId].sort().join(':'))
+  }
+
+  const ranked = [...pairs.entries()]
+    .sort((a, b) => b[1].size - a[1].size)
+    .slice(0, limit)
+
+  const candidateIds = [...new Set(ranked.flatMap(([pairKey]) => pairKey.split(':')))]
+  const details = await prisma.identity.findMany({
+    where: { id: { in: candidateIds } },
+    select: {
+      id: true,
+      primaryEmail: true,
+      name: true,
+      stripeCustomerId: true,
+      createdAt: true,
+      _count: { select: { entitlements: { where: { revokedAt: null } } } }
+    }
+  })
+  const byId = new Map(details.map((d) => [d.id, d]))
+
+  return ranked.flatMap(([pairKey, reasons]) => {
+    const [a, b] = pairKey.split(':').map((id) => byId.get(id))
+    if (!a || !b) return []
+
+    return [{
+      // Older identity first: it's the usual survivor
+      identities: a.createdAt <= b.createdAt ? [a, b] : [b, a],
+      reasons: [...reasons]
+    }]
+  })
+}
@@ -0,0 +1,142 @@
+import prisma from '@/lib/db'
+import { foldEmailAliases, requireEmail } from '@/lib/email'
+import { activeEntitlementWhere } from './entitlements.service'
+import { enqueueGrantSync, enqueueRenameSync, processSyncOutbox } from './app-sync.service'
+import { updateStripeCustomerEmail } from './stripe.service'
+
+/**
+ * Change an identity's primary email
+ *
+ * With repointProductEmails, the per-product IdentityEmail links for the old
+ * address move to the new one; otherwise the old address keeps access to
+ * those products. Connected apps get a rename sync so they can move the
+ * user's tier, and the Stripe customer email is updated after commit.
+ */
+export async function changePrimaryEmail(params: {
+  identityId: string
+  email: string
+  repointProductEmails: boolean
+  adminEmail: string
+}) {
+  const newEmail = requireEmail(params.email)
+
+  const identity = await prisma.identity.findUnique({ where: { id: params.identityId } })
+
+  if (!identity) {
+    throw new Error('User not found')
+  }
+
+  if (identity.mergedIntoId) {
+    throw new Error('User has been merged into another user')
+  }
+
+  if (identity.erasedAt) {
+    throw new Error('User data has been erased')
+  }
+
+  const oldEmail = identity.primaryEmail
+
+  if (oldEmail === newEmail) {
+    throw new Error('New email is the same as the current email')
+  }
+
+  const owner = await prisma.identity.findFirst({
+    where: { primaryEmail: newEmail, mergedIntoId: null, id: { not: identity.id } }
+  })
+
+  if (owner) {
+    throw new Error(`${newEmail} is already the primary email of another user; merge them instead`)
+  }
+
+  const { repointedProductIds, outboxIds } = await prisma.$transaction(async (tx) => {
+    const locked = await tx.identity.updateMany({
+      where: { id: identity.id, primaryEmail: oldEmail },
+      data: { primaryEmail: newEmail, primaryEmailKey: foldEmailAliases(newEmail) }
+    })
+
+    if (locked.count === 0) {
+      throw new Error('Email was changed concurrently, please retry')
+    }
+
+    const repointedProductIds: string[] = []
+    const oldLinks = await tx.identityEmail.findMany({
+      where: { identityId: identity.id, email: oldEmail }
+    })
+    const otherLinks = await tx.identityEmail.findMany({
+      where: { identityId: identity.id, email: { not: oldEmail } },
+      select: { productId: true }
+    })
+
+    if (params.repointProductEmails) {
+      const existing = await tx.identityEmail.findMany({
+        where: { email: newEmail, productId: { in: oldLinks.map((l) => l.productId) } }
+      })
+
+      for (const link of oldLinks) {
+        const clash = existing.find((e) => e.productId === link.productId)
+
+        if (clash && clash.identityId !== identity.id) {
+          throw new Error(`${newEmail} is already linked to another user for product ${link.productId}`)
+        }
+
+        const verification = { verified: true, verifiedAt: new Date(), verifiedBy: params.adminEmail }
+
+        if (clash) {
+          await tx.identityEmail.update({ where: { id: clash.id }, data: verification })
+          await tx.identityEmail.delete({ where: { id: link.id } })
+        } else {
+          await tx.identityEmail.update({
+            where: { id: link.id },
+            data: { email: newEmail, emailKey: foldEmailAliases(newEmail), ...verification }
+          })
+        }
+
+        repointedProductIds.push(link.productId)
+      }
+    }
+
+    const entitlements = await tx.entitlement.findMany({
+      where: { identityId: identity.id, ...activeEntitlementWhere() },
+      select: { productId: true }
+    })
+    const activeIds = [...new Set(entitlements.map((e) => e.productId))]
+
+    // Verified links left on the old address still grant it access, so re-grant after the rename moves the tier
+    const retainedIds = params.repointProductEmails
+      ? []
+      : oldLinks.filter((l) => l.verified && activeIds.includes(l.productId)).map((l) => l.productId)
+
+    // Products served under a different per-product email keep it, so only the rest move
+    const renamedIds = activeIds.filter((productId) =>
+      oldLinks.some((l) => l.productId === productId) || !otherLinks.some((l) => l.productId === productId)
+    )
+
+    const reason = `Primary email changed by ${params.adminEmail}`
+    const outboxIds = renamedIds.length > 0
+      ? await enqueueRenameSync(tx, oldEmail, newEmail, renamedIds, reason)
+      : []
+
+    if (retainedIds.length > 0) {
+      outboxIds.push(...(await enqueueGrantSync(tx, oldEmail, retainedIds, reason)))
+    }
+
+    return { repointedProductIds, outboxIds }
+  })
+
+  if (outboxIds.length > 0) {
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
+    console.log('[Identity] App sync results:', syncResults)
+  }
+
+  let stripeUpdated = false
+  if (identity.stripeCustomerId) {
+    try {
+      await updateStripeCustomerEmail(identity.stripeCustomerId, newEmail)
+      stripeUpdated = true
+    } catch (error) {
+      console.error('[Identity] Failed to update Stripe customer email:', error)
+    }
+  }
+
+  return { oldEmail, newEmail, repointedProductIds, stripeUpdated }
+}
@@ -0,0 +1,176 @@
+import prisma from '@/lib/db'
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+// Failures are counted over windows of this length
+const FAILURE_WINDOW_MS = 15 * MINUTE_MS
+
+// Failures in one window that lock an account, or an IP. IPs get more room
+// since an office or VPN can put several admins behind one address.
+const MAX_ACCOUNT_FAILURES = 5
+const MAX_IP_FAILURES = 20
+
+// The first lockout lasts this long and each one after it twice as long, up to the cap
+const FIRST_LOCKOUT_MS = 15 * MINUTE_MS
+const MAX_LOCKOUT_MS = DAY_MS
+
+// Past lockouts stop counting towards the next one after this long without a failure
+const LOCKOUT_MEMORY_MS = 7 * DAY_MS
+
+/**
+ * What is being attempted: a password login, initial setup, or a 2FA code
+ */
+export type ThrottleScope = 'login' | 'setup' | 'two_factor'
+
+/**
+ * Who is attempting it; the account is an email or admin ID, whichever the attempt names
+ */
+export interface ThrottleSubject {
+  ipAddress: string | null
+  account?: string
+}
+
+export interface Lockout {
+  lockedUntil: Date
+  retryAfterSeconds: number
+}
+
+export interface NewLockout extends Lockout {
+  target: 'account' | 'ip'
+  lockouts: number
+}
+
+function throttleKeys(scope: ThrottleScope, subject: ThrottleSubject) {
+  const keys: { key: string; target: NewLockout['target']; maxFailures: number }[] = []
+
+  if (subject.account) {
+    keys.push({ key: `${scope}:account:${subject.account}`, target: 'account', maxFailures: MAX_ACCOUNT_FAILURES })
+  }
+
+  if (subject.ipAddress) {
+    keys.push({ key: `${scope}:ip:${subject.ipAddress}`, target: 'ip', maxFailures: MAX_IP_FAILURES })
+  }
+
+  return keys
+}
+
+function toLockout(lockedUntil: Date, now: Date): Lockout {
+  return { lockedUntil, retryAfterSeconds: Math.ceil((lockedUntil.getTime() - now.getTime()) / 1000) }
+}
+
+/**
+ * The lockout blocking an attempt, or null if neither the account nor the IP is locked
+ */
+async function getLockout(scope: ThrottleScope, subject: ThrottleSubject): Promise<Lockout | null> {
+  const now = new Date()
+
+  const locked = await prisma.loginThrottle.findFirst({
+    where: {
+      key: { in: throttleKeys(scope, subject).map((k) => k.key) },
+      lockedUntil: { gt: now }
+    },
+    orderBy: { lockedUntil: 'desc' }
+  })
+
+  return locked?.lockedUntil ? toLockout(locked.lockedUntil, now) : null
+}
+
+/**
+ * Count an attempt against the account and the IP before it's checked
+ *
+ * Returns the lockout refusing it, or null if it may go ahead. The attempt is
+ * counted as a failure up front, so concurrent attempts can't all slip under
+ * the limit before any of them fails; clearFailedAttempts takes it back on
+ * success. Counters live in the database, so every server sees the same ones.
+ */
+export async function reserveAttempt(scope: ThrottleScope, subject: ThrottleSubject): Promise<Lockout | null> {
+  const lockout = await getLockout(scope, subject)
+
+  if (lockout) {
+    return lockout
+  }
+
+  for (const { key, maxFailures } of throttleKeys(scope, subject)) {
+    const now = new Date()
+
+    await prisma.loginThrottle.updateMany({
+      where: { key, updatedAt: { lt: new Date(now.getTime() - LOCKOUT_MEMORY_MS) } },
+      data: { lockouts: 0 }
+    })
+
+    await prisma.loginThrottle.updateMany({
+      where: { key, windowStartAt: { lt: new Date(now.getTime() - FAILURE_WINDOW_MS) } },
+      data: { failures: 0, windowStartAt: now }
+    })
+
+    // The lock: the increment is atomic, so only maxFailures attempts fit in a window
+    const throttle = await prisma.loginThrottle.upsert({
+      where: { key },
+      create: { key, failures: 1, windowStartAt: now },
+      update: { failures: { increment: 1 } }
+    })
+
+    if (throttle.lockedUntil && throttle.lockedUntil > now) {
+      return toLockout(throttle.lockedUntil, now)
+    }
+
+    if (throttle.failures > maxFailures) {
+      return toLockout(new Date(throttle.windowStartAt.getTime() + FAILURE_WINDOW_MS), now)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Lock the account or IP out if a failed attempt brought it to its limit
+ * Returns the lockouts this failure started, if any.
+ */
+export async function recordFailedAttempt(scope: ThrottleScope, subject: ThrottleSubject): Promise<NewLockout[]> {
+  const started: NewLockout[] = []
+
+  for (const { key, target, maxFailures } of throttleKeys(scope, subject)) {
+    const now = new Date()
+    const throttle = await prisma.loginThrottle.findUnique({ where: { key } })
+
+    if (!throttle || throttle.failures < maxFailures) {
+      continue
+    }
+
+    const lockedUntil = new Date(now.getTime() + Math.min(FIRST_LOCKOUT_MS * 2 ** throttle.lockouts, MAX_LOCKOUT_MS))
+
+    // The lock: of several failures reaching the limit at once, only one starts the lockout
+    const locked = await prisma.loginThrottle.updateMany({
+      where: { key, lockouts: throttle.lockouts, failures: { gte: maxFailures } },
+      data: { failures: 0, windowStartAt: now, lockouts: { increment: 1 }, lockedUntil }
+    })
+
+    if (locked.count > 0) {
+      started.push({ ...toLockout(lockedUntil, now), target, lockouts: throttle.lockouts + 1 })
+    }
+  }
+
+  return started
+}
+
+/**
+ * Take back a successful attempt: the account's failures are forgotten, and
+ * the IP's count drops by this attempt only, so one working password can't
+ * be used to reset guessing at others
+ */
+export async function clearFailedAttempts(scope: ThrottleScope, subject: ThrottleSubject) {
+  const keys = throttleKeys(scope, subject)
+
+  for (const { key, target } of keys) {
+    if (target === 'account') {
+      await prisma.loginThrottle.deleteMany({ where: { key } })
+    } else {
+      await prisma.loginThrottle.updateMany({
+        where: { key, failures: { gt: 0 } },
+        data: { failures: { decrement: 1 } }
+      })
+    }
+  }
+}
@@ -0,0 +1,347 @@
+import { createHash } from 'crypto'
+import { Prisma } from '@prisma/client'
+import prisma, { DbClient } from '@/lib/db'
+import { ERASED_EMAIL, ERASED_EMAIL_DOMAIN, normalizeEmail } from '@/lib/email'
+import { enqueueDeleteSync, processSyncOutbox } from './app-sync.service'
+
+export const ERASED_EMAIL_ERROR = 'This customer has had their data erased'
+
+const ERASED_NAME = '[erased]'
+
+// Log rows rewritten per transaction when scrubbing
+const SCRUB_BATCH_SIZE = 100
+
+// Keys in stored Stripe payloads that hold contact details rather than revenue data
+const PII_KEYS = [
+  'customer_details',
+  'customer_email',
+  'customer_name',
+  'customer_address',
+  'customer_phone',
+  'customer_shipping',
+  'billing_details',
+  'shipping',
+  'shipping_details',
+  'receipt_email'
+]
+
+/**
+ * SHA-256 of a normalized email, as stored on erasure tombstones
+ */
+export function hashEmail(email: string): string {
+  return createHash('sha256').update(normalizeEmail(email)).digest('hex')
+}
+
+/**
+ * Whether an email belongs to a customer whose data was erased
+ */
+export async function isEmailErased(email: string, db: DbClient = prisma): Promise<boolean> {
+  const tombstone = await db.erasureTombstone.findUnique({ where: { emailHash: hashEmail(email) } })
+  return !!tombstone
+}
+
+/**
+ * The identity plus every identity merged into it
+ */
+async function getIdentityCluster(identityId: string, db: DbClient) {
+  const identity = await db.identity.findUnique({
+    where: { id: identityId },
+    include: { mergedIdentities: true }
+  })
+
+  if (!identity) {
+    throw new Error('User not found')
+  }
+
+  if (identity.mergedIntoId) {
+    throw new Error('User has been merged into another user; use the surviving user')
+  }
+
+  return { identity, ids: [identity.id, ...identity.mergedIdentities.map((m) => m.id)] }
+}
+
+/**
+ * Every address the customer has given us, from any table
+ */
+async function collectEmails(ids: string[], db: DbClient): Promise<string[]> {
+  const [identities, identityEmails, claimTokens, verifications] = await Promise.all([
+    db.identity.findMany({ where: { id: { in: ids } }, select: { primaryEmail: true } }),
+    db.identityEmail.findMany({ where: { identityId: { in: ids } }, select: { email: true } }),
+    db.claimToken.findMany({ where: { identityId: { in: ids } }, select: { purchaseEmail: true } }),
+    db.emailVerification.findMany({ where: { identityId: { in: ids } }, select: { email: true } })
+  ])
+
+  return [
+    ...new Set(
+      [
+        ...identities.map((i) => i.primaryEmail),
+        ...identityEmails.map((e) => e.email),
+        ...claimTokens.map((t) => t.purchaseEmail),
+        ...verifications.map((v) => v.email)
+      ].map(normalizeEmail)
+    )
+  ]
+}
+
+function likePatterns(values: string[]): string[] {
+  return values.map((value) => `%${value.replace(/[\\%_]/g, '\\$&')}%`)
+}
+
+/**
+ * Merges the identity or anything merged into it took part in
+ */
+async function findIdentityMerges(ids: string[], db: DbClient) {
+  return db.identityMerge.findMany({
+    where: { OR: [{ survivorId: { in: ids } }, { mergedId: { in: ids } }] },
+    orderBy: { createdAt: 'asc' }
+  })
+}
+
+/**
+ * Audit rows about the identity, or whose details mention one of its emails
+ */
+async function findAuditLogs(ids: string[], emails: string[], db: DbClient) {
+  const mentions = emails.length > 0
+    ? await db.$queryRaw<{ id: number }[]>`
+        SELECT id FROM audit_logs WHERE details::text ILIKE ANY(${likePatterns(emails)})`
+    : []
+
+  return db.auditLog.findMany({
+    where: { OR: [{ identityId: { in: ids } }, { id: { in: mentions.map((m) => m.id) } }] },
+    orderBy: { createdAt: 'asc' }
+  })
+}
+
+/**
+ * Stored webhook payloads that mention one of the emails
+ */
+async function findWebhookLogs(emails: string[], db: DbClient) {
+  if (emails.length === 0) {
+    return []
+  }
+
+  const mentions = await db.$queryRaw<{ id: number }[]>`
+    SELECT id FROM webhook_logs WHERE payload::text ILIKE ANY(${likePatterns(emails)})`
+
+  return db.webhookLog.findMany({
+    where: { id: { in: mentions.map((m) => m.id) } },
+    orderBy: { processedAt: 'asc' }
+  })
+}
+
+/**
+ * Everything we hold about a customer, for an access request
+ */
+export async function exportIdentityData(identityId: string) {
+  const { identity, ids } = await getIdentityCluster(identityId, prisma)
+  const emails = await collectEmails(ids, prisma)
+
+  const [
+    identityEmails,
+    entitlements,
+    claimTokens,
+    productSubmissions,
+    emailVerifications,
+    identityMerges,
+    auditLogs,
+    webhookLogs
+  ] = await Promise.all([
+    prisma.identityEmail.findMany({ where: { identityId: { in: ids } }, orderBy: { addedAt: 'asc' } }),
+    prisma.entitlement.findMany({ where: { identityId: { in: ids } }, orderBy: { grantedAt: 'asc' } }),
+    prisma.claimToken.findMany({ where: { identityId: { in: ids } }, orderBy: { createdAt: 'asc' } }),
+    prisma.productSubmission.findMany({ where: { identityId: { in: ids } }, orderBy: { createdAt: 'asc' } }),
+    prisma.emailVerification.findMany({
+      where: { identityId: { in: ids } },
+      select: { email: true, productIds: true, expiresAt: true, verifiedAt: true, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    }),
+    findIdentityMerges(ids, prisma),
+    findAuditLogs(ids, emails, prisma),
+    findWebhookLogs(emails, prisma)
+  ])
+
+  return {
+    exportedAt: new Date().toISOString(),
+    identity,
+    emails,
+    identityEmails,
+    entitlements,
+    claimTokens,
+    productSubmissions,
+    emailVerifications,
+    identityMerges,
+    auditLogs,
+    webhookLogs
+  }
+}
+
+/**
+ * Replace personal data inside a stored JSON value
+ * Known contact-detail keys are blanked and any mention of the emails or names is swapped out.
+ */
+function scrubJson(value: Prisma.JsonValue, emails: string[], names: string[]): Prisma.InputJsonValue {
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const patterns: [RegExp, string][] = [
+    ...emails.map((email): [RegExp, string] => [new RegExp(escape(email), 'gi'), ERASED_EMAIL]),
+    // Very short names would mangle unrelated text
+    ...names.filter((name) => name.length >= 3).map((name): [RegExp, string] => [new RegExp(escape(name), 'gi'), ERASED_NAME])
+  ]
+
+  const scrub = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      return patterns.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), node)
+    }
+    if (Array.isArray(node)) {
+      return node.map(scrub)
+    }
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(
+        Object.entries(node).map(([key, child]) => [key, PII_KEYS.includes(key) ? null : scrub(child)])
+      )
+    }
+    return node
+  }
+
+  return scrub(value) as Prisma.InputJsonValue
+}
+
+/**
+ * Scrub the customer from audit and webhook logs
+ * Runs in batches outside the erasure transaction, since a long-standing
+ * customer can be mentioned in thousands of rows. Returns how many were scrubbed.
+ */
+async function scrubLogs(ids: string[], emails: string[], names: string[]): Promise<number> {
+  const [auditLogs, webhookLogs] = await Promise.all([
+    findAuditLogs(ids, emails, prisma),
+    findWebhookLogs(emails, prisma)
+  ])
+
+  for (let i = 0; i < auditLogs.length; i += SCRUB_BATCH_SIZE) {
+    await prisma.$transaction(
+      auditLogs
+        .slice(i, i + SCRUB_BATCH_SIZE)
+        .filter((log) => log.details !== null)
+        .map((log) => prisma.auditLog.update({ where: { id: log.id }, data: { details: scrubJson(log.details, emails, names) } }))
+    )
+  }
+
+  for (let i = 0; i < webhookLogs.length; i += SCRUB_BATCH_SIZE) {
+    await prisma.$transaction(
+      webhookLogs
+        .slice(i, i + SCRUB_BATCH_SIZE)
+        .map((log) => prisma.webhookLog.update({ where: { id: log.id }, data: { payload: scrubJson(log.payload, emails, names) } }))
+    )
+  }
+
+  return auditLogs.length + webhookLogs.length
+}
+
+/**
+ * Erase a customer's personal data
+ *
+ * Emails, names, form answers and verification records are removed or
+ * anonymized across the identity and everything merged into it. Entitlements
+ * are revoked but keep their Stripe IDs, amounts and dates for accounting.
+ * Every connected app is asked to delete the user, and a tombstone per email
+ * stops later reports from recreating the customer.
+ */
+export async function eraseIdentity(identityId: string, adminEmail: string) {
+  const { identity, ids } = await getIdentityCluster(identityId, prisma)
+
+  if (identity.erasedAt) {
+    throw new Error('User has already been erased')
+  }
+
+  const emails = await collectEmails(ids, prisma)
+  const names = [identity.name, ...identity.mergedIdentities.map((m) => m.name)].filter((n): n is string => !!n)
+
+  const { outboxIds, scrubbed } = await prisma.$transaction(async (tx) => {
+    const now = new Date()
+
+    // The lock: only one request can erase this identity
+    const locked = await tx.identity.updateMany({
+      where: { id: identity.id, erasedAt: null, mergedIntoId: null },
+      data: { erasedAt: now }
+    })
+
+    if (locked.count === 0) {
+      throw new Error('User has already been erased')
+    }
+
+    for (const id of ids) {
+      await tx.identity.update({
+        where: { id },
+        data: { primaryEmail: `erased-${id}@${ERASED_EMAIL_DOMAIN}`, primaryEmailKey: null, name: null, erasedAt: now }
+      })
+    }
+
+    await tx.entitlement.updateMany({
+      where: { identityId: { in: ids }, revokedAt: null },
+      data: { revokedAt: now, revokedReason: 'Customer data erased' }
+    })
+
+    await tx.identityEmail.deleteMany({ where: { identityId: { in: ids } } })
+    await tx.emailVerification.deleteMany({ where: { identityId: { in: ids } } })
+    await tx.accountLoginToken.deleteMany({ where: { identityId: { in: ids } } })
+
+    await tx.claimToken.updateMany({
+      where: { identityId: { in: ids }, claimed: false, voidedAt: null },
+      data: { voidedAt: now, voidReason: 'Customer data erased' }
+    })
+    await tx.claimToken.updateMany({
+      where: { identityId: { in: ids } },
+      data: { purchaseEmail: ERASED_EMAIL }
+    })
+
+    await tx.productSubmission.updateMany({
+      where: { identityId: { in: ids } },
+      data: { formData: {}, email: null, zapierResponse: Prisma.DbNull }
+    })
+
+    // Queued syncs would otherwise still go out, addressed to the shared erased email
+    await tx.syncOutbox.updateMany({
+      where: { email: { in: emails }, status: { in: ['pending', 'processing'] } },
+      data: { status: 'cancelled', lockedAt: null, lastError: 'Cancelled: customer data erased' }
+    })
+
+    // Merge snapshots keep the name copied onto the survivor, for splitting
+    const merges = await findIdentityMerges(ids, tx)
+
+    for (const merge of merges) {
+      await tx.identityMerge.update({
+        where: { id: merge.id },
+        data: { snapshot: { ...(scrubJson(merge.snapshot, emails, names) as Prisma.InputJsonObject), nameCopied: null } }
+      })
+    }
+
+    const outboxRows = await tx.syncOutbox.findMany({ where: { email: { in: emails } } })
+
+    for (const row of outboxRows) {
+      await tx.syncOutbox.update({
+        where: { id: row.id },
+        data: { email: ERASED_EMAIL, payload: scrubJson(row.payload, emails, names) }
+      })
+    }
+
+    await tx.erasureTombstone.createMany({
+      data: emails.map((email) => ({ emailHash: hashEmail(email), identityId: identity.id, adminEmail })),
+      skipDuplicates: true
+    })
+
+    const outboxIds: number[] = []
+    for (const email of emails) {
+      outboxIds.push(...await enqueueDeleteSync(tx, email, 'Customer data erased'))
+    }
+
+    return { outboxIds, scrubbed: merges.length + outboxRows.length }
+  })
+
+  const scrubbedLogs = await scrubLogs(ids, emails, names)
+
+  if (outboxIds.length > 0) {
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
+    console.log('[Privacy] Delete-user results:', syncResults)
+  }
+
+  return { identityIds: ids, emailCount: emails.length, recordsScrubbed: scrubbed + scrubbedLogs, appRequests: outboxIds.length }
+}
@@ -0,0 +1,102 @@
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/db'
+import { sendSecurityAlertEmail } from './email.service'
+import { NewLockout, recordFailedAttempt, ThrottleScope, ThrottleSubject } from './login-throttle.service'
+
+export type SecurityEventType =
+  | 'login_failed'
+  | 'login_locked_out'
+  | 'setup_key_invalid'
+  | 'setup_locked_out'
+  | 'two_factor_failed'
+  | 'two_factor_locked_out'
+
+// Owners are emailed about these when SECURITY_ALERT_EMAILS is "true"
+const ALERT_SUMMARIES: Partial<Record<SecurityEventType, string>> = {
+  login_locked_out: 'Admin sign-in was locked after repeated wrong passwords',
+  setup_locked_out: 'Admin setup was locked after repeated wrong setup keys',
+  two_factor_locked_out: 'Admin sign-in was locked after repeated wrong two-factor codes'
+}
+
+// Events logged for a failed attempt, and for a lockout it starts
+const FAILURE_EVENTS: Record<ThrottleScope, { failed: SecurityEventType; lockedOut: SecurityEventType }> = {
+  login: { failed: 'login_failed', lockedOut: 'login_locked_out' },
+  setup: { failed: 'setup_key_invalid', lockedOut: 'setup_locked_out' },
+  two_factor: { failed: 'two_factor_failed', lockedOut: 'two_factor_locked_out' }
+}
+
+interface SecurityEventData {
+  type: SecurityEventType
+  email?: string | null
+  adminUserId?: number | null
+  ipAddress: string | null
+  userAgent: string | null
+  details?: Prisma.InputJsonObject
+}
+
+/**
+ * Record a security event, emailing owners if it's one they're alerted about
+ */
+export async function recordSecurityEvent(data: SecurityEventData) {
+  const event = await prisma.securityEvent.create({
+    data: {
+      type: data.type,
+      email: data.email || null,
+      adminUserId: data.adminUserId || null,
+      ipAddress: data.ipAddress,
+      userAgent: data.userAgent?.slice(0, 500) || null,
+      details: data.details
+    }
+  })
+
+  const summary = ALERT_SUMMARIES[data.type]
+
+  if (summary && process.env.SECURITY_ALERT_EMAILS === 'true') {
+    const owners = await prisma.adminUser.findMany({
+      where: { role: 'owner', deactivatedAt: null },
+      select: { email: true }
+    })
+
+    if (owners.length > 0) {
+      await sendSecurityAlertEmail({
+        to: owners.map((o) => o.email),
+        summary,
+        email: event.email,
+        ipAddress: event.ipAddress,
+        occurredAt: event.createdAt
+      })
+    }
+  }
+
+  return event
+}
+
+/**
+ * Log a failed login, setup or 2FA attempt reserved with reserveAttempt,
+ * along with any lockout it starts
+ */
+export async function recordAuthFailure(
+  scope: ThrottleScope,
+  subject: ThrottleSubject,
+  data: Omit<SecurityEventData, 'type'>
+): Promise<NewLockout[]> {
+  const lockouts = await recordFailedAttempt(scope, subject)
+  const events = FAILURE_EVENTS[scope]
+
+  await recordSecurityEvent({ ...data, type: events.failed })
+
+  for (const lockout of lockouts) {
+    await recordSecurityEvent({
+      ...data,
+      type: events.lockedOut,
+      details: {
+        ...data.details,
+        target: lockout.target,
+        lockouts: lockout.lockouts,
+        lockedUntil: lockout.lockedUntil.toISOString()
+      }
+    })
+  }
+
+  return lockouts
+}
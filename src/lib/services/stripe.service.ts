@@ -2,16 +2,29 @@ import Stripe from 'stripe'
 import { Prisma } from '@prisma/client'
 import prisma from '@/lib/db'
 import {
+  activeEntitlementWhere,
+  findIdentity,
   getOrCreateIdentity,
   createClaimToken,
-  grantAccess
+  grantAccess,
+  expireGracePeriods,
+  GRACE_PERIOD_ENDED_REASON
 } from './entitlements.service'
-import { sendBundlePurchaseEmail } from './email.service'
-import { grantAccessAndSync, revokeAccessAndSync } from './app-sync.service'
+import { sendBundlePurchaseEmail, sendPaymentFailedEmail } from './email.service'
+import { sendClaimEmail } from './claim-token.service'
+import { enqueueGrantSync, enqueueRevokeSync, processSyncOutbox } from './app-sync.service'
 import { DurationType } from '@/lib/types'
+import { foldEmailAliases, normalizeEmail } from '@/lib/email'
 
 let _stripe: Stripe | null = null
 
+// Extra access after a billing period ends, to cover late renewal webhooks
+const SUBSCRIPTION_GRACE_BUFFER_MS =
+  (parseFloat(process.env.SUBSCRIPTION_GRACE_BUFFER_HOURS || '0') || 0) * 60 * 60 * 1000
+
+// Revocations that a later successful payment should undo
+const DUNNING_REVOKE_REASONS = [GRACE_PERIOD_ENDED_REASON, 'Subscription past_due', 'Subscription unpaid']
+
 function getStripe(): Stripe {
   if (!_stripe) {
     if (!process.env.STRIPE_SECRET_KEY) {
@@ -26,6 +39,43 @@ function getStripe(): Stripe {
 
 export const stripe = { get instance() { return getStripe() } }
 
+/**
+ * Update the email on a Stripe customer (receipts and invoices go there)
+ */
+export async function updateStripeCustomerEmail(customerId: string, email: string) {
+  return stripe.instance.customers.update(customerId, { email })
+}
+
+/**
+ * Open a Billing Portal session where the customer manages their subscriptions
+ */
+export async function createBillingPortalSession(customerId: string, returnUrl: string): Promise<string> {
+  const session = await stripe.instance.billingPortal.sessions.create({
+    customer: customerId,
+    return_url: returnUrl
+  })
+  return session.url
+}
+
+/**
+ * Paid charges on a Stripe customer that have a hosted receipt, newest first
+ */
+export async function listCustomerReceipts(customerId: string, limit = 24) {
+  const charges = await stripe.instance.charges.list({ customer: customerId, limit })
+
+  return charges.data
+    .filter((charge) => charge.paid && charge.receipt_url)
+    .map((charge) => ({
+      id: charge.id,
+      amount: charge.amount,
+      amountRefunded: charge.amount_refunded,
+      currency: charge.currency,
+      description: charge.description,
+      createdAt: new Date(charge.created * 1000).toISOString(),
+      receiptUrl: charge.receipt_url as string
+    }))
+}
+
 /**
  * Verify Stripe webhook signature
  */
@@ -48,7 +98,7 @@ export function verifyWebhookSignature(
  * Handle checkout.session.completed event
  */
 export async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
-  const customerEmail = session.customer_details?.email
+  const customerEmail = session.customer_details?.email ? normalizeEmail(session.customer_details.email) : null
   const stripeCustomerId = typeof session.customer === 'string'
     ? session.customer
     : session.customer?.id
@@ -83,7 +133,11 @@ export async function handleCheckoutCompleted(session: Stripe.Checkout.Session)
   }
 
   // Create or get identity
-  const identity = await getOrCreateIdentity(customerEmail, stripeCustomerId || undefined)
+  const identity = await getOrCreateIdentity(
+    customerEmail,
+    stripeCustomerId || undefined,
+    session.customer_details?.name || undefined
+  )
 
   // Check if any product in the bundle requires a form (like Career Pathways)
   const productsWithForms = await prisma.product.findMany({
@@ -102,14 +156,16 @@ export async function handleCheckoutCompleted(session: Stripe.Checkout.Session)
       stripeSessionId: session.id
     })
 
-    // TODO: Send email with claim link
-    console.log(`Claim token created: ${claimToken.token}`)
+    const emailSent = await sendClaimEmail(claimToken.token, {
+      customerName: session.customer_details?.name || undefined
+    })
 
     return {
       handled: true,
       action: 'claim_token_created',
       token: claimToken.token,
-      bundleName: bundle.name
+      bundleName: bundle.name,
+      emailSent
     }
   }
 
@@ -118,17 +174,28 @@ export async function handleCheckoutCompleted(session: Stripe.Checkout.Session)
   for (const productId of bundle.productIds) {
     await prisma.identityEmail.upsert({
       where: {
-        email_productId: { email: customerEmail.toLowerCase(), productId }
+        email_productId: { email: customerEmail, productId }
       },
       create: {
         identityId: identity.id,
-        email: customerEmail.toLowerCase(),
-        productId
+        email: customerEmail,
+        emailKey: foldEmailAliases(customerEmail),
+        productId,
+        verified: true,
+        verifiedAt: new Date(),
+        verifiedBy: 'purchase'
       },
       update: {}
     })
   }
 
+  // Subscription checkouts follow the billing period instead of the bundle duration
+  const subscription = session.mode === 'subscription' && session.subscription
+    ? typeof session.subscription === 'string'
+      ? await stripe.instance.subscriptions.retrieve(session.subscription)
+      : session.subscription
+    : null
+
   // Calculate expiry date for email
   const expiresAt = new Date()
   const durationValue = bundle.durationValue ?? 0
@@ -140,13 +207,25 @@ export async function handleCheckoutCompleted(session: Stripe.Checkout.Session)
     expiresAt.setFullYear(expiresAt.getFullYear() + durationValue)
   }
 
-  await grantAccess({
-    identityId: identity.id,
-    productIds: bundle.productIds,
-    source: 'bundle',
-    bundleId: bundle.id,
-    durationType: bundle.durationType as DurationType,
-    durationValue: bundle.durationValue
+  // Grant and queue the app sync in one transaction
+  const outboxIds = await prisma.$transaction(async (tx) => {
+    await grantAccess({
+      identityId: identity.id,
+      productIds: bundle.productIds,
+      source: 'bundle',
+      bundleId: bundle.id,
+      durationType: bundle.durationType as DurationType,
+      durationValue: bundle.durationValue,
+      ...(subscription && {
+        expiresAt: getSubscriptionAccessEnd(subscription),
+        stripeSubscriptionId: subscription.id
+      }),
+      stripePriceId: priceId,
+      amountPaid: session.amount_total ?? undefined,
+      currency: session.currency ?? undefined
+    }, tx)
+
+    return enqueueGrantSync(tx, customerEmail, bundle.productIds, `Bundle purchase: ${bundle.name}`)
   })
 
   // Send confirmation email with instructions
@@ -155,15 +234,12 @@ export async function handleCheckoutCompleted(session: Stripe.Checkout.Session)
     customerName: session.customer_details?.name || undefined,
     bundleName: bundle.name,
     productIds: bundle.productIds,
-    expiresAt: bundle.durationType !== 'lifetime' ? expiresAt : undefined
+    // Subscriptions renew, so there is no fixed end date to show
+    expiresAt: bundle.durationType !== 'lifetime' && !subscription ? expiresAt : undefined
   })
 
   // Sync access to connected apps (Rezume, AI Coach)
-  const syncResults = await grantAccessAndSync(
-    customerEmail,
-    bundle.productIds,
-    `Bundle purchase: ${bundle.name}`
-  )
+  const syncResults = await processSyncOutbox({ ids: outboxIds })
   console.log('[Stripe] App sync results:', syncResults)
 
   return {
@@ -175,17 +251,43 @@ export async function handleCheckoutCompleted(session: Stripe.Checkout.Session)
   }
 }
 
+/**
+ * When a subscription's access should end, based on its Stripe billing period
+ *
+ * - Renewing normally: current period end plus the grace buffer
+ * - Collection paused: frozen at the current period end
+ * - Cancelling: exactly at the cancellation time / period end
+ */
+export function getSubscriptionAccessEnd(subscription: Stripe.Subscription): Date | null {
+  const periodEnds = subscription.items.data.map(item => item.current_period_end)
+  if (periodEnds.length === 0) {
+    return null
+  }
+
+  const periodEnd = new Date(Math.max(...periodEnds) * 1000)
+
+  if (subscription.cancel_at) {
+    return new Date(Math.min(subscription.cancel_at * 1000, periodEnd.getTime()))
+  }
+
+  if (subscription.cancel_at_period_end || subscription.pause_collection) {
+    return periodEnd
+  }
+
+  return new Date(periodEnd.getTime() + SUBSCRIPTION_GRACE_BUFFER_MS)
+}
+
 /**
  * Handle subscription events (for subscription-based bundles)
+ * Entitlement expiry follows the subscription's billing period, so renewals
+ * extend access and pauses or scheduled cancellations stop it at period end.
  */
 export async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
   const stripeCustomerId = typeof subscription.customer === 'string'
     ? subscription.customer
     : subscription.customer.id
 
-  const identity = await prisma.identity.findFirst({
-    where: { stripeCustomerId }
-  })
+  const identity = await findIdentity({ stripeCustomerId })
 
   if (!identity) {
     console.log(`No identity found for customer: ${stripeCustomerId}`)
@@ -206,51 +308,66 @@ export async function handleSubscriptionUpdated(subscription: Stripe.Subscriptio
     return { handled: false }
   }
 
+  const accessEndsAt = getSubscriptionAccessEnd(subscription)
+
   // Update entitlement based on subscription status
   if (subscription.status === 'active' || subscription.status === 'trialing') {
-    await grantAccess({
-      identityId: identity.id,
-      productIds: bundle.productIds,
-      source: 'bundle',
-      bundleId: bundle.id,
-      durationType: bundle.durationType as DurationType,
-      durationValue: bundle.durationValue,
-      stripeSubscriptionId: subscription.id
+    const outboxIds = await prisma.$transaction(async (tx) => {
+      await grantAccess({
+        identityId: identity.id,
+        productIds: bundle.productIds,
+        source: 'bundle',
+        bundleId: bundle.id,
+        durationType: bundle.durationType as DurationType,
+        durationValue: bundle.durationValue,
+        expiresAt: accessEndsAt,
+        stripeSubscriptionId: subscription.id
+      }, tx)
+
+      return enqueueGrantSync(tx, identity.primaryEmail, bundle.productIds, `Subscription ${subscription.status}`)
     })
 
     // Sync access to connected apps
-    const syncResults = await grantAccessAndSync(
-      identity.primaryEmail,
-      bundle.productIds,
-      `Subscription ${subscription.status}`
-    )
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
     console.log('[Stripe] Subscription active sync results:', syncResults)
+  } else if (subscription.status === 'past_due') {
+    // Stripe is still retrying the card - keep access for the grace period
+    await startGracePeriod(identity.id, subscription.id)
+  } else if (subscription.status === 'paused') {
+    // Trial ended without a payment method - access stops at the period end
+    await prisma.entitlement.updateMany({
+      where: {
+        identityId: identity.id,
+        stripeSubscriptionId: subscription.id,
+        revokedAt: null
+      },
+      data: { expiresAt: accessEndsAt }
+    })
   } else if (
     subscription.status === 'canceled' ||
-    subscription.status === 'unpaid' ||
-    subscription.status === 'past_due'
+    subscription.status === 'unpaid'
   ) {
     // Revoke access
-    for (const productId of bundle.productIds) {
-      await prisma.entitlement.updateMany({
-        where: {
-          identityId: identity.id,
-          productId,
-          stripeSubscriptionId: subscription.id
-        },
-        data: {
-          revokedAt: new Date(),
-          revokedReason: `Subscription ${subscription.status}`
-        }
-      })
-    }
+    const outboxIds = await prisma.$transaction(async (tx) => {
+      for (const productId of bundle.productIds) {
+        await tx.entitlement.updateMany({
+          where: {
+            identityId: identity.id,
+            productId,
+            stripeSubscriptionId: subscription.id
+          },
+          data: {
+            revokedAt: new Date(),
+            revokedReason: `Subscription ${subscription.status}`
+          }
+        })
+      }
+
+      return enqueueRevokeSync(tx, identity.primaryEmail, bundle.productIds, `Subscription ${subscription.status}`)
+    })
 
     // Sync revocation to connected apps
-    const syncResults = await revokeAccessAndSync(
-      identity.primaryEmail,
-      bundle.productIds,
-      `Subscription ${subscription.status}`
-    )
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
     console.log('[Stripe] Revocation sync results:', syncResults)
   }
 
@@ -265,9 +382,7 @@ export async function handleSubscriptionDeleted(subscription: Stripe.Subscriptio
     ? subscription.customer
     : subscription.customer.id
 
-  const identity = await prisma.identity.findFirst({
-    where: { stripeCustomerId }
-  })
+  const identity = await findIdentity({ stripeCustomerId })
 
   if (!identity) {
     return { handled: false }
@@ -285,28 +400,654 @@ export async function handleSubscriptionDeleted(subscription: Stripe.Subscriptio
   const productIds = [...new Set(entitlements.map(e => e.productId))]
 
   // Revoke all entitlements linked to this subscription
-  await prisma.entitlement.updateMany({
+  const outboxIds = await prisma.$transaction(async (tx) => {
+    await tx.entitlement.updateMany({
+      where: {
+        identityId: identity.id,
+        stripeSubscriptionId: subscription.id
+      },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: 'Subscription deleted'
+      }
+    })
+
+    return productIds.length > 0
+      ? enqueueRevokeSync(tx, identity.primaryEmail, productIds, 'Subscription deleted')
+      : []
+  })
+
+  // Sync revocation to connected apps
+  if (outboxIds.length > 0) {
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
+    console.log('[Stripe] Subscription deleted sync results:', syncResults)
+  }
+
+  return { handled: true }
+}
+
+/**
+ * Get the subscription ID an invoice was raised for
+ */
+function getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  const subscription = invoice.parent?.subscription_details?.subscription
+  if (!subscription) {
+    return null
+  }
+  return typeof subscription === 'string' ? subscription : subscription.id
+}
+
+/**
+ * Start the dunning grace period on a subscription's active entitlements
+ * Each product keeps access for its own dunningGraceDays. Entitlements already
+ * in a grace period keep their original end date, so retries don't extend it.
+ */
+async function startGracePeriod(identityId: string, stripeSubscriptionId: string) {
+  const entitlements = await prisma.entitlement.findMany({
     where: {
-      identityId: identity.id,
-      stripeSubscriptionId: subscription.id
+      identityId,
+      stripeSubscriptionId,
+      revokedAt: null,
+      graceEndsAt: null
     },
+    include: { product: true }
+  })
+
+  const now = Date.now()
+
+  await prisma.$transaction(
+    entitlements.map((entitlement) => {
+      const graceEndsAt = new Date(now + entitlement.product.dunningGraceDays * 24 * 60 * 60 * 1000)
+
+      return prisma.entitlement.update({
+        where: { id: entitlement.id },
+        data: {
+          graceEndsAt,
+          // The unpaid billing period may end first - keep access through the grace period
+          ...(entitlement.expiresAt && entitlement.expiresAt < graceEndsAt && { expiresAt: graceEndsAt })
+        }
+      })
+    })
+  )
+
+  if (entitlements.length > 0) {
+    await prisma.auditLog.create({
+      data: {
+        action: 'dunning_grace_started',
+        identityId,
+        productIds: entitlements.map(e => e.productId),
+        details: {
+          stripeSubscriptionId,
+          graceDays: Object.fromEntries(entitlements.map(e => [e.productId, e.product.dunningGraceDays]))
+        }
+      }
+    })
+
+    // Products with no grace period lose access straight away
+    await expireGracePeriods({ stripeSubscriptionId })
+  }
+
+  const graceEnds = await prisma.entitlement.findMany({
+    where: { identityId, stripeSubscriptionId, revokedAt: null, graceEndsAt: { not: null } },
+    select: { graceEndsAt: true },
+    orderBy: { graceEndsAt: 'desc' },
+    take: 1
+  })
+
+  return {
+    started: entitlements.length > 0,
+    graceEndsAt: graceEnds[0]?.graceEndsAt ?? null
+  }
+}
+
+/**
+ * Handle invoice.payment_failed and invoice.payment_action_required
+ * Access continues through the grace period; the customer is emailed once
+ * when it starts.
+ */
+export async function handleInvoicePaymentFailed(invoice: Stripe.Invoice, actionRequired = false) {
+  const stripeSubscriptionId = getInvoiceSubscriptionId(invoice)
+  if (!stripeSubscriptionId) {
+    return { handled: false, reason: 'Not a subscription invoice' }
+  }
+
+  const stripeCustomerId = typeof invoice.customer === 'string'
+    ? invoice.customer
+    : invoice.customer?.id
+
+  const identity = stripeCustomerId
+    ? await findIdentity({ stripeCustomerId })
+    : null
+
+  if (!identity) {
+    console.log(`No identity found for customer: ${stripeCustomerId}`)
+    return { handled: false }
+  }
+
+  const { started, graceEndsAt } = await startGracePeriod(identity.id, stripeSubscriptionId)
+
+  if (started && graceEndsAt) {
+    const entitlement = await prisma.entitlement.findFirst({
+      where: { identityId: identity.id, stripeSubscriptionId },
+      include: { bundle: true }
+    })
+
+    await sendPaymentFailedEmail({
+      customerEmail: invoice.customer_email || identity.primaryEmail,
+      customerName: invoice.customer_name || undefined,
+      bundleName: entitlement?.bundle?.name || 'subscription',
+      graceEndsAt,
+      invoiceUrl: invoice.hosted_invoice_url || undefined,
+      actionRequired
+    })
+  }
+
+  return {
+    handled: true,
+    action: started ? 'grace_period_started' : 'grace_period_continues',
+    graceEndsAt: graceEndsAt?.toISOString() ?? null
+  }
+}
+
+/**
+ * Handle invoice.paid
+ * Ends any grace period and restores access revoked for non-payment.
+ */
+export async function handleInvoicePaid(invoice: Stripe.Invoice) {
+  const stripeSubscriptionId = getInvoiceSubscriptionId(invoice)
+  if (!stripeSubscriptionId) {
+    return { handled: false, reason: 'Not a subscription invoice' }
+  }
+
+  const entitlements = await prisma.entitlement.findMany({
+    where: {
+      stripeSubscriptionId,
+      OR: [
+        { revokedAt: null, graceEndsAt: { not: null } },
+        { revokedReason: { in: DUNNING_REVOKE_REASONS } }
+      ]
+    },
+    include: { identity: true }
+  })
+
+  if (entitlements.length === 0) {
+    return { handled: true, action: 'nothing_to_restore' }
+  }
+
+  const restoredProductIds = [...new Set(entitlements.filter(e => e.revokedAt).map(e => e.productId))]
+  const { identity } = entitlements[0]
+
+  const outboxIds = await prisma.$transaction(async (tx) => {
+    await tx.entitlement.updateMany({
+      where: { id: { in: entitlements.map(e => e.id) } },
+      data: { revokedAt: null, revokedReason: null, graceEndsAt: null }
+    })
+
+    await tx.auditLog.create({
+      data: {
+        action: 'dunning_restored',
+        identityId: identity.id,
+        productIds: [...new Set(entitlements.map(e => e.productId))],
+        details: { stripeSubscriptionId, invoiceId: invoice.id, restoredProductIds }
+      }
+    })
+
+    return restoredProductIds.length > 0
+      ? enqueueGrantSync(tx, identity.primaryEmail, restoredProductIds, 'Subscription payment received')
+      : []
+  })
+
+  if (outboxIds.length > 0) {
+    const syncResults = await processSyncOutbox({ ids: outboxIds })
+    console.log('[Stripe] Payment restored sync results:', syncResults)
+  }
+
+  return {
+    handled: true,
+    action: restoredProductIds.length > 0 ? 'access_restored' : 'grace_period_cleared',
+    products: restoredProductIds
+  }
+}
+
+/**
+ * Get the subscription a payment intent paid an invoice for
+ */
+async function findPaymentSubscriptionId(paymentIntentId: string): Promise<string | null> {
+  const payments = await stripe.instance.invoicePayments.list({
+    payment: { type: 'payment_intent', payment_intent: paymentIntentId },
+    expand: ['data.invoice'],
+    limit: 1
+  })
+
+  const invoice = payments.data[0]?.invoice
+  if (!invoice || typeof invoice === 'string' || 'deleted' in invoice) {
+    return null
+  }
+
+  return getInvoiceSubscriptionId(invoice)
+}
+
+/**
+ * Find the bundle checkout a payment intent paid for
+ * One-off checkouts are found by their payment intent. Subscription checkouts
+ * have none, so payments of their invoices are traced back through the
+ * subscription. Returns null for payments that didn't come from a bundle checkout.
+ */
+async function findBundlePurchase(paymentIntentId: string) {
+  const sessions = await stripe.instance.checkout.sessions.list({
+    payment_intent: paymentIntentId,
+    limit: 1
+  })
+
+  let session = sessions.data[0]
+
+  if (!session) {
+    const subscriptionId = await findPaymentSubscriptionId(paymentIntentId)
+
+    if (subscriptionId) {
+      const subscriptionSessions = await stripe.instance.checkout.sessions.list({
+        subscription: subscriptionId,
+        limit: 1
+      })
+      session = subscriptionSessions.data[0]
+    }
+  }
+
+  if (!session) {
+    return null
+  }
+
+  const lineItems = await stripe.instance.checkout.sessions.listLineItems(session.id, {
+    limit: 1
+  })
+
+  const priceId = lineItems.data[0]?.price?.id
+  if (!priceId) {
+    return null
+  }
+
+  const bundle = await prisma.bundle.findUnique({
+    where: { stripePriceId: priceId }
+  })
+
+  if (!bundle) {
+    return null
+  }
+
+  const stripeCustomerId = typeof session.customer === 'string'
+    ? session.customer
+    : session.customer?.id
+  const customerEmail = session.customer_details?.email ? normalizeEmail(session.customer_details.email) : null
+
+  const identity = await findIdentity({
+    OR: [
+      ...(stripeCustomerId ? [{ stripeCustomerId }] : []),
+      ...(customerEmail ? [{ primaryEmail: customerEmail }] : [])
+    ]
+  })
+
+  return { session, bundle, priceId, identity }
+}
+
+type BundlePurchase = NonNullable<Awaited<ReturnType<typeof findBundlePurchase>>>
+
+/**
+ * Get the payment intent ID from a charge or dispute
+ */
+function getPaymentIntentId(
+  paymentIntent: string | Stripe.PaymentIntent | null
+): string | null {
+  if (!paymentIntent) {
+    return null
+  }
+  return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id
+}
+
+/**
+ * Revoke the entitlements a bundle checkout granted and sync the change
+ * Unclaimed claim tokens for the session are voided so they can't be claimed or extended later.
+ * Apps only hear about products the customer has no other active entitlement for.
+ */
+async function revokeBundlePurchase(
+  purchase: BundlePurchase,
+  action: string,
+  reason: string,
+  details: Record<string, unknown>
+) {
+  const { session, bundle, priceId, identity } = purchase
+
+  const { productIds, outboxIds } = await prisma.$transaction(async (tx) => {
+    const now = new Date()
+
+    await tx.claimToken.updateMany({
+      where: { stripeSessionId: session.id, claimed: false, voidedAt: null },
+      data: { voidedAt: now, voidReason: reason }
+    })
+
+    // Grants recorded before stripePriceId was stored are matched on bundle alone
+    const entitlements = identity
+      ? await tx.entitlement.findMany({
+          where: {
+            identityId: identity.id,
+            source: 'bundle',
+            bundleId: bundle.id,
+            revokedAt: null,
+            OR: [{ stripePriceId: priceId }, { stripePriceId: null }]
+          },
+          select: { id: true, productId: true }
+        })
+      : []
+
+    if (entitlements.length > 0) {
+      await tx.entitlement.updateMany({
+        where: { id: { in: entitlements.map(e => e.id) } },
+        data: { revokedAt: now, revokedReason: reason }
+      })
+    }
+
+    const productIds = [...new Set(entitlements.map(e => e.productId))]
+
+    // Products still covered by another purchase or grant keep their access in the apps
+    const stillActive = identity && productIds.length > 0
+      ? await tx.entitlement.findMany({
+          where: { identityId: identity.id, productId: { in: productIds }, ...activeEntitlementWhere(now) },
+          select: { productId: true }
+        })
+      : []
+    const lostIds = productIds.filter((id) => !stillActive.some((e) => e.productId === id))
+
+    await tx.auditLog.create({
+      data: {
+        action,
+        identityId: identity?.id,
+        productIds,
+        details: {
+          ...details,
+          bundleId: bundle.id,
+          bundleName: bundle.name,
+          stripePriceId: priceId,
+          stripeSessionId: session.id
+        } as Prisma.InputJsonValue
+      }
+    })
+
+    const outboxIds = identity && lostIds.length > 0
+      ? await enqueueRevokeSync(tx, identity.primaryEmail, lostIds, reason)
+      : []
+
+    return { productIds, outboxIds }
+  })
+
+  const syncResults = outboxIds.length > 0
+    ? await processSyncOutbox({ ids: outboxIds })
+    : []
+
+  if (syncResults.length > 0) {
+    console.log(`[Stripe] ${action} sync results:`, syncResults)
+  }
+
+  return { productIds, syncResults }
+}
+
+/**
+ * Record a payment event that doesn't change access
+ */
+async function recordBundlePaymentEvent(
+  purchase: BundlePurchase,
+  action: string,
+  details: Record<string, unknown>
+) {
+  const { session, bundle, priceId, identity } = purchase
+
+  await prisma.auditLog.create({
     data: {
-      revokedAt: new Date(),
-      revokedReason: 'Subscription deleted'
+      action,
+      identityId: identity?.id,
+      productIds: bundle.productIds,
+      details: {
+        ...details,
+        bundleId: bundle.id,
+        bundleName: bundle.name,
+        stripePriceId: priceId,
+        stripeSessionId: session.id
+      } as Prisma.InputJsonValue
     }
   })
+}
 
-  // Sync revocation to connected apps
-  if (productIds.length > 0) {
-    const syncResults = await revokeAccessAndSync(
-      identity.primaryEmail,
-      productIds,
-      'Subscription deleted'
+/**
+ * Handle charge.refunded
+ * A full refund revokes the bundle; a partial refund keeps access.
+ */
+export async function handleChargeRefunded(charge: Stripe.Charge) {
+  const paymentIntentId = getPaymentIntentId(charge.payment_intent)
+  if (!paymentIntentId) {
+    return { handled: false, reason: 'Charge has no payment intent' }
+  }
+
+  const purchase = await findBundlePurchase(paymentIntentId)
+  if (!purchase) {
+    return { handled: false, reason: 'Not a bundle purchase' }
+  }
+
+  const details = {
+    chargeId: charge.id,
+    amount: charge.amount,
+    amountRefunded: charge.amount_refunded,
+    currency: charge.currency
+  }
+
+  if (charge.amount_refunded < charge.amount) {
+    await recordBundlePaymentEvent(purchase, 'stripe_partial_refund', details)
+    return { handled: true, action: 'partial_refund_recorded', bundleName: purchase.bundle.name }
+  }
+
+  const { productIds, syncResults } = await revokeBundlePurchase(
+    purchase,
+    'stripe_refund_revoke',
+    'Payment refunded',
+    details
+  )
+
+  return {
+    handled: true,
+    action: 'access_revoked',
+    bundleName: purchase.bundle.name,
+    products: productIds,
+    syncResults
+  }
+}
+
+/**
+ * Handle charge.dispute.created and charge.dispute.closed
+ * Access is kept while a dispute is open and revoked only if it is lost.
+ */
+export async function handleDispute(dispute: Stripe.Dispute) {
+  let paymentIntentId = getPaymentIntentId(dispute.payment_intent)
+
+  if (!paymentIntentId) {
+    const charge = typeof dispute.charge === 'string'
+      ? await stripe.instance.charges.retrieve(dispute.charge)
+      : dispute.charge
+    paymentIntentId = getPaymentIntentId(charge.payment_intent)
+  }
+
+  if (!paymentIntentId) {
+    return { handled: false, reason: 'Dispute has no payment intent' }
+  }
+
+  const purchase = await findBundlePurchase(paymentIntentId)
+  if (!purchase) {
+    return { handled: false, reason: 'Not a bundle purchase' }
+  }
+
+  const details = {
+    disputeId: dispute.id,
+    disputeStatus: dispute.status,
+    disputeReason: dispute.reason,
+    amount: dispute.amount,
+    currency: dispute.currency
+  }
+
+  if (dispute.status === 'lost') {
+    const { productIds, syncResults } = await revokeBundlePurchase(
+      purchase,
+      'stripe_dispute_lost',
+      'Payment dispute lost',
+      details
     )
-    console.log('[Stripe] Subscription deleted sync results:', syncResults)
+
+    return {
+      handled: true,
+      action: 'access_revoked',
+      bundleName: purchase.bundle.name,
+      products: productIds,
+      syncResults
+    }
   }
 
-  return { handled: true }
+  const action = dispute.status === 'won' ? 'stripe_dispute_won' : 'stripe_dispute_updated'
+  await recordBundlePaymentEvent(purchase, action, details)
+
+  return { handled: true, action: `${action}_recorded`, bundleName: purchase.bundle.name }
+}
+
+/**
+ * Route a verified Stripe event to its handler
+ */
+export async function dispatchStripeEvent(
+  event: Stripe.Event
+): Promise<{ handled: boolean; [key: string]: unknown }> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return handleCheckoutCompleted(event.data.object)
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+      return handleSubscriptionUpdated(event.data.object)
+
+    case 'customer.subscription.deleted':
+      return handleSubscriptionDeleted(event.data.object)
+
+    case 'charge.refunded':
+      return handleChargeRefunded(event.data.object)
+
+    case 'charge.dispute.created':
+    case 'charge.dispute.closed':
+      return handleDispute(event.data.object)
+
+    case 'invoice.payment_failed':
+    case 'invoice.payment_action_required':
+      return handleInvoicePaymentFailed(
+        event.data.object,
+        event.type === 'invoice.payment_action_required'
+      )
+
+    case 'invoice.paid':
+      return handleInvoicePaid(event.data.object)
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`)
+      return { handled: false, reason: 'Unhandled event type' }
+  }
+}
+
+// A claim older than this is assumed to belong to a crashed request
+const WEBHOOK_CLAIM_TIMEOUT_MS = 5 * 60 * 1000
+
+// Subscription events that carry the full subscription state and must apply in order
+const ORDERED_SUBSCRIPTION_EVENTS = ['customer.subscription.created', 'customer.subscription.updated']
+
+/**
+ * Claim a webhook event before processing it
+ *
+ * - 'claimed': this request owns the event and should process it
+ * - 'duplicate': the event was already processed (Stripe retry) - skip it
+ * - 'in_progress': another request is processing it right now
+ *
+ * Failed events, and claims abandoned by a crashed request, can be reclaimed.
+ */
+export async function claimWebhookEvent(
+  event: Stripe.Event
+): Promise<'claimed' | 'duplicate' | 'in_progress'> {
+  const objectId = (event.data.object as { id?: string }).id || null
+
+  try {
+    await prisma.webhookLog.create({
+      data: {
+        eventId: event.id,
+        eventType: event.type,
+        objectId,
+        eventCreatedAt: new Date(event.created * 1000),
+        payload: event.data as object,
+        status: 'processing'
+      }
+    })
+    return 'claimed'
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error
+    }
+  }
+
+  const existing = await prisma.webhookLog.findUnique({ where: { eventId: event.id } })
+
+  if (!existing || existing.status === 'success' || existing.status === 'ignored') {
+    return 'duplicate'
+  }
+
+  if (
+    existing.status === 'processing' &&
+    existing.processedAt.getTime() > Date.now() - WEBHOOK_CLAIM_TIMEOUT_MS
+  ) {
+    return 'in_progress'
+  }
+
+  // Conditional update so only one retry wins the reclaim
+  const reclaimed = await prisma.webhookLog.updateMany({
+    where: {
+      eventId: event.id,
+      status: existing.status,
+      processedAt: existing.processedAt
+    },
+    data: {
+      status: 'processing',
+      processedAt: new Date(),
+      errorMessage: null,
+      objectId,
+      eventCreatedAt: new Date(event.created * 1000)
+    }
+  })
+
+  return reclaimed.count > 0 ? 'claimed' : 'in_progress'
+}
+
+/**
+ * Whether a subscription event is older than one already applied
+ * to the same subscription (Stripe does not guarantee delivery order)
+ */
+export async function isStaleSubscriptionEvent(event: Stripe.Event): Promise<boolean> {
+  if (!ORDERED_SUBSCRIPTION_EVENTS.includes(event.type)) {
+    return false
+  }
+
+  const objectId = (event.data.object as { id?: string }).id
+  if (!objectId) {
+    return false
+  }
+
+  const newer = await prisma.webhookLog.findFirst({
+    where: {
+      objectId,
+      eventId: { not: event.id },
+      eventType: { in: [...ORDERED_SUBSCRIPTION_EVENTS, 'customer.subscription.deleted'] },
+      status: { in: ['success', 'ignored'] },
+      eventCreatedAt: { gt: new Date(event.created * 1000) }
+    },
+    select: { eventId: true }
+  })
+
+  return !!newer
 }
 
 /**
@@ -330,7 +1071,154 @@ export async function logWebhookEvent(
     },
     update: {
       status,
-      errorMessage
+      errorMessage,
+      processedAt: new Date()
     }
   })
 }
+
+export type WebhookOutcome =
+  | { status: 'success' | 'ignored'; stale?: boolean; result: { handled: boolean; [key: string]: unknown } }
+  | { status: 'failed'; error: string }
+
+/**
+ * Process a claimed event: drop it if stale, otherwise dispatch it,
+ * and record the outcome in the webhook log
+ */
+export async function applyWebhookEvent(event: Stripe.Event): Promise<WebhookOutcome> {
+  try {
+    if (await isStaleSubscriptionEvent(event)) {
+      console.log(`Ignoring out-of-order event: ${event.id} (${event.type})`)
+      await logWebhookEvent(
+        event.id,
+        event.type,
+        event.data,
+        'ignored',
+        'Stale event: a newer event for this subscription was already applied'
+      )
+      return { status: 'ignored', stale: true, result: { handled: false } }
+    }
+
+    const result = await dispatchStripeEvent(event)
+    const status = result.handled ? 'success' : 'ignored'
+
+    await logWebhookEvent(event.id, event.type, event.data, status)
+
+    return { status, result }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error'
+    console.error('Webhook processing error:', message)
+
+    await logWebhookEvent(event.id, event.type, event.data, 'failed', message)
+
+    return { status: 'failed', error: message }
+  }
+}
+
+// Successful events are never replayed, so a replay cannot grant twice
+export const REPLAYABLE_WEBHOOK_STATUSES = ['failed', 'ignored']
+
+function isJsonObject(value: Prisma.JsonValue | undefined): value is Prisma.JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Rebuild a Stripe event from its webhook log row (only event.data is stored)
+ * Throws if the row lacks what dispatch reads: an ID, a type and data.object.
+ */
+function toStoredStripeEvent(log: {
+  eventId: string
+  eventType: string
+  eventCreatedAt: Date | null
+  processedAt: Date
+  payload: Prisma.JsonValue
+}): Stripe.Event {
+  const data = log.payload
+
+  if (!log.eventId || !log.eventType || !isJsonObject(data) || !isJsonObject(data.object)) {
+    throw new Error('Stored payload is not a valid Stripe event')
+  }
+
+  return {
+    id: log.eventId,
+    object: 'event',
+    type: log.eventType as Stripe.Event.Type,
+    api_version: null,
+    created: Math.floor((log.eventCreatedAt ?? log.processedAt).getTime() / 1000),
+    livemode: data.object.livemode === true,
+    pending_webhooks: 0,
+    request: null,
+    data: {
+      // The stored resource is only checked to be an object; handlers read it as the event's type
+      object: data.object as unknown as Stripe.Event['data']['object'],
+      ...(isJsonObject(data.previous_attributes) && { previous_attributes: data.previous_attributes })
+    }
+  } as Stripe.Event
+}
+
+/**
+ * Re-run a logged webhook event through the same pipeline as live deliveries
+ *
+ * Uses the stored payload, or re-fetches the event from Stripe when `refetch`
+ * is set. Every attempt is audited with the admin's email.
+ */
+export async function replayWebhookEvent(
+  eventId: string,
+  options: { adminEmail: string; refetch?: boolean }
+): Promise<WebhookOutcome> {
+  const log = await prisma.webhookLog.findUnique({ where: { eventId } })
+
+  if (!log) {
+    throw new Error('Webhook event not found')
+  }
+
+  if (!REPLAYABLE_WEBHOOK_STATUSES.includes(log.status)) {
+    throw new Error(`Cannot replay a ${log.status} event`)
+  }
+
+  let outcome: WebhookOutcome
+
+  try {
+    const event = options.refetch
+      ? await stripe.instance.events.retrieve(eventId)
+      : toStoredStripeEvent(log)
+
+    // Same conditional claim as claimWebhookEvent, so a replay never races a Stripe retry
+    const claimed = await prisma.webhookLog.updateMany({
+      where: { eventId, status: log.status, processedAt: log.processedAt },
+      data: {
+        status: 'processing',
+        processedAt: new Date(),
+        errorMessage: null,
+        replayCount: { increment: 1 },
+        lastReplayedBy: options.adminEmail
+      }
+    })
+
+    if (claimed.count === 0) {
+      throw new Error('Event is already being processed')
+    }
+
+    outcome = await applyWebhookEvent(event)
+  } catch (err) {
+    outcome = { status: 'failed', error: err instanceof Error ? err.message : 'Unknown error' }
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      action: 'webhook_replay',
+      productIds: [],
+      adminEmail: options.adminEmail,
+      details: {
+        eventId,
+        eventType: log.eventType,
+        refetch: !!options.refetch,
+        previousStatus: log.status,
+        status: outcome.status,
+        ...(outcome.status === 'failed' ? { error: outcome.error } : { stale: !!outcome.stale })
+      }
+    }
+  })
+
+  return outcome
+}
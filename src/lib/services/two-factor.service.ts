@@ -0,0 +1,262 @@
+import bcrypt from 'bcryptjs'
+import { createHash } from 'crypto'
+import { customAlphabet } from 'nanoid'
+import QRCode from 'qrcode'
+import prisma from '@/lib/db'
+import { AdminUser } from '@/lib/types'
+import { generateTotpSecret, totpUri, verifyTotp } from '@/lib/totp'
+import { toAdminUser } from './auth.service'
+import { revokeAdminSessions } from './admin-session.service'
+
+// Shown by authenticator apps next to the code
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Entitlements Admin'
+
+const RECOVERY_CODE_COUNT = 10
+
+// Messages thrown by verifyTwoFactorCode for a code that can't be accepted
+export const TWO_FACTOR_CODE_ERRORS = [
+  'Two-factor authentication is not enabled',
+  'This code has already been used; wait for the next one',
+  'Invalid code'
+]
+
+// No 0/O or 1/l lookalikes, since recovery codes are usually copied by hand
+const recoveryCodePart = customAlphabet('23456789abcdefghjkmnpqrstuvwxyz', 5)
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.trim().toLowerCase()).digest('hex')
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => `${recoveryCodePart()}-${recoveryCodePart()}`)
+}
+
+async function getAdminRecord(adminUserId: number) {
+  const user = await prisma.adminUser.findUnique({ where: { id: adminUserId } })
+
+  if (!user || user.deactivatedAt) {
+    throw new Error('Admin user not found')
+  }
+
+  return user
+}
+
+/**
+ * Whether an admin has 2FA, whether it's required, and how many recovery codes are left
+ */
+export async function getTwoFactorStatus(adminUserId: number) {
+  const user = await getAdminRecord(adminUserId)
+
+  return {
+    enabled: !!user.totpEnabledAt,
+    enabledAt: user.totpEnabledAt,
+    required: user.totpRequired,
+    recoveryCodesRemaining: user.recoveryCodes.length
+  }
+}
+
+/**
+ * Start enrolment: a new secret to scan, not active until a code from it is verified
+ */
+export async function beginTwoFactorEnrolment(adminUserId: number) {
+  const user = await getAdminRecord(adminUserId)
+
+  if (user.totpEnabledAt) {
+    throw new Error('Two-factor authentication is already enabled')
+  }
+
+  const secret = generateTotpSecret()
+  const otpauthUrl = totpUri(secret, user.email, TOTP_ISSUER)
+
+  await prisma.adminUser.update({
+    where: { id: user.id },
+    data: { totpPendingSecret: secret }
+  })
+
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) }
+}
+
+/**
+ * Finish enrolment with a code from the new secret
+ * Returns the recovery codes, which are only ever shown this once.
+ */
+export async function enableTwoFactor(adminUserId: number, code: string) {
+  const user = await getAdminRecord(adminUserId)
+
+  if (user.totpEnabledAt) {
+    throw new Error('Two-factor authentication is already enabled')
+  }
+
+  if (!user.totpPendingSecret) {
+    throw new Error('Start two-factor setup first')
+  }
+
+  const step = verifyTotp(user.totpPendingSecret, code)
+
+  if (step === null) {
+    throw new Error('Invalid code')
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+
+  // The lock: only the secret that was verified gets enabled
+  const enabled = await prisma.adminUser.updateMany({
+    where: { id: user.id, totpEnabledAt: null, totpPendingSecret: user.totpPendingSecret },
+    data: {
+      totpSecret: user.totpPendingSecret,
+      totpPendingSecret: null,
+      totpEnabledAt: new Date(),
+      totpLastStep: step,
+      recoveryCodes: recoveryCodes.map(hashRecoveryCode)
+    }
+  })
+
+  if (enabled.count === 0) {
+    throw new Error('Two-factor setup changed; start again')
+  }
+
+  return { recoveryCodes }
+}
+
+/**
+ * Check a TOTP or recovery code for an admin with 2FA enabled
+ *
+ * Each TOTP step and each recovery code is accepted once. Returns which kind
+ * of code was used and how many recovery codes remain.
+ */
+export async function verifyTwoFactorCode(adminUserId: number, code: string) {
+  const user = await getAdminRecord(adminUserId)
+
+  if (!user.totpEnabledAt || !user.totpSecret) {
+    throw new Error('Two-factor authentication is not enabled')
+  }
+
+  const step = verifyTotp(user.totpSecret, code)
+
+  if (step !== null) {
+    // The lock: a code's step can only be used once, even by concurrent requests
+    const accepted = await prisma.adminUser.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }]
+      },
+      data: { totpLastStep: step }
+    })
+
+    if (accepted.count === 0) {
+      throw new Error('This code has already been used; wait for the next one')
+    }
+
+    return { method: 'totp' as const, recoveryCodesRemaining: user.recoveryCodes.length }
+  }
+
+  const hash = hashRecoveryCode(code)
+
+  if (!user.recoveryCodes.includes(hash)) {
+    throw new Error('Invalid code')
+  }
+
+  const remaining = user.recoveryCodes.filter((c) => c !== hash)
+
+  // The lock: only one request can spend the recovery code
+  const spent = await prisma.adminUser.updateMany({
+    where: { id: user.id, recoveryCodes: { has: hash } },
+    data: { recoveryCodes: remaining }
+  })
+
+  if (spent.count === 0) {
+    throw new Error('Invalid code')
+  }
+
+  return { method: 'recovery_code' as const, recoveryCodesRemaining: remaining.length }
+}
+
+/**
+ * Replace all recovery codes; needs a current code so a stolen session can't do it
+ */
+export async function regenerateRecoveryCodes(adminUserId: number, code: string) {
+  await verifyTwoFactorCode(adminUserId, code)
+
+  const recoveryCodes = generateRecoveryCodes()
+
+  await prisma.adminUser.update({
+    where: { id: adminUserId },
+    data: { recoveryCodes: recoveryCodes.map(hashRecoveryCode) }
+  })
+
+  return { recoveryCodes }
+}
+
+/**
+ * Turn off 2FA for your own account; needs your password
+ */
+export async function disableTwoFactor(adminUserId: number, password: string) {
+  const user = await getAdminRecord(adminUserId)
+
+  if (!user.totpEnabledAt) {
+    throw new Error('Two-factor authentication is not enabled')
+  }
+
+  if (user.totpRequired) {
+    throw new Error('An owner requires two-factor authentication for your account')
+  }
+
+  if (!(await bcrypt.compare(password, user.passwordHash))) {
+    throw new Error('Password is incorrect')
+  }
+
+  await prisma.adminUser.update({
+    where: { id: user.id },
+    data: { totpSecret: null, totpPendingSecret: null, totpEnabledAt: null, totpLastStep: null, recoveryCodes: [] }
+  })
+}
+
+/**
+ * Require (or stop requiring) 2FA for an admin; they enrol at their next login
+ */
+export async function setTwoFactorRequired(id: number, required: boolean): Promise<AdminUser> {
+  const user = await prisma.adminUser.findUnique({ where: { id } })
+
+  if (!user) {
+    throw new Error('Admin user not found')
+  }
+
+  const updated = await prisma.adminUser.update({
+    where: { id },
+    data: { totpRequired: required }
+  })
+
+  return toAdminUser(updated)
+}
+
+/**
+ * Clear another admin's 2FA, e.g. after they lose their phone and recovery codes
+ *
+ * Their sessions end; if 2FA is required they enrol again at next login.
+ */
+export async function resetTwoFactor(id: number, actor: AdminUser): Promise<AdminUser> {
+  if (id === actor.id) {
+    throw new Error('You cannot do this to your own account')
+  }
+
+  const user = await prisma.adminUser.findUnique({ where: { id } })
+
+  if (!user) {
+    throw new Error('Admin user not found')
+  }
+
+  if (!user.totpEnabledAt) {
+    throw new Error('Two-factor authentication is not enabled')
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await revokeAdminSessions(id, {}, tx)
+
+    return tx.adminUser.update({
+      where: { id },
+      data: { totpSecret: null, totpPendingSecret: null, totpEnabledAt: null, totpLastStep: null, recoveryCodes: [] }
+    })
+  })
+
+  return toAdminUser(updated)
+}
@@ -46,6 +46,7 @@ export async function triggerZapierWebhook(
       where: {
         identityId,
         productId,
+        awaitingVerification: false,
         zapierTriggered: false
       },
       data: {
@@ -69,6 +70,7 @@ export async function triggerZapierWebhook(
       where: {
         identityId,
         productId,
+        awaitingVerification: false,
         zapierTriggered: false
       },
       data: {
@@ -83,27 +85,71 @@ export async function triggerZapierWebhook(
   }
 }
 
+/**
+ * Trigger Zapier for the claimed products that have a webhook and submitted form data
+ * Only pass products claimed with a verified email; the rest wait for verification.
+ * Returns the IDs of products with a webhook configured (still being set up by Zapier)
+ */
+export async function triggerClaimWebhooks(
+  productIds: string[],
+  productData: Record<string, { email: string; formData?: Record<string, unknown> }>,
+  identityId: string
+): Promise<string[]> {
+  const productsWithWebhooks = await prisma.product.findMany({
+    where: {
+      id: { in: productIds },
+      zapierWebhookUrl: { not: null }
+    }
+  })
+
+  await Promise.allSettled(
+    productsWithWebhooks.map(async (product) => {
+      const data = productData[product.id]
+      if (data?.formData) {
+        return triggerZapierWebhook(
+          product.id,
+          { ...data.formData, email: data.email },
+          identityId
+        )
+      }
+      return { skipped: true }
+    })
+  )
+
+  return productsWithWebhooks.map((p) => p.id)
+}
+
 /**
  * Process pending Zapier submissions (for retry logic)
+ * Claims trigger their own submissions after commit; this picks up any that were
+ * left behind (e.g. the request died after the claim committed). Submissions for
+ * products without a webhook are left out, so they aren't rescanned every run,
+ * as are submissions still waiting for their email to be verified.
+ * Pass ids to send just those submissions (e.g. the ones a verification released).
  */
-export async function processPendingSubmissions() {
+export async function processPendingSubmissions(options: { createdBefore?: Date; ids?: number[] } = {}) {
   const pending = await prisma.productSubmission.findMany({
-    where: { zapierTriggered: false },
+    where: {
+      zapierTriggered: false,
+      awaitingVerification: false,
+      product: { zapierWebhookUrl: { not: null } },
+      ...(options.ids && { id: { in: options.ids } }),
+      ...(options.createdBefore && { createdAt: { lt: options.createdBefore } })
+    },
     include: {
-      product: true,
-      identity: true
+      identity: { include: { emails: true } }
     }
   })
 
   const results = await Promise.allSettled(
     pending.map(async (submission) => {
-      if (!submission.product.zapierWebhookUrl) {
-        return { skipped: true, reason: 'No webhook URL' }
-      }
+      const email = submission.email
+        || submission.identity.emails.find((e) => e.productId === submission.productId)?.email
+        || submission.identity.primaryEmail
 
       return triggerZapierWebhook(
         submission.productId,
-        submission.formData as Record<string, unknown>,
+        { ...(submission.formData as Record<string, unknown>), email },
         submission.identityId
       )
     })
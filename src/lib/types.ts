@@ -1,3 +1,5 @@
+import { AdminRole } from '@/lib/permissions'
+
 // API Response types
 export interface ApiResponse<T = unknown> {
   success: boolean
@@ -14,6 +16,12 @@ export interface CheckAccessResponse {
   bundleName?: string
   expires?: string | null
   grantedAt?: string
+  graceEndsAt?: string // Set while a subscription payment is failing
+}
+
+// Batch check access response (results are in request order)
+export interface BatchCheckAccessResponse {
+  results: (CheckAccessResponse & { email: string })[]
 }
 
 // Entitlements response
@@ -39,6 +47,7 @@ export interface ClaimTokenResponse {
       name: string
       requiresEmail: boolean
       formSchema: FormField[] | null
+      claimed: boolean
     }[]
   }
   purchaseEmail?: string
@@ -65,11 +74,30 @@ export interface ClaimActivationRequest {
   }
 }
 
+// API client scopes for per-app keys
+export const API_SCOPES = ['check:read', 'report:write', 'entitlements:read'] as const
+
+export type ApiScope = (typeof API_SCOPES)[number]
+
+export interface ApiClientSummary {
+  id: number
+  name: string
+  appKey: string | null
+  keyPrefix: string
+  scopes: string[]
+  lastUsedAt: Date | null
+  lastUsedIp: string | null
+  revokedAt: Date | null
+  createdBy: string | null
+  createdAt: Date
+}
+
 // Admin types
 export interface AdminUser {
   id: number
   email: string
   name: string | null
+  role: AdminRole
 }
 
 export interface ProductWithStats {
@@ -104,6 +132,7 @@ export interface BundleWithStats {
 export interface IdentityWithDetails {
   id: string
   primaryEmail: string
+  name: string | null
   stripeCustomerId: string | null
   createdAt: Date
   emails: {
@@ -0,0 +1,90 @@
+/**
+ * Request signing for Central Dashboard <-> connected app calls
+ *
+ * Header format (same shape as Stripe-Signature):
+ *   X-Central-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ *
+ * This file only depends on node:crypto so connected apps can copy it as-is
+ * to verify our sync and cache-clear calls:
+ *
+ *   const result = verifySignature(req.headers['x-central-signature'], rawBody, SIGNING_SECRET)
+ *   if (!result.valid) return res.status(401).json({ error: result.error })
+ *
+ * Always verify against the raw request body, before JSON parsing.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export const SIGNATURE_HEADER = 'X-Central-Signature'
+
+// Reject signatures more than 5 minutes old (or in the future)
+export const DEFAULT_TOLERANCE_SECONDS = 300
+
+export type SignatureVerification =
+  | { valid: true; timestamp: number; signature: string }
+  | { valid: false; error: string }
+
+/**
+ * Compute the hex HMAC-SHA256 signature for a timestamp and body
+ */
+export function computeSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Build the signature header value for a request body
+ */
+export function signPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`
+}
+
+/**
+ * Verify a signature header against the raw request body
+ * Accepts several v1 entries so a receiver can roll secrets without downtime.
+ */
+export function verifySignature(
+  header: string | null | undefined,
+  body: string,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): SignatureVerification {
+  if (!header) {
+    return { valid: false, error: 'Missing signature header' }
+  }
+
+  let timestamp: number | null = null
+  const signatures: string[] = []
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2)
+    if (key === 't') {
+      timestamp = Number(value)
+    } else if (key === 'v1' && value) {
+      signatures.push(value)
+    }
+  }
+
+  if (timestamp === null || !Number.isInteger(timestamp) || signatures.length === 0) {
+    return { valid: false, error: 'Malformed signature header' }
+  }
+
+  if (Math.abs(now - timestamp) > toleranceSeconds) {
+    return { valid: false, error: 'Signature timestamp outside tolerance window' }
+  }
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), 'hex')
+
+  for (const signature of signatures) {
+    const candidate = Buffer.from(signature, 'hex')
+    if (candidate.length === expected.length && timingSafeEqual(candidate, expected)) {
+      return { valid: true, timestamp, signature }
+    }
+  }
+
+  return { valid: false, error: 'Signature does not match' }
+}
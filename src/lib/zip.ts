@@ -0,0 +1,78 @@
+/**
+ * Minimal ZIP writer for data exports
+ *
+ * Files are stored uncompressed, which every unzip tool reads. Exports are
+ * small JSON files, so this avoids pulling in an archive library.
+ */
+
+import { crc32 } from 'zlib'
+
+export interface ZipEntry {
+  name: string
+  content: string | Buffer
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Build a ZIP archive from in-memory files
+ */
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const { time, date } = dosDateTime(modifiedAt)
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8')
+    const data = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content, 'utf8')
+    const checksum = crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0) // Local file header signature
+    local.writeUInt16LE(20, 4) // Version needed
+    local.writeUInt16LE(0x0800, 6) // UTF-8 file names
+    local.writeUInt16LE(0, 8) // Stored, no compression
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(checksum, 14)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0) // Central directory header signature
+    central.writeUInt16LE(20, 4) // Version made by
+    central.writeUInt16LE(20, 6) // Version needed
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(0, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(checksum, 16)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42) // Offset of the local header
+
+    localParts.push(local, name, data)
+    centralParts.push(central, name)
+    offset += local.length + name.length + data.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0) // End of central directory signature
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
@@ -11,6 +11,7 @@
 
 const CENTRAL_DASHBOARD_URL = process.env.CENTRAL_DASHBOARD_URL || 'https://central-dashboard-bbbb57a5985e.herokuapp.com';
 const API_KEY = process.env.CENTRAL_DASHBOARD_API_KEY || '';
+const AUTH_HEADERS = { 'X-Api-Key': API_KEY };
 
 interface TestResult {
   name: string;
@@ -83,7 +84,7 @@ async function testGrantFromRezume() {
   assert(data.sourceApp === 'rezume', 'Source app should be rezume');
 
   // Verify access was granted
-  const checkRes = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=${encodeURIComponent(testEmail)}&product=rezume`);
+  const checkRes = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=${encodeURIComponent(testEmail)}&product=rezume`, { headers: AUTH_HEADERS });
   const checkData = await checkRes.json();
   assert(checkData.hasAccess === true, 'User should have access after grant');
 }
@@ -141,7 +142,7 @@ async function testRevokeFromRezume() {
   });
 
   // Verify access
-  let checkRes = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=${encodeURIComponent(testEmail)}&product=rezume`);
+  let checkRes = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=${encodeURIComponent(testEmail)}&product=rezume`, { headers: AUTH_HEADERS });
   let checkData = await checkRes.json();
   assert(checkData.hasAccess === true, 'User should have access after grant');
 
@@ -168,7 +169,7 @@ async function testRevokeFromRezume() {
   assert(data.action === 'revoked', 'Action should be revoked');
 
   // Verify access removed
-  checkRes = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=${encodeURIComponent(testEmail)}&product=rezume`);
+  checkRes = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=${encodeURIComponent(testEmail)}&product=rezume`, { headers: AUTH_HEADERS });
   checkData = await checkRes.json();
   assert(checkData.hasAccess === false, 'User should NOT have access after revoke');
 }
@@ -197,7 +198,7 @@ async function testMultipleSources() {
   });
 
   // Verify access
-  let checkRes = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=${encodeURIComponent(testEmail)}&product=rezume`);
+  let checkRes = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=${encodeURIComponent(testEmail)}&product=rezume`, { headers: AUTH_HEADERS });
   let checkData = await checkRes.json();
   assert(checkData.hasAccess === true, 'User should have access');
   assert(checkData.source === 'direct', 'Source should be direct');
@@ -247,7 +248,7 @@ async function testMissingFieldsRejected() {
  * Test 8: Check endpoint works for non-existent user
  */
 async function testCheckNonExistentUser() {
-  const res = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=nonexistent-${Date.now()}@example.com&product=rezume`);
+  const res = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=nonexistent-${Date.now()}@example.com&product=rezume`, { headers: AUTH_HEADERS });
   assert(res.ok, `Expected 200, got ${res.status}`);
   const data = await res.json();
   assert(data.hasAccess === false, 'Non-existent user should not have access');
@@ -321,7 +322,7 @@ async function testReGrantAfterRevoke() {
   });
 
   // Verify no access
-  let checkRes = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=${encodeURIComponent(testEmail)}&product=rezume`);
+  let checkRes = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=${encodeURIComponent(testEmail)}&product=rezume`, { headers: AUTH_HEADERS });
   let checkData = await checkRes.json();
   assert(checkData.hasAccess === false, 'Should not have access after revoke');
 
@@ -343,11 +344,83 @@ async function testReGrantAfterRevoke() {
   });
 
   // Verify access restored
-  checkRes = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=${encodeURIComponent(testEmail)}&product=rezume`);
+  checkRes = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=${encodeURIComponent(testEmail)}&product=rezume`, { headers: AUTH_HEADERS });
   checkData = await checkRes.json();
   assert(checkData.hasAccess === true, 'Should have access after re-grant');
 }
 
+/**
+ * Test 11: Batch check returns one result per pair, in order
+ */
+async function testBatchCheck() {
+  const testEmail = `test-batch-${Date.now()}@example.com`;
+
+  await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/entitlements/report`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Admin-Api-Key': API_KEY,
+    },
+    body: JSON.stringify({
+      email: testEmail,
+      productId: 'rezume',
+      action: 'grant',
+      sourceApp: 'rezume',
+      stripeSubscriptionId: 'sub_batch_' + Date.now(),
+    }),
+  });
+
+  const res = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check/batch`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...AUTH_HEADERS },
+    body: JSON.stringify({
+      checks: [
+        { email: testEmail, product: 'rezume' },
+        { email: testEmail, product: 'aicoach' },
+        { email: `nonexistent-${Date.now()}@example.com`, product: 'rezume' },
+      ],
+    }),
+  });
+
+  assert(res.ok, `Expected 200, got ${res.status}`);
+  const data = await res.json();
+  assert(data.results.length === 3, 'Should return one result per check');
+  assert(data.results[0].hasAccess === true, 'Granted product should have access');
+  assert(data.results[0].source === 'direct', 'Source should be direct');
+  assert(data.results[1].hasAccess === false, 'Other product should not have access');
+  assert(data.results[2].hasAccess === false, 'Non-existent user should not have access');
+}
+
+/**
+ * Test 12: Check endpoint rejects requests without an API key
+ */
+async function testCheckRequiresApiKey() {
+  const res = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/check?email=test@example.com&product=rezume`);
+  assert(res.status === 401, `Expected 401, got ${res.status}`);
+}
+
+/**
+ * Test 13: Report with a bad or stale signature is rejected
+ */
+async function testInvalidSignatureRejected() {
+  const body = JSON.stringify({
+    email: `test-signature-${Date.now()}@example.com`,
+    productId: 'rezume',
+    action: 'grant',
+    sourceApp: 'rezume'
+  });
+
+  const now = Math.floor(Date.now() / 1000);
+  for (const signature of [`t=${now},v1=${'0'.repeat(64)}`, `t=${now - 3600},v1=${'0'.repeat(64)}`]) {
+    const res = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/entitlements/report`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Central-Signature': signature },
+      body
+    });
+    assert(res.status === 401, `Expected 401, got ${res.status}`);
+  }
+}
+
 // ============================================
 // MAIN TEST RUNNER
 // ============================================
@@ -372,6 +445,9 @@ async function main() {
   await runTest('8. Check non-existent user', testCheckNonExistentUser);
   await runTest('9. Revenue tracking fields stored', testRevenueTracking);
   await runTest('10. Re-grant after revoke works', testReGrantAfterRevoke);
+  await runTest('11. Batch check resolves all pairs', testBatchCheck);
+  await runTest('12. Check requires API key', testCheckRequiresApiKey);
+  await runTest('13. Invalid signature rejected', testInvalidSignatureRejected);
 
   // Summary
   console.log('\n' + '='.repeat(50));
@@ -0,0 +1,213 @@
+/**
+ * Claim Concurrency Test Cases
+ *
+ * Fires simultaneous activations of one claim token at the claim endpoint
+ * and checks that exactly one wins and access is granted once, and that a
+ * bundle can be activated a few products at a time.
+ *
+ * Creates its own identity and claim token directly in the database, so
+ * DATABASE_URL must point at the same database as the target deployment.
+ *
+ * Run with: npx ts-node tests/claim-concurrency.test.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const CENTRAL_DASHBOARD_URL = process.env.CENTRAL_DASHBOARD_URL || 'https://central-dashboard-bbbb57a5985e.herokuapp.com';
+const CONCURRENT_REQUESTS = 5;
+
+const prisma = new PrismaClient();
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  duration: number;
+}
+
+const results: TestResult[] = [];
+
+async function runTest(name: string, testFn: () => Promise<void>): Promise<void> {
+  const start = Date.now();
+  try {
+    await testFn();
+    results.push({ name, passed: true, duration: Date.now() - start });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: errorMsg, duration: Date.now() - start });
+    console.log(`❌ ${name}: ${errorMsg}`);
+  }
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const createdIdentityIds: string[] = [];
+
+/**
+ * Create a throwaway buyer with an open claim token for an active bundle
+ */
+async function createClaimableToken() {
+  const bundle = await prisma.bundle.findFirst({ where: { isActive: true } });
+  if (!bundle) throw new Error('No active bundle to claim');
+
+  const email = `test-claim-${Date.now()}@example.com`;
+  const identity = await prisma.identity.create({ data: { primaryEmail: email } });
+  createdIdentityIds.push(identity.id);
+
+  const claimToken = await prisma.claimToken.create({
+    data: {
+      token: `test_claim_${Date.now()}_${Math.random().toString(36).slice(2)}`,
+      identityId: identity.id,
+      bundleId: bundle.id,
+      purchaseEmail: email,
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    },
+  });
+
+  return { bundle, identity, email, token: claimToken.token };
+}
+
+async function activate(token: string, productIds: string[], email: string) {
+  const products = Object.fromEntries(productIds.map((id) => [id, { email }]));
+
+  const res = await fetch(`${CENTRAL_DASHBOARD_URL}/api/v1/claim/${token}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ products }),
+  });
+
+  return { status: res.status, data: await res.json() };
+}
+
+// ============================================
+// TEST CASES
+// ============================================
+
+/**
+ * Test 1: Only one of several simultaneous activations wins
+ */
+async function testConcurrentActivationsSingleWinner() {
+  const { bundle, identity, email, token } = await createClaimableToken();
+
+  const responses = await Promise.all(
+    Array.from({ length: CONCURRENT_REQUESTS }, () => activate(token, bundle.productIds, email))
+  );
+
+  const winners = responses.filter((r) => r.status === 200 && r.data.success);
+  const losers = responses.filter((r) => !r.data.success);
+
+  assert(winners.length === 1, `Expected exactly 1 successful activation, got ${winners.length}`);
+  assert(
+    losers.every((r) => r.status === 400 && r.data.error === 'Token already claimed'),
+    `Losing requests should fail with "Token already claimed": ${JSON.stringify(losers.map((r) => r.data.error))}`
+  );
+
+  const claims = await prisma.auditLog.count({ where: { action: 'claim', identityId: identity.id } });
+  assert(claims === 1, `Expected 1 claim audit entry, got ${claims}`);
+
+  const entitlements = await prisma.entitlement.count({
+    where: { identityId: identity.id, bundleId: bundle.id, revokedAt: null },
+  });
+  assert(
+    entitlements === bundle.productIds.length,
+    `Expected ${bundle.productIds.length} entitlements, got ${entitlements}`
+  );
+}
+
+/**
+ * Test 2: Token is marked claimed after the winning activation
+ */
+async function testTokenClaimedAfterActivation() {
+  const { bundle, email, token } = await createClaimableToken();
+
+  const first = await activate(token, bundle.productIds, email);
+  assert(first.status === 200 && first.data.success, `Activation failed: ${first.data.error}`);
+
+  const claimToken = await prisma.claimToken.findUnique({ where: { token } });
+  assert(claimToken?.claimed === true, 'Token should be marked claimed');
+  assert(!!claimToken?.claimedAt, 'Token should have claimedAt set');
+
+  const again = await activate(token, bundle.productIds, email);
+  assert(again.status === 400, `Re-activation: expected 400, got ${again.status}`);
+}
+
+/**
+ * Test 3: A bundle can be activated one product at a time
+ */
+async function testStagedActivation() {
+  const { bundle, email, token } = await createClaimableToken();
+  if (bundle.productIds.length < 2) {
+    console.log('   ⚠️  Skipping: bundle has a single product');
+    return;
+  }
+
+  const [first, ...rest] = bundle.productIds;
+
+  const partial = await activate(token, [first], email);
+  assert(partial.status === 200 && partial.data.success, `Partial activation failed: ${partial.data.error}`);
+  assert(partial.data.complete === false, 'Partial activation should not complete the bundle');
+
+  let claimToken = await prisma.claimToken.findUnique({ where: { token } });
+  assert(claimToken?.claimed === false, 'Token should stay open after a partial activation');
+  assert(
+    claimToken?.claimedProductIds.length === 1 && claimToken.claimedProductIds[0] === first,
+    `Expected claimedProductIds [${first}], got ${JSON.stringify(claimToken?.claimedProductIds)}`
+  );
+
+  const repeat = await activate(token, [first], email);
+  assert(repeat.status === 400, `Re-activating a product: expected 400, got ${repeat.status}`);
+
+  const remaining = await activate(token, rest, email);
+  assert(remaining.status === 200 && remaining.data.success, `Remaining activation failed: ${remaining.data.error}`);
+  assert(remaining.data.complete === true, 'Activating the remaining products should complete the bundle');
+
+  claimToken = await prisma.claimToken.findUnique({ where: { token } });
+  assert(claimToken?.claimed === true, 'Token should be claimed once every product is activated');
+}
+
+// ============================================
+// RUN TESTS
+// ============================================
+
+async function main() {
+  console.log('\n🧪 Running Claim Concurrency Tests\n');
+  console.log(`Target: ${CENTRAL_DASHBOARD_URL}\n`);
+
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is required');
+    process.exit(1);
+  }
+
+  await runTest('1. Concurrent activations have a single winner', testConcurrentActivationsSingleWinner);
+  await runTest('2. Token claimed after activation', testTokenClaimedAfterActivation);
+  await runTest('3. Staged activation of bundle products', testStagedActivation);
+
+  // Remove test buyers (tokens, entitlements and emails cascade)
+  await prisma.identity.deleteMany({ where: { id: { in: createdIdentityIds } } });
+  await prisma.$disconnect();
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed\n`);
+
+  if (failed > 0) {
+    console.log('Failed tests:');
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  ❌ ${r.name}: ${r.error}`);
+    });
+    process.exit(1);
+  }
+
+  console.log('✅ All tests passed!\n');
+}
+
+main().catch(console.error);
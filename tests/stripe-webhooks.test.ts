@@ -0,0 +1,217 @@
+/**
+ * Stripe Webhook Test Cases
+ *
+ * Replays recorded Stripe events (tests/fixtures/stripe) against the webhook
+ * endpoint to check idempotency and subscription event ordering.
+ *
+ * Requires STRIPE_WEBHOOK_SECRET to match the target deployment.
+ *
+ * Run with: npx ts-node tests/stripe-webhooks.test.ts
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import Stripe from 'stripe';
+
+const CENTRAL_DASHBOARD_URL = process.env.CENTRAL_DASHBOARD_URL || 'https://central-dashboard-bbbb57a5985e.herokuapp.com';
+const WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET || '';
+const WEBHOOK_URL = `${CENTRAL_DASHBOARD_URL}/api/v1/webhooks/stripe`;
+
+// Only used to build signature headers, never to call the Stripe API
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'sk_test_fixture');
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  duration: number;
+}
+
+const results: TestResult[] = [];
+
+async function runTest(name: string, testFn: () => Promise<void>): Promise<void> {
+  const start = Date.now();
+  try {
+    await testFn();
+    results.push({ name, passed: true, duration: Date.now() - start });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: errorMsg, duration: Date.now() - start });
+    console.log(`❌ ${name}: ${errorMsg}`);
+  }
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+type FixtureEvent = {
+  id: string;
+  created: number;
+  data: { object: { id: string } };
+};
+
+/**
+ * Load a recorded event, giving it fresh event and subscription ids so
+ * each run starts with no prior WebhookLog history
+ */
+function loadFixture(name: string, overrides: { eventId: string; subscriptionId: string; created: number }): FixtureEvent {
+  const raw = readFileSync(join(__dirname, 'fixtures', 'stripe', `${name}.json`), 'utf8');
+  const event = JSON.parse(raw) as FixtureEvent;
+  event.id = overrides.eventId;
+  event.created = overrides.created;
+  event.data.object.id = overrides.subscriptionId;
+  return event;
+}
+
+async function deliver(event: FixtureEvent, signature?: string) {
+  const payload = JSON.stringify(event);
+  const header = signature ?? stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+
+  const res = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': header,
+    },
+    body: payload,
+  });
+
+  return { status: res.status, data: await res.json() };
+}
+
+// ============================================
+// TEST CASES
+// ============================================
+
+/**
+ * Test 1: Redelivered event is only processed once
+ */
+async function testDuplicateDeliverySkipped() {
+  const run = Date.now();
+  const event = loadFixture('customer.subscription.updated', {
+    eventId: `evt_test_dup_${run}`,
+    subscriptionId: `sub_test_dup_${run}`,
+    created: Math.floor(run / 1000),
+  });
+
+  const first = await deliver(event);
+  assert(first.status === 200, `First delivery: expected 200, got ${first.status}`);
+  assert(!first.data.duplicate, 'First delivery should not be a duplicate');
+
+  const second = await deliver(event);
+  assert(second.status === 200, `Redelivery: expected 200, got ${second.status}`);
+  assert(second.data.duplicate === true, 'Redelivery should be skipped as a duplicate');
+}
+
+/**
+ * Test 2: Older subscription.updated arriving late is ignored
+ */
+async function testStaleSubscriptionUpdateIgnored() {
+  const run = Date.now();
+  const subscriptionId = `sub_test_order_${run}`;
+  const created = Math.floor(run / 1000);
+
+  const newer = loadFixture('customer.subscription.updated', {
+    eventId: `evt_test_newer_${run}`,
+    subscriptionId,
+    created,
+  });
+  const older = loadFixture('customer.subscription.updated', {
+    eventId: `evt_test_older_${run}`,
+    subscriptionId,
+    created: created - 60,
+  });
+
+  const applied = await deliver(newer);
+  assert(applied.status === 200, `Newer event: expected 200, got ${applied.status}`);
+
+  const late = await deliver(older);
+  assert(late.status === 200, `Older event: expected 200, got ${late.status}`);
+  assert(late.data.stale === true, 'Older event should be ignored as stale');
+}
+
+/**
+ * Test 3: Newer subscription event after an older one is applied
+ */
+async function testNewerSubscriptionEventApplied() {
+  const run = Date.now();
+  const subscriptionId = `sub_test_seq_${run}`;
+  const created = Math.floor(run / 1000);
+
+  const updated = loadFixture('customer.subscription.updated', {
+    eventId: `evt_test_seq_upd_${run}`,
+    subscriptionId,
+    created: created - 60,
+  });
+  const deleted = loadFixture('customer.subscription.deleted', {
+    eventId: `evt_test_seq_del_${run}`,
+    subscriptionId,
+    created,
+  });
+
+  const first = await deliver(updated);
+  assert(first.status === 200, `Update: expected 200, got ${first.status}`);
+
+  const second = await deliver(deleted);
+  assert(second.status === 200, `Delete: expected 200, got ${second.status}`);
+  assert(!second.data.stale, 'Newer event should not be treated as stale');
+  assert(!second.data.duplicate, 'Newer event should not be treated as a duplicate');
+}
+
+/**
+ * Test 4: Invalid signature rejected before claiming the event
+ */
+async function testInvalidSignatureRejected() {
+  const run = Date.now();
+  const event = loadFixture('customer.subscription.updated', {
+    eventId: `evt_test_badsig_${run}`,
+    subscriptionId: `sub_test_badsig_${run}`,
+    created: Math.floor(run / 1000),
+  });
+
+  const res = await deliver(event, `t=${Math.floor(run / 1000)},v1=${'0'.repeat(64)}`);
+  assert(res.status === 400, `Expected 400, got ${res.status}`);
+}
+
+// ============================================
+// RUN TESTS
+// ============================================
+
+async function main() {
+  console.log('\n🧪 Running Stripe Webhook Tests\n');
+  console.log(`Target: ${WEBHOOK_URL}\n`);
+
+  if (!WEBHOOK_SECRET) {
+    console.error('❌ STRIPE_WEBHOOK_SECRET environment variable is required');
+    process.exit(1);
+  }
+
+  await runTest('1. Duplicate delivery skipped', testDuplicateDeliverySkipped);
+  await runTest('2. Stale subscription update ignored', testStaleSubscriptionUpdateIgnored);
+  await runTest('3. Newer subscription event applied', testNewerSubscriptionEventApplied);
+  await runTest('4. Invalid signature rejected', testInvalidSignatureRejected);
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed\n`);
+
+  if (failed > 0) {
+    console.log('Failed tests:');
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  ❌ ${r.name}: ${r.error}`);
+    });
+    process.exit(1);
+  }
+
+  console.log('✅ All tests passed!\n');
+}
+
+main().catch(console.error);